@@ -1,10 +1,24 @@
+"use client";
 
+import { useState } from "react";
 import BlockifyGame from "@/components/game/BlockifyGame";
+import WorldSelectScreen from "@/components/WorldSelectScreen";
 
 export default function Home() {
+  // undefined = todavía en el menú; null = mundo temporal sin guardar
+  const [activeWorldId, setActiveWorldId] = useState<string | null | undefined>(undefined);
+
   return (
     <main className="font-mono">
-      <BlockifyGame />
+      {activeWorldId === undefined ? (
+        <WorldSelectScreen onPlayWorld={setActiveWorldId} />
+      ) : (
+        <BlockifyGame
+          key={activeWorldId ?? "temporal"}
+          worldId={activeWorldId}
+          onExitToMenu={() => setActiveWorldId(undefined)}
+        />
+      )}
     </main>
   );
 }
@@ -4,17 +4,28 @@ import { logger } from '@/lib/three-game/utils/Logger';
 import { AudioManager } from '@/lib/three-game/AudioManager';
 import { Howler } from 'howler';
 import { EventBus, GameEvents } from '@/lib/three-game/events/EventBus';
+import {
+    GameStateService,
+    GAME_MODES,
+    GAME_MODE_LABELS,
+} from '@/lib/three-game/services/GameStateService';
+import { SettingsService } from '@/lib/three-game/services/SettingsService';
 
 interface PauseMenuProps {
     isPaused: boolean;
     onResumeGame: () => void;
+    onExitToMenu: () => void;
 }
 
-const PauseMenu: React.FC<PauseMenuProps> = ({ isPaused, onResumeGame }) => {
+const PauseMenu: React.FC<PauseMenuProps> = ({ isPaused, onResumeGame, onExitToMenu }) => {
     const [showSettings, setShowSettings] = useState(false);
     const [disableLogs, setDisableLogs] = useState(false);
     const [masterVolume, setMasterVolume] = useState(50);
     const [renderDistance, setRenderDistance] = useState(8); // Nuevo estado para la distancia de renderizado
+    const [gameMode, setGameMode] = useState(() => GameStateService.getInstance().getGameMode());
+    const [ambientOcclusion, setAmbientOcclusion] = useState(
+        () => SettingsService.getInstance().isAmbientOcclusionEnabled()
+    );
     // Detectar la frecuencia máxima de la pantalla (mejorado)
     const [detectedHz, setDetectedHz] = useState<number>(60);
     // Estado para máximo personalizado
@@ -121,12 +132,32 @@ const PauseMenu: React.FC<PauseMenuProps> = ({ isPaused, onResumeGame }) => {
         EventBus.getInstance().emit(GameEvents.RENDER_DISTANCE_CHANGE, { distance: value });
     };
 
+    const handleToggleAmbientOcclusion = () => {
+        const enabled = !ambientOcclusion;
+        setAmbientOcclusion(enabled);
+        SettingsService.getInstance().setAmbientOcclusion(enabled);
+        EventBus.getInstance().emit(GameEvents.AMBIENT_OCCLUSION_CHANGE, { enabled });
+    };
+
     const handleFpsLimitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const value = Number(e.target.value);
         setFpsLimit(value);
         EventBus.getInstance().emit('FPS_LIMIT_CHANGE', { fps: value });
     };
 
+    // El modo puede haber cambiado desde fuera del menú (al cargar otro mundo)
+    React.useEffect(() => {
+        if (isPaused) {
+            setGameMode(GameStateService.getInstance().getGameMode());
+        }
+    }, [isPaused]);
+
+    const handleCycleGameMode = () => {
+        const nextMode = GAME_MODES[(GAME_MODES.indexOf(gameMode) + 1) % GAME_MODES.length];
+        GameStateService.getInstance().setGameMode(nextMode);
+        setGameMode(nextMode);
+    };
+
     if (!isPaused) {
         return null;
     }
@@ -171,6 +202,15 @@ const PauseMenu: React.FC<PauseMenuProps> = ({ isPaused, onResumeGame }) => {
                         />
                         <span className="settings-volume-value">{renderDistance}</span>
                     </div>
+                    <div className="settings-row">
+                        <span>Oclusión ambiental</span>
+                        <button
+                            className={ambientOcclusion ? 'settings-btn-on' : 'settings-btn-off'}
+                            onClick={handleToggleAmbientOcclusion}
+                        >
+                            {ambientOcclusion ? 'ON' : 'OFF'}
+                        </button>
+                    </div>
                     <div className="settings-row">
                         <span>Limite de FPS</span>
                         <div className="settings-fps-slider-wrapper">
@@ -221,7 +261,9 @@ const PauseMenu: React.FC<PauseMenuProps> = ({ isPaused, onResumeGame }) => {
             <div className="pause-menu-content">
                 <h1>Juego Pausado</h1>
                 <button onClick={onResumeGame}>Reanudar Partida</button>
+                <button onClick={handleCycleGameMode}>Modo de juego: {GAME_MODE_LABELS[gameMode]}</button>
                 <button onClick={() => setShowSettings(true)}>Ajustes</button>
+                <button onClick={onExitToMenu}>Guardar y Salir al Menú</button>
             </div>
         </div>
     );
@@ -0,0 +1,297 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import './PauseMenu.css';
+import './WorldSelectScreen.css';
+import {
+    WorldSaveService,
+    resolveWorldSeed,
+    type SavedWorldMeta,
+} from '@/lib/three-game/services/WorldSaveService';
+import { gameLogger } from '@/lib/three-game/services/LoggingService';
+import {
+    GAME_MODES,
+    GAME_MODE_LABELS,
+    type GameMode,
+} from '@/lib/three-game/services/GameStateService';
+import { DEFAULT_WORLD_HEIGHT, WORLD_HEIGHTS } from '@/lib/three-game/utils';
+
+interface WorldSelectScreenProps {
+    // null = mundo temporal sin guardar (cuando IndexedDB no está disponible)
+    onPlayWorld: (worldId: string | null) => void;
+}
+
+type ScreenView = 'list' | 'create' | 'rename' | 'delete';
+
+const formatPlayTime = (ms: number): string => {
+    const totalMinutes = Math.floor(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+};
+
+const formatLastPlayed = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(undefined, {
+        dateStyle: 'short',
+        timeStyle: 'short',
+    });
+
+const WorldSelectScreen: React.FC<WorldSelectScreenProps> = ({ onPlayWorld }) => {
+    const saveService = WorldSaveService.getInstance();
+    const [worlds, setWorlds] = useState<SavedWorldMeta[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [view, setView] = useState<ScreenView>('list');
+    const [isLoading, setIsLoading] = useState(true);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    const [nameInput, setNameInput] = useState('');
+    const [seedInput, setSeedInput] = useState('');
+    const [gameModeInput, setGameModeInput] = useState<GameMode>('creative');
+    const [worldHeightInput, setWorldHeightInput] = useState<number>(DEFAULT_WORLD_HEIGHT);
+
+    const selectedWorld = worlds.find(world => world.id === selectedId) ?? null;
+
+    const refreshWorlds = useCallback(async () => {
+        try {
+            const list = await saveService.listWorlds();
+            setWorlds(list);
+            setSelectedId(prev => (list.some(world => world.id === prev) ? prev : list[0]?.id ?? null));
+        } catch (error) {
+            gameLogger.logError(error instanceof Error ? error : new Error(String(error)), 'World List');
+            setStorageError('No se pudieron leer los mundos guardados.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [saveService]);
+
+    useEffect(() => {
+        if (!saveService.isAvailable()) {
+            setStorageError('Este navegador no permite guardar mundos.');
+            setIsLoading(false);
+            return;
+        }
+        refreshWorlds();
+    }, [saveService, refreshWorlds]);
+
+    // Ejecuta una operación sobre los mundos guardados y recarga la lista
+    const runWorldAction = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+        } catch (error) {
+            gameLogger.logError(error instanceof Error ? error : new Error(String(error)), 'World Action');
+        }
+        setView('list');
+        await refreshWorlds();
+    };
+
+    const openCreate = () => {
+        setNameInput('Mundo nuevo');
+        setSeedInput('');
+        setGameModeInput('creative');
+        setWorldHeightInput(DEFAULT_WORLD_HEIGHT);
+        setView('create');
+    };
+
+    // Borrar no se puede deshacer: hay que escribir el nombre del mundo para confirmarlo
+    const openDelete = () => {
+        if (!selectedWorld) return;
+        setNameInput('');
+        setView('delete');
+    };
+
+    const openRename = () => {
+        if (!selectedWorld) return;
+        setNameInput(selectedWorld.name);
+        setView('rename');
+    };
+
+    const handleCreate = () =>
+        runWorldAction(async () => {
+            const meta = await saveService.createWorld(
+                nameInput.trim() || 'Mundo nuevo',
+                resolveWorldSeed(seedInput),
+                gameModeInput,
+                worldHeightInput
+            );
+            setSelectedId(meta.id);
+        });
+
+    const handleDuplicate = () => {
+        if (!selectedWorld) return;
+        runWorldAction(async () => {
+            const copy = await saveService.duplicateWorld(
+                selectedWorld.id,
+                `${selectedWorld.name} (copia)`
+            );
+            setSelectedId(copy.id);
+        });
+    };
+
+    const handleRename = () => {
+        if (!selectedWorld) return;
+        runWorldAction(() =>
+            saveService.renameWorld(selectedWorld.id, nameInput.trim() || selectedWorld.name)
+        );
+    };
+
+    const handleDelete = () => {
+        if (!selectedWorld || nameInput.trim() !== selectedWorld.name.trim()) return;
+        runWorldAction(() => saveService.deleteWorld(selectedWorld.id));
+    };
+
+    if (storageError) {
+        return (
+            <div className="pause-menu-overlay world-select-screen">
+                <div className="pause-menu-content">
+                    <h1>Seleccionar Mundo</h1>
+                    <p className="world-select-message">{storageError}</p>
+                    <button onClick={() => onPlayWorld(null)}>Jugar sin Guardar</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (view === 'create') {
+        return (
+            <div className="pause-menu-overlay world-select-screen">
+                <div className="pause-menu-content settings-menu">
+                    <h1>Crear Mundo Nuevo</h1>
+                    <label className="world-select-field">
+                        <span>Nombre del mundo</span>
+                        <input
+                            value={nameInput}
+                            onChange={e => setNameInput(e.target.value)}
+                            maxLength={32}
+                            autoFocus
+                        />
+                    </label>
+                    <label className="world-select-field">
+                        <span>Semilla</span>
+                        <input
+                            value={seedInput}
+                            onChange={e => setSeedInput(e.target.value)}
+                            placeholder="Vacía = aleatoria"
+                        />
+                    </label>
+                    <button
+                        onClick={() =>
+                            setGameModeInput(
+                                GAME_MODES[(GAME_MODES.indexOf(gameModeInput) + 1) % GAME_MODES.length]
+                            )
+                        }
+                    >
+                        Modo de juego: {GAME_MODE_LABELS[gameModeInput]}
+                    </button>
+                    <button
+                        onClick={() =>
+                            setWorldHeightInput(
+                                WORLD_HEIGHTS[(WORLD_HEIGHTS.indexOf(worldHeightInput) + 1) % WORLD_HEIGHTS.length]
+                            )
+                        }
+                    >
+                        Altura del mundo: {worldHeightInput} bloques
+                    </button>
+                    <button onClick={handleCreate}>Crear Mundo</button>
+                    <button onClick={() => setView('list')}>Cancelar</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (view === 'rename' && selectedWorld) {
+        return (
+            <div className="pause-menu-overlay world-select-screen">
+                <div className="pause-menu-content settings-menu">
+                    <h1>Renombrar Mundo</h1>
+                    <label className="world-select-field">
+                        <span>Nombre del mundo</span>
+                        <input
+                            value={nameInput}
+                            onChange={e => setNameInput(e.target.value)}
+                            maxLength={32}
+                            autoFocus
+                        />
+                    </label>
+                    <button onClick={handleRename}>Guardar</button>
+                    <button onClick={() => setView('list')}>Cancelar</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (view === 'delete' && selectedWorld) {
+        return (
+            <div className="pause-menu-overlay world-select-screen">
+                <div className="pause-menu-content settings-menu">
+                    <h1>¿Eliminar mundo?</h1>
+                    <p className="world-select-message">
+                        &quot;{selectedWorld.name}&quot; y todos sus cambios se perderán para siempre.
+                    </p>
+                    <label className="world-select-field">
+                        <span>Escribe el nombre del mundo para confirmar</span>
+                        <input
+                            value={nameInput}
+                            onChange={e => setNameInput(e.target.value)}
+                            placeholder={selectedWorld.name}
+                            maxLength={32}
+                            autoFocus
+                        />
+                    </label>
+                    <button
+                        disabled={nameInput.trim() !== selectedWorld.name.trim()}
+                        onClick={handleDelete}
+                    >
+                        Eliminar
+                    </button>
+                    <button onClick={() => setView('list')}>Cancelar</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="pause-menu-overlay world-select-screen">
+            <div className="pause-menu-content">
+                <h1>Seleccionar Mundo</h1>
+                <div className="world-select-list">
+                    {isLoading && <p className="world-select-message">Cargando mundos...</p>}
+                    {!isLoading && worlds.length === 0 && (
+                        <p className="world-select-message">Todavía no hay mundos guardados.</p>
+                    )}
+                    {worlds.map(world => (
+                        <div
+                            key={world.id}
+                            className={`world-select-entry${world.id === selectedId ? ' selected' : ''}`}
+                            onClick={() => setSelectedId(world.id)}
+                            onDoubleClick={() => onPlayWorld(world.id)}
+                        >
+                            {world.thumbnail ? (
+                                <img className="world-select-thumbnail" src={world.thumbnail} alt="" />
+                            ) : (
+                                <div className="world-select-thumbnail" />
+                            )}
+                            <div className="world-select-details">
+                                <span className="world-select-name">{world.name}</span>
+                                <span>
+                                    Semilla: {world.seed} · {GAME_MODE_LABELS[world.gameMode ?? 'creative']} ·{' '}
+                                    {world.worldHeight ?? DEFAULT_WORLD_HEIGHT} bloques
+                                </span>
+                                <span>
+                                    {formatLastPlayed(world.lastPlayed)} · {formatPlayTime(world.playTimeMs)}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                <div className="world-select-actions">
+                    <button disabled={!selectedWorld} onClick={() => selectedWorld && onPlayWorld(selectedWorld.id)}>
+                        Jugar
+                    </button>
+                    <button onClick={openCreate}>Crear Mundo Nuevo</button>
+                    <button disabled={!selectedWorld} onClick={handleDuplicate}>Duplicar</button>
+                    <button disabled={!selectedWorld} onClick={openRename}>Renombrar</button>
+                    <button disabled={!selectedWorld} onClick={openDelete}>Eliminar</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WorldSelectScreen;
@@ -6,14 +6,26 @@ import dynamic from 'next/dynamic';
 import type { GameRefs, DebugInfoState, ErrorInfo } from "@/lib/three-game/types";
 import { CONTROL_CONFIG, CURSOR_STATE, CHUNK_SIZE } from "@/lib/three-game/utils";
 import { EventBus, GameEvents } from "@/lib/three-game/events/EventBus";
+import type {
+  AmbientOcclusionChangeEvent,
+  ChatToggleEvent,
+  EditHistoryApplyEvent,
+} from "@/lib/three-game/events/EventBus";
+import { toast } from "@/hooks/use-toast";
 import { useGameLoop } from "@/hooks/game/useGameLoop";
 import { useGameInitialization } from "@/hooks/game/useGameInitialization";
 import { GameDebugOverlay } from "./GameDebugOverlay";
 import { GameCrosshair } from "./GameCrosshair";
+import { GameHotbar } from "./GameHotbar";
+import { GameActionBar } from "./GameActionBar";
+import GameInventory from "./GameInventory";
+import GameChat from "./GameChat";
+import GameDeathScreen from "./GameDeathScreen";
 import ErrorBoundaryDisplay from "./ErrorBoundaryDisplay";
 import { useFog } from '@/hooks/game/useFog';
 import { gameLogger } from '@/lib/three-game/services/LoggingService';
 import { getRecoveryService } from '@/lib/three-game/services/RecoveryService';
+import { WorldSaveService } from '@/lib/three-game/services/WorldSaveService';
 import PauseMenu from '../PauseMenu';
 import styles from './BlockifyGame.module.css';
 
@@ -24,7 +36,12 @@ const LoadingComponent = () => (
   </div>
 );
 
-const BlockifyGame: React.FC = () => {
+interface BlockifyGameProps {
+  worldId: string | null; // null = mundo temporal sin guardar
+  onExitToMenu: () => void;
+}
+
+const BlockifyGame: React.FC<BlockifyGameProps> = ({ worldId, onExitToMenu }) => {
   const [isClient, setIsClient] = useState(false);
   const mountRef = useRef<HTMLDivElement>(null);
   const gameRefs = useRef<GameRefs>({
@@ -40,11 +57,12 @@ const BlockifyGame: React.FC = () => {
     rendererManager: null,
     gameLogic: null,
     threeSetup: null,
-    lighting: null,
+    lightingService: null,
     controlConfig: { ...CONTROL_CONFIG },
     cursor: { ...CURSOR_STATE },
     gameLoopId: null,
     canvasRef: null,
+    worldId: null,
     worldSeed: null,
     sky: null,
     eventBus: EventBus.getInstance(),
@@ -64,6 +82,9 @@ const BlockifyGame: React.FC = () => {
     isRunning: "Running: No",
     isBoosting: "Boosting: No",
     lookDirection: "Look: N/A",
+    biome: "Bioma: N/A",
+    light: "",
+    blockInfo: "",
   });
 
   const [crosshairBgColor, setCrosshairBgColor] = useState<string>("rgba(0, 0, 0, 0.75)");
@@ -75,6 +96,9 @@ const BlockifyGame: React.FC = () => {
     memory: null as null | { usedMB: number; totalMB: number },
   });
   const [isGamePaused, setIsGamePaused] = useState(false);
+  const [isInventoryOpen, setIsInventoryOpen] = useState(false);
+  const [chat, setChat] = useState<ChatToggleEvent>({ open: false, initialText: "" });
+  const [isPlayerDead, setIsPlayerDead] = useState(false);
   const [showDebugOverlay, setShowDebugOverlay] = useState(true);
   const showDebugOverlayRef = useRef(true);
 
@@ -105,6 +129,7 @@ const BlockifyGame: React.FC = () => {
 
   const { initGame } = useGameInitialization({
     gameRefs,
+    worldId,
     mountRef,
     setErrorInfo,
     setDebugInfo,
@@ -160,7 +185,8 @@ const BlockifyGame: React.FC = () => {
     }
 
     gameLogger.logGameEvent('Iniciando montaje del juego');
-    initGame();
+    const initAbort = new AbortController();
+    initGame(initAbort.signal);
 
     const refs = gameRefs.current;
 
@@ -178,6 +204,11 @@ const BlockifyGame: React.FC = () => {
     };
     eventBus.on(GameEvents.RENDER_DISTANCE_CHANGE, handleRenderDistanceChange);
 
+    const handleAmbientOcclusionChange = (event: AmbientOcclusionChangeEvent) => {
+        refs.world?.setAmbientOcclusion(event.enabled);
+    };
+    eventBus.on(GameEvents.AMBIENT_OCCLUSION_CHANGE, handleAmbientOcclusionChange);
+
     const updateCrosshairColor = () => {
       const now = performance.now();
       if (now - lastUpdateTimeRef.current < UPDATE_INTERVAL) return;
@@ -279,6 +310,7 @@ const BlockifyGame: React.FC = () => {
     }, 1000);
 
     return () => {
+      initAbort.abort();
       if (recoveryServiceRef.current.isInRecoveryMode()) {
         gameLogger.logGameEvent('Omitiendo limpieza durante recuperación');
         return;
@@ -293,6 +325,10 @@ const BlockifyGame: React.FC = () => {
         gameLogger.logGameEvent('Game loop detenido');
       }
 
+      // Guardar los chunks modificados antes de liberar el mundo
+      WorldSaveService.getInstance().detachWorld();
+      refs.gameLogic?.dispose();
+
       // Limpieza de recursos con logging
       if (refs.renderer) {
         refs.renderer.dispose();
@@ -316,6 +352,7 @@ const BlockifyGame: React.FC = () => {
       }
 
       eventBus.off(GameEvents.RENDER_DISTANCE_CHANGE, handleRenderDistanceChange);
+      eventBus.off(GameEvents.AMBIENT_OCCLUSION_CHANGE, handleAmbientOcclusionChange);
     };
   }, [initGame, isClient]);
 
@@ -339,23 +376,120 @@ const BlockifyGame: React.FC = () => {
     };
   }, []);
 
+  // Mostrar el inventario cuando GameLogic lo abre (tecla de inventario)
+  useEffect(() => {
+    const eventBus = gameRefs.current.eventBus;
+    const handleInventoryToggle = (event: { open: boolean }) => {
+      setIsInventoryOpen(event.open);
+    };
+    eventBus.on(GameEvents.INVENTORY_TOGGLE, handleInventoryToggle);
+    return () => {
+      eventBus.off(GameEvents.INVENTORY_TOGGLE, handleInventoryToggle);
+    };
+  }, []);
+
+  // Mostrar la consola del chat cuando GameLogic la abre (tecla de chat o "/")
+  useEffect(() => {
+    const eventBus = gameRefs.current.eventBus;
+    const handleChatToggle = (event: ChatToggleEvent) => setChat(event);
+    eventBus.on(GameEvents.CHAT_TOGGLE, handleChatToggle);
+    return () => {
+      eventBus.off(GameEvents.CHAT_TOGGLE, handleChatToggle);
+    };
+  }, []);
+
+  // Aviso de Ctrl+Z / Ctrl+Y con los bloques cambiados
+  useEffect(() => {
+    const eventBus = gameRefs.current.eventBus;
+    const handleEditHistoryApply = ({ action, blocks }: EditHistoryApplyEvent) => {
+      const verb = action === "undo" ? "Deshechos" : "Rehechos";
+      toast({
+        description:
+          blocks > 0
+            ? `${verb} ${blocks} ${blocks === 1 ? "bloque" : "bloques"}`
+            : `No hay nada que ${action === "undo" ? "deshacer" : "rehacer"}`,
+        duration: 2000,
+      });
+    };
+    eventBus.on(GameEvents.EDIT_HISTORY_APPLY, handleEditHistoryApply);
+    return () => {
+      eventBus.off(GameEvents.EDIT_HISTORY_APPLY, handleEditHistoryApply);
+    };
+  }, []);
+
+  // Pantalla de muerte entre PLAYER_DEATH y PLAYER_RESPAWN
+  useEffect(() => {
+    const eventBus = gameRefs.current.eventBus;
+    const handlePlayerDeath = () => setIsPlayerDead(true);
+    const handlePlayerRespawn = () => setIsPlayerDead(false);
+    eventBus.on(GameEvents.PLAYER_DEATH, handlePlayerDeath);
+    eventBus.on(GameEvents.PLAYER_RESPAWN, handlePlayerRespawn);
+    return () => {
+      eventBus.off(GameEvents.PLAYER_DEATH, handlePlayerDeath);
+      eventBus.off(GameEvents.PLAYER_RESPAWN, handlePlayerRespawn);
+    };
+  }, []);
+
+  const handleRespawn = () => {
+    gameRefs.current.gameLogic?.respawnPlayer();
+  };
+
+  const handleCloseInventory = () => {
+    gameRefs.current.gameLogic?.setInventoryOpen(false);
+  };
+
+  const handleSubmitChat = (line: string) => {
+    gameRefs.current.gameLogic?.submitChat(line);
+  };
+
+  const handleCompleteChat = (line: string) => {
+    return gameRefs.current.gameLogic?.completeChat(line) ?? [];
+  };
+
+  const handleCloseChat = () => {
+    gameRefs.current.gameLogic?.setChatOpen(false);
+  };
+
   const handleResumeGame = () => {
     if (gameRefs.current.gameLogic) {
       gameRefs.current.gameLogic.togglePause();
     }
   };
 
-  // Manejo de la tecla F3 para mostrar/ocultar el overlay de depuración
+  const handleExitToMenu = async () => {
+    // Esperar al guardado para que el menú muestre la miniatura y el tiempo de juego actualizados
+    await WorldSaveService.getInstance().saveWorld();
+    onExitToMenu();
+  };
+
+  // Manejo de la tecla F3 para mostrar/ocultar el overlay de depuración. El
+  // overlay cambia al soltarla, salvo que se haya usado una combinación F3 +
+  // tecla (InputController), que solo cambia su visualizador
   useEffect(() => {
-    const handleF3 = (e: KeyboardEvent) => {
+    const eventBus = gameRefs.current.eventBus;
+    let comboUsed = false;
+    const handleF3Down = (e: KeyboardEvent) => {
       if (e.code === 'F3' && !e.ctrlKey && !e.altKey && !e.metaKey) {
+        if (!e.repeat) comboUsed = false;
+        e.preventDefault(); // Bloquear buscador del navegador
+      }
+    };
+    const handleF3Up = (e: KeyboardEvent) => {
+      if (e.code === 'F3' && !comboUsed) {
         setShowDebugOverlay(prev => !prev);
-        e.preventDefault();
-        e.stopPropagation(); // Bloquear buscador del navegador
       }
     };
-    window.addEventListener('keydown', handleF3, { capture: true });
-    return () => window.removeEventListener('keydown', handleF3, { capture: true });
+    const handleDebugOptionChange = () => {
+      comboUsed = true;
+    };
+    window.addEventListener('keydown', handleF3Down, { capture: true });
+    window.addEventListener('keyup', handleF3Up, { capture: true });
+    eventBus.on(GameEvents.DEBUG_OPTION_CHANGE, handleDebugOptionChange);
+    return () => {
+      window.removeEventListener('keydown', handleF3Down, { capture: true });
+      window.removeEventListener('keyup', handleF3Up, { capture: true });
+      eventBus.off(GameEvents.DEBUG_OPTION_CHANGE, handleDebugOptionChange);
+    };
   }, []);
 
   // Escuchar cambios en el límite de FPS
@@ -410,7 +544,26 @@ const BlockifyGame: React.FC = () => {
         <GameDebugOverlay debugInfo={debugInfo} systemStats={systemStats} />
       )}
       <GameCrosshair crosshairBgColor={crosshairBgColor} />
-      <PauseMenu isPaused={isGamePaused} onResumeGame={handleResumeGame} />
+      <GameHotbar />
+      <GameActionBar />
+      <GameInventory isOpen={isInventoryOpen} onClose={handleCloseInventory} />
+      <GameChat
+        isOpen={chat.open}
+        initialText={chat.initialText}
+        onSubmit={handleSubmitChat}
+        onComplete={handleCompleteChat}
+        onClose={handleCloseChat}
+      />
+      <GameDeathScreen
+        isDead={isPlayerDead && !isGamePaused}
+        onRespawn={handleRespawn}
+        onExitToMenu={handleExitToMenu}
+      />
+      <PauseMenu
+        isPaused={isGamePaused}
+        onResumeGame={handleResumeGame}
+        onExitToMenu={handleExitToMenu}
+      />
     </div>
   );
 };
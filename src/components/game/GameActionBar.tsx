@@ -0,0 +1,40 @@
+import React, { memo, useEffect, useState } from 'react';
+import {
+  EventBus,
+  GameEvents,
+  type ActionBarMessageEvent,
+} from '@/lib/three-game/events/EventBus';
+
+const MESSAGE_DURATION_MS = 2500;
+
+// Avisos breves del juego sobre la barra rápida; cada uno sustituye al anterior
+const GameActionBar: React.FC = memo(() => {
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const eventBus = EventBus.getInstance();
+    let hideTimer: ReturnType<typeof setTimeout> | null = null;
+    const handleMessage = (event: ActionBarMessageEvent) => {
+      setMessage(event.message);
+      if (hideTimer) clearTimeout(hideTimer);
+      hideTimer = setTimeout(() => setMessage(null), MESSAGE_DURATION_MS);
+    };
+    eventBus.on(GameEvents.ACTION_BAR_MESSAGE, handleMessage);
+    return () => {
+      eventBus.off(GameEvents.ACTION_BAR_MESSAGE, handleMessage);
+      if (hideTimer) clearTimeout(hideTimer);
+    };
+  }, []);
+
+  if (!message) return null;
+
+  return (
+    <div className="fixed bottom-32 left-1/2 transform -translate-x-1/2 text-sm text-white [text-shadow:2px_2px_0_#3a3a3a] pointer-events-none select-none">
+      {message}
+    </div>
+  );
+});
+
+GameActionBar.displayName = 'GameActionBar';
+
+export { GameActionBar };
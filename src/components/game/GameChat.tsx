@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  EventBus,
+  GameEvents,
+  type ChatMessageEvent,
+} from '@/lib/three-game/events/EventBus';
+
+const MAX_SCROLLBACK = 100;
+const MAX_SENT_HISTORY = 50;
+// Con el chat cerrado los mensajes nuevos se ven un rato sobre la barra rápida
+const RECENT_MESSAGE_MS = 10000;
+const MAX_RECENT_MESSAGES = 10;
+
+interface ChatLine {
+  id: number;
+  text: string;
+  time: number;
+}
+
+interface GameChatProps {
+  isOpen: boolean;
+  initialText: string;
+  onSubmit: (line: string) => void;
+  onComplete: (line: string) => string[];
+  onClose: () => void;
+}
+
+// Consola del chat: mensajes, comandos con "/" y sus resultados
+const GameChat: React.FC<GameChatProps> = ({ isOpen, initialText, onSubmit, onComplete, onClose }) => {
+  const [lines, setLines] = useState<ChatLine[]>([]);
+  const [input, setInput] = useState('');
+  // Sugerencias de Tab para la línea escrita antes de pulsarlo
+  const [completion, setCompletion] = useState<{ candidates: string[]; index: number } | null>(null);
+  const [, setNow] = useState(() => Date.now());
+  const sentRef = useRef<string[]>([]);
+  const sentIndexRef = useRef<number | null>(null);
+  const nextIdRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const eventBus = EventBus.getInstance();
+    let hideTimer: ReturnType<typeof setTimeout> | null = null;
+    const handleMessage = (event: ChatMessageEvent) => {
+      setLines(prev =>
+        [...prev, { id: nextIdRef.current++, text: event.text, time: Date.now() }].slice(-MAX_SCROLLBACK)
+      );
+      // Volver a pintar cuando caduquen para ocultarlos con el chat cerrado
+      if (hideTimer) clearTimeout(hideTimer);
+      hideTimer = setTimeout(() => setNow(Date.now()), RECENT_MESSAGE_MS);
+    };
+    eventBus.on(GameEvents.CHAT_MESSAGE, handleMessage);
+    return () => {
+      eventBus.off(GameEvents.CHAT_MESSAGE, handleMessage);
+      if (hideTimer) clearTimeout(hideTimer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setInput(initialText);
+    setCompletion(null);
+    sentIndexRef.current = null;
+    inputRef.current?.focus();
+  }, [isOpen, initialText]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [lines, isOpen]);
+
+  const visibleLines = isOpen
+    ? lines
+    : lines.filter(line => Date.now() - line.time < RECENT_MESSAGE_MS).slice(-MAX_RECENT_MESSAGES);
+  if (!isOpen && visibleLines.length === 0) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      if (input.trim()) {
+        sentRef.current = [...sentRef.current, input].slice(-MAX_SENT_HISTORY);
+        onSubmit(input);
+      }
+      onClose();
+    } else if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      // Cada Tab pasa a la siguiente sugerencia para la misma línea
+      const next = completion
+        ? { ...completion, index: (completion.index + 1) % completion.candidates.length }
+        : { candidates: onComplete(input), index: 0 };
+      if (next.candidates.length === 0) return;
+      setCompletion(next);
+      setInput(next.candidates[next.index]);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const sent = sentRef.current;
+      if (sent.length === 0) return;
+      const current = sentIndexRef.current ?? sent.length;
+      const index = Math.max(0, Math.min(sent.length, current + (e.key === 'ArrowUp' ? -1 : 1)));
+      sentIndexRef.current = index;
+      setInput(sent[index] ?? '');
+      setCompletion(null);
+    }
+  };
+
+  return (
+    <div
+      className={isOpen ? 'fixed inset-0 z-40' : 'pointer-events-none'}
+      onClick={onClose}
+    >
+      <div
+        className="fixed left-2 bottom-40 w-[40rem] max-w-[calc(100vw-1rem)] text-sm text-white [text-shadow:2px_2px_0_#3a3a3a]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div ref={scrollRef} className={isOpen ? 'max-h-72 overflow-y-auto bg-black/50' : 'bg-black/30'}>
+          {visibleLines.map(line => (
+            <div key={line.id} className="px-2 py-0.5 whitespace-pre-wrap break-words">
+              {line.text}
+            </div>
+          ))}
+        </div>
+        {isOpen && (
+          <>
+            {completion && completion.candidates.length > 1 && (
+              <div className="mt-1 px-2 py-0.5 bg-black/70 text-neutral-300">
+                {completion.candidates.map(candidate => candidate.split(' ').pop()).join('  ')}
+              </div>
+            )}
+            <input
+              ref={inputRef}
+              className="mt-1 w-full px-2 py-1 bg-black/70 text-white outline-none"
+              value={input}
+              maxLength={256}
+              spellCheck={false}
+              onChange={e => {
+                setInput(e.target.value);
+                setCompletion(null);
+              }}
+              onKeyDown={handleKeyDown}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameChat;
@@ -0,0 +1,24 @@
+import React from 'react';
+import '../PauseMenu.css';
+
+interface GameDeathScreenProps {
+    isDead: boolean;
+    onRespawn: () => void;
+    onExitToMenu: () => void;
+}
+
+const GameDeathScreen: React.FC<GameDeathScreenProps> = ({ isDead, onRespawn, onExitToMenu }) => {
+    if (!isDead) return null;
+
+    return (
+        <div className="pause-menu-overlay death-screen-overlay">
+            <div className="pause-menu-content">
+                <h1>¡Has muerto!</h1>
+                <button onClick={onRespawn}>Reaparecer</button>
+                <button onClick={onExitToMenu}>Guardar y Salir al Menú</button>
+            </div>
+        </div>
+    );
+};
+
+export default GameDeathScreen;
@@ -27,6 +27,9 @@ export const GameDebugOverlay: React.FC<GameDebugOverlayProps> = ({
       <div>{debugInfo.isRunning}</div>
       <div>{debugInfo.isBoosting}</div>
       <div>{debugInfo.lookDirection}</div>
+      <div>{debugInfo.biome}</div>
+      {debugInfo.light && <div>{debugInfo.light}</div>}
+      {debugInfo.blockInfo && <div>{debugInfo.blockInfo}</div>}
       {systemStats.memory && (
         <div>
           Memoria: {Math.round(systemStats.memory.usedMB)}MB /{' '}
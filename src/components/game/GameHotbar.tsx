@@ -0,0 +1,64 @@
+import React, { memo, useEffect, useState } from 'react';
+import {
+  EventBus,
+  GameEvents,
+  type GameModeChangeEvent,
+  type HotbarChangeEvent,
+} from '@/lib/three-game/events/EventBus';
+import { HotbarService } from '@/lib/three-game/services/HotbarService';
+import { GAME_MODE_RULES, GameStateService } from '@/lib/three-game/services/GameStateService';
+import { GameItemSlot, getItemName } from './GameItemSlot';
+import { GameVitals } from './GameVitals';
+
+// Barra rápida de 9 casillas bajo el punto de mira
+const GameHotbar: React.FC = memo(() => {
+  const [hotbar, setHotbar] = useState<HotbarChangeEvent>(() => {
+    const service = HotbarService.getInstance();
+    return { slots: service.getSlots(), selectedIndex: service.getSelectedIndex() };
+  });
+  const [gameMode, setGameMode] = useState(() => GameStateService.getInstance().getGameMode());
+
+  useEffect(() => {
+    const eventBus = EventBus.getInstance();
+    const handleHotbarChange = (event: HotbarChangeEvent) => setHotbar(event);
+    const handleGameModeChange = (event: GameModeChangeEvent) => setGameMode(event.gameMode);
+    eventBus.on(GameEvents.HOTBAR_CHANGE, handleHotbarChange);
+    eventBus.on(GameEvents.GAME_MODE_CHANGE, handleGameModeChange);
+    return () => {
+      eventBus.off(GameEvents.HOTBAR_CHANGE, handleHotbarChange);
+      eventBus.off(GameEvents.GAME_MODE_CHANGE, handleGameModeChange);
+    };
+  }, []);
+
+  const rules = GAME_MODE_RULES[gameMode];
+  // En espectador no se usan objetos
+  if (!rules.canInteract) return null;
+
+  const selectedStack = hotbar.slots[hotbar.selectedIndex];
+  // Con bloques infinitos no se muestran cantidades
+  const showCount = rules.consumesItems;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none select-none">
+      <div className="h-5 text-sm text-white [text-shadow:2px_2px_0_#3a3a3a]">
+        {selectedStack ? getItemName(selectedStack.itemId) : ''}
+      </div>
+      {rules.takesDamage && <GameVitals />}
+      <div className="flex bg-black/50 border-2 border-neutral-800">
+        {hotbar.slots.map((stack, index) => (
+          <GameItemSlot
+            key={index}
+            stack={stack}
+            selected={index === hotbar.selectedIndex}
+            showCount={showCount}
+            label={String(index + 1)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+GameHotbar.displayName = 'GameHotbar';
+
+export { GameHotbar };
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import '../PauseMenu.css';
+import { EventBus, GameEvents, type InventoryUpdateEvent } from '@/lib/three-game/events/EventBus';
+import {
+    GameStateService,
+    HOTBAR_SLOT_COUNT,
+    type InventorySlot,
+} from '@/lib/three-game/services/GameStateService';
+import { HotbarService } from '@/lib/three-game/services/HotbarService';
+import { BlockRegistry } from '@/lib/three-game/BlockRegistry';
+import { GameItemSlot } from './GameItemSlot';
+
+interface GameInventoryProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Cuadrícula del inventario: 27 casillas + la barra rápida debajo
+const GameInventory: React.FC<GameInventoryProps> = ({ isOpen, onClose }) => {
+    const gameState = GameStateService.getInstance();
+    const [inventory, setInventory] = useState<InventorySlot[]>(() => gameState.getInventory());
+    // Casilla cuya pila se ha cogido con el primer clic
+    const [heldIndex, setHeldIndex] = useState<number | null>(null);
+
+    useEffect(() => {
+        const eventBus = EventBus.getInstance();
+        const handleInventoryUpdate = (event: InventoryUpdateEvent) => setInventory(event.inventory);
+        eventBus.on(GameEvents.INVENTORY_UPDATE, handleInventoryUpdate);
+        return () => eventBus.off(GameEvents.INVENTORY_UPDATE, handleInventoryUpdate);
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            setInventory(gameState.getInventory());
+        } else {
+            setHeldIndex(null);
+        }
+    }, [isOpen, gameState]);
+
+    if (!isOpen) return null;
+
+    // Sin consumo (creativo) los bloques se cogen de la paleta y no se cuentan
+    const infiniteItems = !gameState.getGameModeRules().consumesItems;
+
+    const handleSlotClick = (index: number) => {
+        if (heldIndex === null) {
+            if (inventory[index]) setHeldIndex(index);
+            return;
+        }
+        gameState.moveInventorySlot(heldIndex, index);
+        setHeldIndex(null);
+    };
+
+    const renderSlot = (index: number) => (
+        <GameItemSlot
+            key={index}
+            stack={inventory[index]}
+            selected={index === heldIndex}
+            showCount={!infiniteItems}
+            onClick={() => handleSlotClick(index)}
+        />
+    );
+
+    const mainSlots = inventory.map((_, index) => index).slice(HOTBAR_SLOT_COUNT);
+    const hotbarSlots = inventory.map((_, index) => index).slice(0, HOTBAR_SLOT_COUNT);
+
+    return (
+        <div className="pause-menu-overlay" onClick={onClose}>
+            <div className="pause-menu-content" onClick={e => e.stopPropagation()}>
+                <h1>Inventario</h1>
+                {infiniteItems && (
+                    <div className="grid grid-cols-9 bg-black/60 border-2 border-neutral-800">
+                        {BlockRegistry.getInstance()
+                            .getRenderableDefinitions()
+                            .filter(definition => !definition.liquid)
+                            .map(definition => (
+                                <GameItemSlot
+                                    key={definition.name}
+                                    stack={{ itemId: definition.name, count: 1 }}
+                                    showCount={false}
+                                    onClick={() => HotbarService.getInstance().pickBlock(definition.name)}
+                                />
+                            ))}
+                    </div>
+                )}
+                <div className="grid grid-cols-9 bg-black/60 border-2 border-neutral-800">
+                    {mainSlots.map(renderSlot)}
+                </div>
+                <div className="grid grid-cols-9 bg-black/60 border-2 border-neutral-800">
+                    {hotbarSlots.map(renderSlot)}
+                </div>
+                <button onClick={onClose}>Cerrar</button>
+            </div>
+        </div>
+    );
+};
+
+export default GameInventory;
@@ -0,0 +1,54 @@
+import React, { memo } from 'react';
+import { BlockRegistry } from '@/lib/three-game/BlockRegistry';
+import { resolveFaceTextures } from '@/lib/three-game/BlockTypes';
+import type { InventorySlot } from '@/lib/three-game/services/GameStateService';
+
+// Textura lateral del bloque, usada como icono de la casilla
+export const getItemIcon = (itemId: string): string | null => {
+  const { textures } = BlockRegistry.getInstance().getDefinition(itemId);
+  return textures ? resolveFaceTextures(textures)?.[0] ?? null : null;
+};
+
+export const getItemName = (itemId: string): string =>
+  BlockRegistry.getInstance().getDefinition(itemId).displayName;
+
+interface GameItemSlotProps {
+  stack: InventorySlot;
+  selected?: boolean;
+  showCount?: boolean;
+  label?: string;
+  onClick?: () => void;
+}
+
+// Casilla de objeto compartida por la barra rápida y el inventario
+const GameItemSlot: React.FC<GameItemSlotProps> = memo(({ stack, selected = false, showCount = true, label, onClick }) => {
+  const icon = stack ? getItemIcon(stack.itemId) : null;
+  return (
+    <div
+      className={`relative w-12 h-12 flex items-center justify-center border-2 ${
+        selected ? 'border-white' : 'border-neutral-500/60'
+      } ${onClick ? 'cursor-pointer hover:bg-white/10' : ''}`}
+      title={stack ? getItemName(stack.itemId) : undefined}
+      onClick={onClick}
+    >
+      {icon && (
+        <img
+          src={icon}
+          alt={stack?.itemId ?? ''}
+          className="w-8 h-8 [image-rendering:pixelated]"
+          draggable={false}
+        />
+      )}
+      {label && <span className="absolute top-0 left-1 text-[10px] text-white/70">{label}</span>}
+      {stack && showCount && stack.count > 1 && (
+        <span className="absolute bottom-0 right-1 text-xs text-white [text-shadow:1px_1px_0_#3a3a3a]">
+          {stack.count}
+        </span>
+      )}
+    </div>
+  );
+});
+
+GameItemSlot.displayName = 'GameItemSlot';
+
+export { GameItemSlot };
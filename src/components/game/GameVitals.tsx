@@ -0,0 +1,69 @@
+import React, { memo, useEffect, useState } from 'react';
+import {
+  EventBus,
+  GameEvents,
+  type AirUpdateEvent,
+  type HealthUpdateEvent,
+} from '@/lib/three-game/events/EventBus';
+import { GameStateService } from '@/lib/three-game/services/GameStateService';
+import { AIR_BUBBLES } from '@/lib/three-game/services/PlayerHealthService';
+
+const HEARTS = 10;
+
+// Corazones y burbujas de aire sobre la barra rápida (solo en los modos con daño)
+const GameVitals: React.FC = memo(() => {
+  const [health, setHealth] = useState<HealthUpdateEvent>(() => {
+    const { playerHealth, playerMaxHealth } = GameStateService.getInstance().getState();
+    return { health: playerHealth, maxHealth: playerMaxHealth };
+  });
+  const [air, setAir] = useState<AirUpdateEvent | null>(null);
+
+  useEffect(() => {
+    const eventBus = EventBus.getInstance();
+    const handleHealthUpdate = (event: HealthUpdateEvent) => setHealth(event);
+    const handleAirUpdate = (event: AirUpdateEvent) => setAir(event);
+    eventBus.on(GameEvents.HEALTH_UPDATE, handleHealthUpdate);
+    eventBus.on(GameEvents.AIR_UPDATE, handleAirUpdate);
+    return () => {
+      eventBus.off(GameEvents.HEALTH_UPDATE, handleHealthUpdate);
+      eventBus.off(GameEvents.AIR_UPDATE, handleAirUpdate);
+    };
+  }, []);
+
+  // Cada corazón son dos mitades de vida
+  const halves = Math.ceil((health.health / health.maxHealth) * HEARTS * 2);
+  const bubbles = air ? Math.ceil((air.air / air.maxAir) * AIR_BUBBLES) : AIR_BUBBLES;
+
+  return (
+    <div className="w-full flex justify-between items-end text-base leading-none [text-shadow:1px_1px_0_#3a3a3a]">
+      <div className="flex">
+        {Array.from({ length: HEARTS }, (_, index) => {
+          const fill = Math.min(2, Math.max(0, halves - index * 2));
+          return (
+            <span key={index} className="relative w-4 text-neutral-800">
+              ♥
+              {fill > 0 && (
+                <span
+                  className={`absolute inset-0 overflow-hidden text-red-600 ${fill === 1 ? 'w-1/2' : ''}`}
+                >
+                  ♥
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {bubbles < AIR_BUBBLES && (
+        <div className="flex">
+          {Array.from({ length: bubbles }, (_, index) => (
+            <span key={index} className="w-4 text-sky-300">●</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+GameVitals.displayName = 'GameVitals';
+
+export { GameVitals };
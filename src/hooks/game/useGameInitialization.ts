@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import * as THREE from 'three';
-import type { GameRefs } from '@/lib/three-game/types';
+import type { GameRefs, ChunkDiff } from '@/lib/three-game/types';
 import { World } from '@/lib/three-game/World';
 import { InputController } from '@/lib/three-game/InputController';
 import { RendererManager } from '@/lib/three-game/RendererManager';
@@ -9,9 +9,14 @@ import { ThreeSetup } from '@/lib/three-game/ThreeSetup';
 import { EventBus } from '@/lib/three-game/events/EventBus';
 import type { DebugInfoState } from '@/lib/three-game/types';
 import { gameLogger } from '@/lib/three-game/services/LoggingService';
+import { WorldSaveService, resolveWorldSeed } from '@/lib/three-game/services/WorldSaveService';
+import { GameStateService, type GameMode, type InventorySlot } from '@/lib/three-game/services/GameStateService';
+import { HotbarService } from '@/lib/three-game/services/HotbarService';
+import { DEFAULT_WORLD_HEIGHT } from '@/lib/three-game/utils';
 
 interface UseGameInitializationProps {
   gameRefs: React.MutableRefObject<GameRefs>;
+  worldId: string | null;
   mountRef: React.RefObject<HTMLDivElement>;
   setErrorInfo: (error: any) => void;
   setDebugInfo: (updateFn: (prevState: DebugInfoState) => DebugInfoState) => void;
@@ -21,13 +26,15 @@ interface UseGameInitializationProps {
 
 export const useGameInitialization = ({
   gameRefs,
+  worldId,
   mountRef,
   setErrorInfo,
   setDebugInfo,
   setIsCameraSubmerged,
   gameLoop
 }: UseGameInitializationProps) => {
-  const initGame = useCallback(() => {
+  // `signal` se aborta si el componente se desmonta mientras se carga la partida
+  const initGame = useCallback(async (signal?: AbortSignal) => {
     const startTime = performance.now();
     gameLogger.logGameEvent('Iniciando inicialización del juego');
 
@@ -41,9 +48,26 @@ export const useGameInitialization = ({
 
     setErrorInfo(null);
 
-    // Generar seed del mundo
-    refs.worldSeed = Math.floor(Math.random() * Number.MAX_SAFE_INTEGER).toString();
-    gameLogger.logGameState('World Seed generado', { seed: refs.worldSeed });
+    // Cargar la partida guardada del mundo seleccionado
+    const savedWorld = await loadWorldSave(worldId);
+    // La limpieza ya ha pasado: crear el mundo ahora lo dejaría sin liberar
+    if (signal?.aborted) {
+      gameLogger.logGameEvent('Inicialización cancelada: el juego se desmontó durante la carga');
+      return;
+    }
+    if (!savedWorld) {
+      setErrorInfo({
+        title: "World Load Error",
+        message: "No se pudo cargar el mundo seleccionado.",
+      });
+      return;
+    }
+    refs.worldId = worldId;
+    refs.worldSeed = savedWorld.seed;
+    gameLogger.logGameState('World Seed cargado', { worldId, seed: refs.worldSeed });
+    // El modo y el inventario deben fijarse antes de crear GameLogic: el inventario inicial depende de ellos
+    HotbarService.getInstance().loadSurvivalInventory(savedWorld.inventory);
+    GameStateService.getInstance().setGameMode(savedWorld.gameMode);
 
     try {
       // Inicializar Three.js
@@ -69,11 +93,16 @@ export const useGameInitialization = ({
 
       // Inicializar mundo
       gameLogger.logGameEvent('Iniciando generación del mundo');
-      if (!initializeWorld(refs, setErrorInfo)) {
+      if (!initializeWorld(refs, setErrorInfo, savedWorld.chunkDiffs, savedWorld.worldHeight)) {
         const error = new Error("World initialization failed");
         gameLogger.logError(error, 'World Generation');
         return;
       }
+      if (worldId && refs.world) {
+        WorldSaveService.getInstance().attachWorld(refs.world, worldId, () =>
+          captureWorldThumbnail(refs)
+        );
+      }
 
       // Configurar controles y lógica del juego
       gameLogger.logGameEvent('Configurando controles y lógica del juego');
@@ -101,7 +130,7 @@ export const useGameInitialization = ({
         message: `Error during initialization: ${error instanceof Error ? error.message : String(error)}`,
       });
     }
-  }, [gameRefs, mountRef, setErrorInfo, setDebugInfo, setIsCameraSubmerged, gameLoop]);
+  }, [gameRefs, worldId, mountRef, setErrorInfo, setDebugInfo, setIsCameraSubmerged, gameLoop]);
 
   return { initGame };
 };
@@ -155,7 +184,68 @@ const setupRendererAndSky = (refs: GameRefs) => {
   }
 };
 
-const initializeWorld = (refs: GameRefs, setErrorInfo: (error: any) => void): boolean => {
+interface WorldSaveData {
+  seed: string;
+  gameMode: GameMode;
+  worldHeight: number;
+  inventory: InventorySlot[];
+  chunkDiffs: Map<string, ChunkDiff>;
+}
+
+// Sin worldId se juega un mundo temporal que no se guarda
+const loadWorldSave = async (worldId: string | null): Promise<WorldSaveData | null> => {
+  if (!worldId) {
+    return {
+      seed: resolveWorldSeed(),
+      gameMode: 'creative',
+      worldHeight: DEFAULT_WORLD_HEIGHT,
+      inventory: [],
+      chunkDiffs: new Map(),
+    };
+  }
+
+  try {
+    const saved = await WorldSaveService.getInstance().loadWorld(worldId);
+    if (!saved) {
+      gameLogger.logError(new Error(`Mundo ${worldId} no encontrado`), 'World Save Load');
+      return null;
+    }
+    return {
+      seed: saved.meta.seed,
+      gameMode: saved.meta.gameMode,
+      worldHeight: saved.meta.worldHeight,
+      inventory: saved.meta.inventory,
+      chunkDiffs: saved.chunkDiffs,
+    };
+  } catch (error) {
+    gameLogger.logError(error instanceof Error ? error : new Error(String(error)), 'World Save Load');
+    return null;
+  }
+};
+
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+
+const captureWorldThumbnail = (refs: GameRefs): string | null => {
+  if (!refs.renderer || !refs.scene || !refs.camera) return null;
+
+  // Renderizar justo antes de copiar: el buffer del canvas no se conserva entre frames
+  refs.renderer.render(refs.scene, refs.camera);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(refs.renderer.domElement, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+const initializeWorld = (
+  refs: GameRefs,
+  setErrorInfo: (error: any) => void,
+  chunkDiffs: Map<string, ChunkDiff>,
+  worldHeight: number
+): boolean => {
   if (refs.worldSeed === null) {
     const error = new Error("World Seed missing");
     gameLogger.logError(error, 'World Initialization');
@@ -165,8 +255,8 @@ const initializeWorld = (refs: GameRefs, setErrorInfo: (error: any) => void): bo
     });
     return false;
   }
-  refs.world = new World(refs, refs.worldSeed);
-  gameLogger.logGameState('Mundo inicializado', { seed: refs.worldSeed });
+  refs.world = new World(refs, refs.worldSeed, chunkDiffs, worldHeight);
+  gameLogger.logGameState('Mundo inicializado', { seed: refs.worldSeed, worldHeight });
   return true;
 };
 
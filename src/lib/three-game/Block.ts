@@ -1,76 +1,68 @@
 import * as THREE from "three";
-import type { TextureLoader } from "three";
-import type { BlockDefinition } from "./types";
-import { getTextureHint } from "./utils";
+import { resolveFaceTextures, type BlockTypeDefinition } from "./BlockTypes";
 
 export class Block {
   public mesh: THREE.Mesh;
   public multiTexture: boolean;
-  private nameKey: string; // Store the original key like "blueberryIMac" for hints
+  public readonly definition: BlockTypeDefinition;
 
   constructor(
-    nameKey: string,
-    blockDefinition: BlockDefinition,
-    textureLoader: THREE.TextureLoader,
-    multiTexture: boolean = false
+    definition: BlockTypeDefinition,
+    textureLoader: THREE.TextureLoader
   ) {
-    this.nameKey = nameKey;
+    this.definition = definition;
+    const nameKey = definition.name;
     const blockProtoGeo = new THREE.BoxGeometry(1, 1, 1);
     let blockMat: THREE.Material | THREE.Material[];
     const blockColor = 0xffffff;
 
-    this.multiTexture = multiTexture;
+    const faceTextures = definition.textures
+      ? resolveFaceTextures(definition.textures)
+      : null;
+    // Solo se necesita un material por cara si las caras no comparten textura
+    this.multiTexture =
+      faceTextures !== null &&
+      faceTextures.some((path) => path !== faceTextures[0]);
 
     let materialOptions: THREE.MeshLambertMaterialParameters = {
       color: blockColor,
     };
 
-    if (nameKey === "waterBlock") {
+    if (definition.opacity < 1) {
       materialOptions.transparent = true;
-      materialOptions.opacity = 0.7;
+      materialOptions.opacity = definition.opacity;
       materialOptions.depthWrite = false;
       materialOptions.alphaTest = 0.05; // Descartar píxeles demasiado transparentes
       materialOptions.side = THREE.DoubleSide; // Renderizar ambos lados
     }
+    if (definition.shape === "cross") {
+      // Los planos de las plantas se ven desde ambos lados
+      materialOptions.alphaTest = 0.5;
+      materialOptions.side = THREE.DoubleSide;
+    }
 
-    if (this.multiTexture && Array.isArray(blockDefinition)) {
-      blockMat = [];
-      const textureHint = getTextureHint(this.nameKey);
-      for (const path of blockDefinition) {
-        const texture = textureLoader.load(path);
-        texture.magFilter = THREE.NearestFilter;
-        texture.minFilter = THREE.NearestFilter;
-
-        const faceMaterialOptions = { ...materialOptions };
-        faceMaterialOptions.map = texture;
-        const sprite = new THREE.MeshLambertMaterial(faceMaterialOptions);
-
-        sprite.map!.wrapS = THREE.RepeatWrapping;
-        sprite.map!.wrapT = THREE.RepeatWrapping;
-        sprite.map!.repeat.set(1, 1);
-        (sprite as any)["data-ai-hint"] = textureHint;
-        blockMat.push(sprite);
-      }
-    } else if (
-      !this.multiTexture &&
-      typeof blockDefinition === "object" &&
-      "side" in blockDefinition
-    ) {
-      const texture = textureLoader.load(blockDefinition.side);
+    const createFaceMaterial = (path: string): THREE.MeshLambertMaterial => {
+      const texture = textureLoader.load(path);
       texture.magFilter = THREE.NearestFilter;
       texture.minFilter = THREE.NearestFilter;
 
-      const singleMaterialOptions = { ...materialOptions };
-      singleMaterialOptions.map = texture;
-      const sprite = new THREE.MeshLambertMaterial(singleMaterialOptions);
+      const faceMaterialOptions = { ...materialOptions };
+      faceMaterialOptions.map = texture;
+      const sprite = new THREE.MeshLambertMaterial(faceMaterialOptions);
 
       sprite.map!.wrapS = THREE.RepeatWrapping;
       sprite.map!.wrapT = THREE.RepeatWrapping;
       sprite.map!.repeat.set(1, 1);
-      (sprite as any)["data-ai-hint"] = getTextureHint(this.nameKey);
-      blockMat = sprite;
+      (sprite as any)["data-ai-hint"] = definition.hint;
+      return sprite;
+    };
+
+    if (faceTextures && this.multiTexture) {
+      blockMat = faceTextures.map(createFaceMaterial);
+    } else if (faceTextures) {
+      blockMat = createFaceMaterial(faceTextures[0]);
     } else {
-      console.warn("Invalid block definition for:", nameKey, blockDefinition);
+      console.warn("Invalid block definition for:", nameKey, definition);
       blockMat = new THREE.MeshLambertMaterial({ color: 0xcccccc });
     }
 
@@ -80,7 +72,7 @@ export class Block {
     } else {
       this.mesh.material.needsUpdate = true;
     }
-    this.mesh.castShadow = nameKey !== "waterBlock";
+    this.mesh.castShadow = !definition.transparent;
     this.mesh.receiveShadow = true;
     this.mesh.name = `Block_${nameKey}`;
   }
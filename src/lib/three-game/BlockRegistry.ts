@@ -0,0 +1,216 @@
+import {
+  BLOCK_TYPES,
+  resolveFaceTextures,
+  type BlockSoundSet,
+  type BlockTint,
+  type BlockTypeDefinition,
+} from "./BlockTypes";
+
+export const AIR_BLOCK_ID = 0;
+
+/** Lo que los workers de mallado necesitan saber de cada id */
+export interface BlockPaletteEntry {
+  name: string;
+  transparent: boolean;
+  liquid: boolean;
+  cross: boolean; // se malla como dos planos cruzados (plantas)
+  tint: BlockTint; // caras que llevan el color de hierba del bioma
+  flowLevel: number; // 0 = fuente o no líquido; 1-7 = líquido que fluye
+  opacity: number; // < 1 = va en la malla translúcida del chunk
+  // Capa del atlas (getTextureLayers) de cada cara en el orden de THREE.BoxGeometry
+  // (+X, -X, +Y, -Y, +Z, -Z); null = no se renderiza
+  textures: number[] | null;
+}
+
+/**
+ * Registro global de tipos de bloque (nombre ↔ id numérico ↔ propiedades).
+ * Los chunks guardan ids en un Uint16Array; los nombres solo se usan en la
+ * frontera de IWorldService y en los guardados, por lo que los ids pueden
+ * cambiar entre versiones sin romper los mundos guardados.
+ *
+ * Los subsistemas deben consultar propiedades (isSolid, isLiquid...) en lugar
+ * de comparar nombres de bloque.
+ */
+export class BlockRegistry {
+  private static instance: BlockRegistry;
+  private definitions: BlockTypeDefinition[] = [];
+  private ids: Map<string, number> = new Map();
+  private warnedUnknownNames: Set<string> = new Set();
+  // Fuente → nombres de sus bloques que fluyen, indexados por nivel
+  private flowingVariants: Map<string, string[]> = new Map();
+
+  private constructor() {
+    BLOCK_TYPES.forEach((definition) => this.register(definition));
+  }
+
+  public static getInstance(): BlockRegistry {
+    if (!BlockRegistry.instance) {
+      BlockRegistry.instance = new BlockRegistry();
+    }
+    return BlockRegistry.instance;
+  }
+
+  public register(definition: BlockTypeDefinition): number {
+    if (definition.id < 0 || definition.id > 0xffff) {
+      throw new Error(
+        `BlockRegistry: id ${definition.id} fuera de rango para "${definition.name}"`
+      );
+    }
+    const existing = this.definitions[definition.id];
+    if (existing && existing.name !== definition.name) {
+      throw new Error(
+        `BlockRegistry: el id ${definition.id} ya pertenece a "${existing.name}"`
+      );
+    }
+    this.definitions[definition.id] = definition;
+    this.ids.set(definition.name, definition.id);
+    if (definition.flow) {
+      const variants = this.flowingVariants.get(definition.flow.source) ?? [];
+      variants[definition.flow.level] = definition.name;
+      this.flowingVariants.set(definition.flow.source, variants);
+    }
+    return definition.id;
+  }
+
+  /**
+   * Devuelve el id de un bloque. Los nombres desconocidos (p. ej. de un
+   * guardado de una versión con más bloques) se tratan como aire.
+   */
+  public getId(name: string): number {
+    const id = this.ids.get(name);
+    if (id !== undefined) return id;
+
+    if (!this.warnedUnknownNames.has(name)) {
+      this.warnedUnknownNames.add(name);
+      console.warn(`BlockRegistry: bloque desconocido "${name}", se usará aire`);
+    }
+    return AIR_BLOCK_ID;
+  }
+
+  public getName(id: number): string {
+    return this.definitions[id]?.name ?? "air";
+  }
+
+  public has(name: string): boolean {
+    return this.ids.has(name);
+  }
+
+  public getDefinition(name: string): BlockTypeDefinition {
+    return this.getDefinitionById(this.getId(name));
+  }
+
+  public getDefinitionById(id: number): BlockTypeDefinition {
+    return this.definitions[id] ?? this.definitions[AIR_BLOCK_ID];
+  }
+
+  /**
+   * Bloques con texturas, en orden de id (todos menos el aire).
+   */
+  public getRenderableDefinitions(): BlockTypeDefinition[] {
+    return this.definitions.filter(
+      (definition) => definition && definition.textures !== null
+    );
+  }
+
+  /**
+   * Rutas de todas las texturas de bloque sin repetir, en orden de id: cada
+   * una es una capa del atlas de texturas de los chunks.
+   */
+  public getTextureLayers(): string[] {
+    const layers = new Set<string>();
+    this.getRenderableDefinitions().forEach((definition) => {
+      resolveFaceTextures(definition.textures!)?.forEach((path) => layers.add(path));
+    });
+    return Array.from(layers);
+  }
+
+  /**
+   * Tabla id → propiedades para enviar a los workers junto con los datos del chunk.
+   */
+  public getPalette(): BlockPaletteEntry[] {
+    const layers = this.getTextureLayers();
+    return Array.from(this.definitions, (definition = this.definitions[AIR_BLOCK_ID]) => {
+      const faceTextures = definition.textures ? resolveFaceTextures(definition.textures) : null;
+      return {
+        name: definition.name,
+        transparent: definition.transparent,
+        liquid: definition.liquid,
+        cross: definition.shape === "cross",
+        tint: definition.biomeTint,
+        flowLevel: definition.flow?.level ?? 0,
+        opacity: definition.opacity,
+        textures: faceTextures ? faceTextures.map((path) => layers.indexOf(path)) : null,
+      };
+    });
+  }
+
+  public isSolid(name: string | null): boolean {
+    return name !== null && this.getDefinition(name).solid;
+  }
+
+  public isTransparent(name: string | null): boolean {
+    return name === null || this.getDefinition(name).transparent;
+  }
+
+  public isLiquid(name: string | null): boolean {
+    return name !== null && this.getDefinition(name).liquid;
+  }
+
+  /** Líquidos en los que se nada (agua), no los que queman (lava) */
+  public isSwimmable(name: string | null): boolean {
+    return name !== null && this.getDefinition(name).swimmable;
+  }
+
+  public getContactDamage(name: string | null): number {
+    return name === null ? 0 : this.getDefinition(name).contactDamage;
+  }
+
+  /** Aire y líquidos: se puede colocar un bloque en su lugar sin romper nada */
+  public isReplaceable(name: string | null): boolean {
+    if (name === null) return false;
+    const definition = this.getDefinition(name);
+    return definition.id === AIR_BLOCK_ID || definition.liquid;
+  }
+
+  /** Nivel de flujo de un líquido: 0 para las fuentes (y lo que no es líquido) */
+  public getFlowLevel(name: string | null): number {
+    return name === null ? 0 : this.getDefinition(name).flow?.level ?? 0;
+  }
+
+  /** Bloque fuente de un líquido (él mismo si es una fuente); null si no es líquido */
+  public getLiquidSource(name: string | null): string | null {
+    if (name === null) return null;
+    const definition = this.getDefinition(name);
+    if (!definition.liquid) return null;
+    return definition.flow?.source ?? definition.name;
+  }
+
+  /**
+   * Bloque de un líquido con el nivel de flujo indicado (0 = la propia fuente).
+   * Devuelve null si el líquido no tiene ese nivel.
+   */
+  public getFlowingVariant(source: string, level: number): string | null {
+    if (level === 0) return source;
+    return this.flowingVariants.get(source)?.[level] ?? null;
+  }
+
+  public isBreakable(name: string | null): boolean {
+    return name !== null && this.getDefinition(name).hardness >= 0;
+  }
+
+  public getHardness(name: string): number {
+    return this.getDefinition(name).hardness;
+  }
+
+  public getLightEmission(name: string): number {
+    return this.getDefinition(name).lightEmission;
+  }
+
+  public getDrop(name: string): string | null {
+    return this.getDefinition(name).drop;
+  }
+
+  public getSoundSet(name: string): BlockSoundSet | null {
+    return this.getDefinition(name).soundSet;
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Tabla de tipos de bloque. Es la única fuente de verdad sobre los bloques:
+ * añadir un bloque nuevo consiste en añadir una entrada aquí.
+ *
+ * Los ids son estables y se usan en los Uint16Array de los chunks; no deben
+ * reutilizarse ni reordenarse (los guardados usan nombres, pero los workers y
+ * la memoria en tiempo de ejecución usan ids).
+ */
+
+/**
+ * Texturas por cara. Cada cara usa su propia textura si está definida; si no,
+ * las caras laterales recurren a `side` y cualquier cara recurre a `all`.
+ */
+export interface BlockFaceTextures {
+  all?: string;
+  side?: string;
+  top?: string;
+  bottom?: string;
+  right?: string; // +X
+  left?: string; // -X
+  front?: string; // +Z
+  back?: string; // -Z
+}
+
+/** Claves de SOUND_PATHS que suenan al romper o colocar el bloque */
+export interface BlockSoundSet {
+  break: string;
+  place: string;
+}
+
+/**
+ * Forma con la que se malla el bloque: un cubo con seis caras o, para las
+ * plantas, dos planos cruzados en diagonal.
+ */
+export type BlockShape = "cube" | "cross";
+
+/**
+ * Caras que se tiñen con el color de hierba del bioma: ninguna, solo la
+ * superior (bloque de hierba) o todas (hojas y hierba alta).
+ */
+export type BlockTint = "none" | "top" | "all";
+
+/**
+ * Líquido que fluye: nombre del bloque fuente y nivel de flujo, de 1 (junto a
+ * la fuente) a MAX_FLOW_LEVEL (el extremo del charco).
+ */
+export interface BlockFlow {
+  source: string;
+  level: number;
+}
+
+export const MAX_FLOW_LEVEL = 7;
+
+/** Altura (0-1] de la superficie de un líquido según su nivel de flujo */
+export const getLiquidSurfaceHeight = (flowLevel: number): number =>
+  flowLevel === 0 ? 1 : (MAX_FLOW_LEVEL + 1 - flowLevel) / (MAX_FLOW_LEVEL + 1);
+
+export interface BlockTypeDefinition {
+  id: number;
+  name: string;
+  displayName: string; // nombre visible en la interfaz
+  textures: BlockFaceTextures | null; // null = no se renderiza (aire)
+  hint: string; // data-ai-hint de las texturas
+  solid: boolean; // colisiona con el jugador y sostiene bloques
+  transparent: boolean; // deja ver las caras de los bloques vecinos
+  opacity: number; // 1 = opaco; < 1 usa un material translúcido
+  liquid: boolean;
+  swimmable: boolean; // agua: frena las caídas y deja sin aire a quien mete la cabeza
+  contactDamage: number; // vida por segundo que quita al tocarlo (lava)
+  hardness: number; // segundos base para romperlo; < 0 = irrompible
+  lightEmission: number; // 0-15
+  drop: string | null; // nombre del bloque que suelta al romperse
+  soundSet: BlockSoundSet | null;
+  shape: BlockShape;
+  biomeTint: BlockTint;
+  flow: BlockFlow | null; // null = no es un líquido que fluye (las fuentes también)
+}
+
+// Using specific hex colors to avoid any text/watermarks from placehold.co
+const GRASS_TOP_URL = "/textures/blocks/grass_block_top.png";
+const GRASS_SIDE_URL = "/textures/blocks/grass_block_side.png";
+const DIRT_URL = "/textures/blocks/dirt.png"; // Sienna
+const STONE_URL = "/textures/blocks/stone.png"; // Gray
+const SAND_URL = "/textures/blocks/sand.png"; // Khaki
+const WOOD_LOG_SIDE_URL = "https://placehold.co/16x16/8B4513/8B4513.png"; // SaddleBrown
+const WOOD_LOG_END_URL = "https://placehold.co/16x16/DEB887/DEB887.png"; // BurlyWood
+const REDSTONE_BLOCK_URL = "https://placehold.co/16x16/FF0000/FF0000.png"; // Red
+const ORANGE_WOOL_URL = "https://placehold.co/16x16/FFA500/FFA500.png"; // Orange
+const COBBLESTONE_URL = "https://placehold.co/16x16/696969/696969.png"; // DimGray
+const WATER_URL = "https://placehold.co/16x16/1E90FF/1E90FF.png"; // DodgerBlue
+const COAL_ORE_URL = "https://placehold.co/16x16/36454F/36454F.png"; // Charcoal
+const IRON_ORE_URL = "https://placehold.co/16x16/D8A48F/D8A48F.png"; // Tan
+const GOLD_ORE_URL = "https://placehold.co/16x16/FCEE4B/FCEE4B.png"; // Gold
+const DIAMOND_ORE_URL = "https://placehold.co/16x16/5DECF5/5DECF5.png"; // Cyan
+const LEAVES_URL = "https://placehold.co/16x16/2E7D32/2E7D32.png"; // Dark green
+const TALL_GRASS_URL = "https://placehold.co/16x16/7CB342/7CB342.png"; // Light green
+const POPPY_URL = "https://placehold.co/16x16/E53935/E53935.png"; // Red
+const DANDELION_URL = "https://placehold.co/16x16/FDD835/FDD835.png"; // Yellow
+const SNOW_URL = "https://placehold.co/16x16/F4F8FB/F4F8FB.png"; // Snow white
+const TORCH_URL = "https://placehold.co/16x16/FFB300/FFB300.png"; // Amber
+const GLOWSTONE_URL = "https://placehold.co/16x16/FFE082/FFE082.png"; // Light amber
+const LAVA_URL = "https://placehold.co/16x16/FF5722/FF5722.png"; // Deep orange
+const BEDROCK_URL = "https://placehold.co/16x16/333333/333333.png"; // Dark gray
+
+const DEFAULT_SOUNDS: BlockSoundSet = {
+  break: "blockBreak",
+  place: "blockPlace",
+};
+
+// Valores por defecto de un bloque sólido y opaco
+const solidBlock = (
+  id: number,
+  name: string,
+  displayName: string,
+  textures: BlockFaceTextures,
+  hint: string,
+  hardness: number,
+  overrides: Partial<BlockTypeDefinition> = {}
+): BlockTypeDefinition => ({
+  id,
+  name,
+  displayName,
+  textures,
+  hint,
+  solid: true,
+  transparent: false,
+  opacity: 1,
+  liquid: false,
+  swimmable: false,
+  contactDamage: 0,
+  hardness,
+  lightEmission: 0,
+  drop: name,
+  soundSet: DEFAULT_SOUNDS,
+  shape: "cube",
+  biomeTint: "none",
+  flow: null,
+  ...overrides,
+});
+
+// Agua: la fuente y, con flow, cada nivel del agua que fluye
+const waterBlock = (id: number, name: string, flow: BlockFlow | null): BlockTypeDefinition => ({
+  id,
+  name,
+  displayName: "Agua",
+  textures: { all: WATER_URL },
+  hint: "water liquid",
+  solid: false,
+  transparent: true,
+  opacity: 0.7,
+  liquid: true,
+  swimmable: true,
+  contactDamage: 0,
+  hardness: -1,
+  lightEmission: 0,
+  drop: null,
+  soundSet: null,
+  shape: "cube",
+  biomeTint: "none",
+  flow,
+});
+
+// Plantas: sin colisión, se rompen al instante y se mallan en cruz
+const plantBlock = (
+  id: number,
+  name: string,
+  displayName: string,
+  texture: string,
+  hint: string,
+  overrides: Partial<BlockTypeDefinition> = {}
+): BlockTypeDefinition => ({
+  id,
+  name,
+  displayName,
+  textures: { all: texture },
+  hint,
+  solid: false,
+  transparent: true,
+  opacity: 1,
+  liquid: false,
+  swimmable: false,
+  contactDamage: 0,
+  hardness: 0,
+  lightEmission: 0,
+  drop: name,
+  soundSet: DEFAULT_SOUNDS,
+  shape: "cross",
+  biomeTint: "none",
+  flow: null,
+  ...overrides,
+});
+
+export const BLOCK_TYPES: BlockTypeDefinition[] = [
+  {
+    id: 0,
+    name: "air",
+    displayName: "Aire",
+    textures: null,
+    hint: "",
+    solid: false,
+    transparent: true,
+    opacity: 0,
+    liquid: false,
+    swimmable: false,
+    contactDamage: 0,
+    hardness: -1,
+    lightEmission: 0,
+    drop: null,
+    soundSet: null,
+    shape: "cube",
+    biomeTint: "none",
+    flow: null,
+  },
+  solidBlock(
+    1,
+    "grassBlock",
+    "Bloque de hierba",
+    { side: GRASS_SIDE_URL, top: GRASS_TOP_URL, bottom: DIRT_URL },
+    "grass dirt block",
+    0.6,
+    { drop: "dirtBlock", biomeTint: "top" }
+  ),
+  solidBlock(2, "dirtBlock", "Tierra", { all: DIRT_URL }, "dirt soil", 0.5),
+  solidBlock(3, "stoneBlock", "Piedra", { all: STONE_URL }, "stone rock", 1.5, {
+    drop: "cobblestoneBlock",
+  }),
+  solidBlock(4, "sandBlock", "Arena", { all: SAND_URL }, "sand desert", 0.5),
+  solidBlock(
+    5,
+    "woodLogBlock",
+    "Tronco",
+    { side: WOOD_LOG_SIDE_URL, top: WOOD_LOG_END_URL, bottom: WOOD_LOG_END_URL },
+    "wood log tree",
+    2
+  ),
+  solidBlock(
+    6,
+    "redstoneBlock",
+    "Bloque de redstone",
+    { all: REDSTONE_BLOCK_URL },
+    "redstone circuit",
+    5
+  ),
+  solidBlock(
+    7,
+    "orangeWoolBlock",
+    "Lana naranja",
+    { all: ORANGE_WOOL_URL },
+    "orange wool",
+    0.8
+  ),
+  solidBlock(
+    8,
+    "cobblestoneBlock",
+    "Roca",
+    { all: COBBLESTONE_URL },
+    "cobblestone stone",
+    2
+  ),
+  waterBlock(9, "waterBlock", null),
+  solidBlock(10, "coalOreBlock", "Mena de carbón", { all: COAL_ORE_URL }, "coal ore", 3),
+  solidBlock(11, "ironOreBlock", "Mena de hierro", { all: IRON_ORE_URL }, "iron ore", 3),
+  solidBlock(12, "goldOreBlock", "Mena de oro", { all: GOLD_ORE_URL }, "gold ore", 3.5),
+  solidBlock(
+    13,
+    "diamondOreBlock",
+    "Mena de diamante",
+    { all: DIAMOND_ORE_URL },
+    "diamond ore",
+    4
+  ),
+  solidBlock(14, "leavesBlock", "Hojas", { all: LEAVES_URL }, "tree leaves", 0.2, {
+    biomeTint: "all",
+  }),
+  plantBlock(15, "tallGrassBlock", "Hierba alta", TALL_GRASS_URL, "tall grass plant", {
+    drop: null,
+    biomeTint: "all",
+  }),
+  plantBlock(16, "poppyBlock", "Amapola", POPPY_URL, "red poppy flower"),
+  plantBlock(17, "dandelionBlock", "Diente de león", DANDELION_URL, "yellow dandelion flower"),
+  solidBlock(18, "snowBlock", "Nieve", { all: SNOW_URL }, "snow white", 0.2),
+  // Ids 19-25: agua que fluye, niveles 1-7
+  ...Array.from({ length: MAX_FLOW_LEVEL }, (_, index) =>
+    waterBlock(19 + index, `flowingWaterBlock${index + 1}`, {
+      source: "waterBlock",
+      level: index + 1,
+    })
+  ),
+  // La antorcha se malla en cruz como las plantas
+  plantBlock(26, "torchBlock", "Antorcha", TORCH_URL, "torch light", { lightEmission: 14 }),
+  solidBlock(27, "glowstoneBlock", "Piedra luminosa", { all: GLOWSTONE_URL }, "glowstone light", 0.3, {
+    lightEmission: 15,
+  }),
+  {
+    id: 28,
+    name: "lavaBlock",
+    displayName: "Lava",
+    textures: { all: LAVA_URL },
+    hint: "lava liquid",
+    solid: false,
+    transparent: false, // opaca: no deja pasar la luz del cielo
+    opacity: 1,
+    liquid: true,
+    swimmable: false,
+    contactDamage: 20, // dos corazones por segundo
+    hardness: -1,
+    lightEmission: 15,
+    drop: null,
+    soundSet: null,
+    shape: "cube",
+    biomeTint: "none",
+    flow: null,
+  },
+  // Suelo del mundo: no se puede romper para que nadie caiga al vacío
+  solidBlock(29, "bedrockBlock", "Roca madre", { all: BEDROCK_URL }, "bedrock", -1, {
+    drop: null,
+  }),
+];
+
+/**
+ * Resuelve las seis texturas en el orden de materiales de THREE.BoxGeometry:
+ * +X, -X, +Y, -Y, +Z, -Z.
+ */
+export const resolveFaceTextures = (
+  textures: BlockFaceTextures
+): string[] | null => {
+  const side = (face?: string) => face ?? textures.side ?? textures.all;
+  const faces = [
+    side(textures.right),
+    side(textures.left),
+    textures.top ?? textures.all,
+    textures.bottom ?? textures.all,
+    side(textures.front),
+    side(textures.back),
+  ];
+  return faces.every((face): face is string => typeof face === "string")
+    ? faces
+    : null;
+};
@@ -0,0 +1,86 @@
+import * as THREE from "three";
+import { CHUNK_SIZE, SECTION_HEIGHT } from "./utils";
+import type { ChunkMeshData, ChunkMeshPart } from "./meshing/ChunkMesher";
+import { getOpaqueChunkMaterial, getTransparentChunkMaterial } from "./meshing/ChunkMaterials";
+
+/**
+ * Tramo de SECTION_HEIGHT capas de un chunk con sus propias mallas. Cambiar un
+ * bloque solo obliga a remallar su sección (y las que la tocan), y el frustum
+ * culling descarta secciones en lugar de columnas enteras.
+ */
+export class ChunkSection {
+  public readonly index: number;
+  // Hijo de chunkRoot, desplazado a la primera capa de la sección
+  public readonly group: THREE.Group;
+  // Caja de la sección en coordenadas del mundo
+  public readonly boundingBox: THREE.Box3;
+  // Hay que volver a mallarla
+  public dirty: boolean = true;
+  // No tiene caras visibles (toda aire o toda tapada)
+  public isEmpty: boolean = true;
+
+  constructor(chunkX: number, chunkZ: number, index: number, layers: number) {
+    this.index = index;
+    this.group = new THREE.Group();
+    this.group.name = `ChunkSection_${chunkX}_${chunkZ}_${index}`;
+    this.group.position.y = index * SECTION_HEIGHT;
+
+    const minY = index * SECTION_HEIGHT;
+    this.boundingBox = new THREE.Box3(
+      new THREE.Vector3(chunkX * CHUNK_SIZE, minY, chunkZ * CHUNK_SIZE),
+      new THREE.Vector3(
+        (chunkX + 1) * CHUNK_SIZE,
+        Math.min(minY + SECTION_HEIGHT, layers),
+        (chunkZ + 1) * CHUNK_SIZE
+      )
+    );
+  }
+
+  /**
+   * Sustituye las mallas de la sección: una con los bloques opacos y otra, que
+   * se dibuja después, con los translúcidos. Los materiales son compartidos por
+   * todos los chunks. Con null la sección se queda vacía.
+   */
+  public setMeshData(chunkX: number, chunkZ: number, meshData: ChunkMeshData | null): void {
+    this.clear();
+    if (!meshData) return;
+    const parts: [string, ChunkMeshPart, THREE.Material][] = [
+      ["opaque", meshData.opaque, getOpaqueChunkMaterial()],
+      ["transparent", meshData.transparent, getTransparentChunkMaterial()],
+    ];
+    for (const [name, part, material] of parts) {
+      if (part.indices.length === 0) continue;
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute("position", new THREE.BufferAttribute(part.positions, 3));
+      geometry.setAttribute("normal", new THREE.BufferAttribute(part.normals, 3));
+      geometry.setAttribute("atlasUv", new THREE.BufferAttribute(part.atlasUv, 3));
+      geometry.setAttribute("color", new THREE.BufferAttribute(part.colors, 4));
+      geometry.setAttribute("voxelLight", new THREE.BufferAttribute(part.voxelLight, 2));
+      geometry.setAttribute("ambientOcclusion", new THREE.BufferAttribute(part.ambientOcclusion, 1));
+      geometry.setIndex(new THREE.BufferAttribute(part.indices, 1));
+
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.name = `MergedChunkMesh_${chunkX}_${chunkZ}_${this.index}_${name}`;
+      mesh.castShadow = part === meshData.opaque;
+      mesh.receiveShadow = true;
+      this.group.add(mesh);
+    }
+    this.isEmpty = this.group.children.length === 0;
+  }
+
+  /** Quita las mallas y libera sus geometrías (los materiales son compartidos) */
+  public clear(): void {
+    while (this.group.children.length > 0) {
+      const child = this.group.children[0];
+      this.group.remove(child);
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+      }
+    }
+    this.isEmpty = true;
+  }
+
+  public getMeshes(): THREE.Object3D[] {
+    return this.group.children;
+  }
+}
@@ -10,10 +10,30 @@ import type {
 import { CHUNK_SIZE } from "./utils";
 import { Player } from "./Player";
 import { AudioManager, SOUND_PATHS } from "./AudioManager";
-import { GameEvents, EventBus } from "./events/EventBus";
+import {
+  GameEvents,
+  EventBus,
+  type BlockInteractionEvent,
+  type GameModeChangeEvent,
+} from "./events/EventBus";
 import { InputController } from "./InputController"; // Asegúrate de que la ruta sea correcta
 import { CollisionService } from "./physics/CollisionService";
 import { DebugInfoService } from "./services/DebugInfoService";
+import { DebugVisualizerService, type DebugOption } from "./services/DebugVisualizerService";
+import { CommandRegistry, type CommandContext } from "./commands/CommandRegistry";
+import { registerDefaultCommands } from "./commands/defaultCommands";
+import { registerSchematicCommands } from "./commands/schematicCommands";
+import { SchematicService } from "./services/SchematicService";
+import { BlockRegistry } from "./BlockRegistry";
+import { GameStateService } from "./services/GameStateService";
+import { HotbarService } from "./services/HotbarService";
+import { BlockBreakingService } from "./services/BlockBreakingService";
+import { PlayerHealthService } from "./services/PlayerHealthService";
+import {
+  PlayerRespawnService,
+  SPAWN_X,
+  SPAWN_Z,
+} from "./services/PlayerRespawnService";
 
 export class GameLogic {
   private gameRefs: GameRefs;
@@ -22,15 +42,26 @@ export class GameLogic {
   ) => void;
   private setIsCameraSubmerged: React.Dispatch<React.SetStateAction<boolean>>;
   private isCameraSubmerged_internal: boolean = false;
+  private playerContactDamage: number = 0;
   private audioManager: AudioManager;
   private debugInfoService: DebugInfoService;
+  private debugVisualizer: DebugVisualizerService;
+  private schematics: SchematicService;
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
+  private gameState: GameStateService = GameStateService.getInstance();
+  private hotbarService: HotbarService = HotbarService.getInstance();
 
   private frustum: THREE.Frustum = new THREE.Frustum();
   private projectionMatrixInverse: THREE.Matrix4 = new THREE.Matrix4(); // Aunque no la usaremos directamente para el frustum aquí, es una buena práctica tenerla cerca.
 
-  public destroyBlockDelay: number = 0.2; // segundos entre destrucciones continuas
-  public initialHoldDelay: number = 0.35; // retardo inicial antes de destrucción continua
+  public destroyBlockDelay: number = 0.2; // segundos entre acciones continuas (colocar, romper en creativo)
+  public initialHoldDelay: number = 0.35; // retardo inicial antes de la acción continua
+  private blockBreaking: BlockBreakingService | null = null; // rotura por dureza (modos sin rotura instantánea)
+  private playerHealth: PlayerHealthService | null = null;
   private _isPaused: boolean = false;
+  private _isInventoryOpen: boolean = false;
+  private _isChatOpen: boolean = false;
+  private commands: CommandRegistry = new CommandRegistry();
 
   constructor(
     gameRefs: GameRefs,
@@ -62,23 +93,121 @@ export class GameLogic {
     );
 
     // Configurar listeners de eventos para sonidos
-    gameRefs.eventBus.on(GameEvents.BLOCK_BREAK, () => {
-      console.log("Reproduciendo sonido de romper bloque");
-      this.audioManager.playSound("blockBreak");
-    });
-
-    gameRefs.eventBus.on(GameEvents.BLOCK_PLACE, () => {
-      console.log("Reproduciendo sonido de colocar bloque");
-      this.audioManager.playSound("blockPlace");
-    });
+    this.handleBlockBreakSound = this.handleBlockBreakSound.bind(this);
+    this.handleBlockPlaceSound = this.handleBlockPlaceSound.bind(this);
+    gameRefs.eventBus.on(GameEvents.BLOCK_BREAK, this.handleBlockBreakSound);
+    gameRefs.eventBus.on(GameEvents.BLOCK_PLACE, this.handleBlockPlaceSound);
+
+    // Inventario: los bloques rotos se recogen y los colocados se consumen
+    this.handleBlockBreakDrop = this.handleBlockBreakDrop.bind(this);
+    this.handleBlockPlaceConsume = this.handleBlockPlaceConsume.bind(this);
+    gameRefs.eventBus.on(GameEvents.BLOCK_BREAK, this.handleBlockBreakDrop);
+    gameRefs.eventBus.on(GameEvents.BLOCK_PLACE, this.handleBlockPlaceConsume);
+    this.hotbarService.reset();
+
+    this.handleGameModeChange = this.handleGameModeChange.bind(this);
+    gameRefs.eventBus.on(GameEvents.GAME_MODE_CHANGE, this.handleGameModeChange);
+    this.handlePlayerDeath = this.handlePlayerDeath.bind(this);
+    gameRefs.eventBus.on(GameEvents.PLAYER_DEATH, this.handlePlayerDeath);
 
     // Instanciar InputController pasando la instancia de GameLogic
     this.gameRefs.inputController = new InputController(this.gameRefs, this); // Pasa la instancia de GameLogic
     this.debugInfoService = new DebugInfoService(gameRefs, setDebugInfo);
+    this.debugVisualizer = new DebugVisualizerService(gameRefs);
+    this.schematics = new SchematicService(gameRefs);
+    registerDefaultCommands(this.commands);
+    registerSchematicCommands(this.commands, this.schematics);
 
     this.initializePlayer();
   }
 
+  private handleBlockBreakSound(event: BlockInteractionEvent): void {
+    const soundSet = this.blockRegistry.getSoundSet(event.blockType);
+    if (!soundSet) return;
+    console.log("Reproduciendo sonido de romper bloque");
+    this.audioManager.playSound(soundSet.break);
+  }
+
+  private handleBlockPlaceSound(event: BlockInteractionEvent): void {
+    const soundSet = this.blockRegistry.getSoundSet(event.blockType);
+    if (!soundSet) return;
+    console.log("Reproduciendo sonido de colocar bloque");
+    this.audioManager.playSound(soundSet.place);
+  }
+
+  // En los modos sin consumo los bloques son infinitos: no se recogen ni se gastan
+  private handleBlockBreakDrop(event: BlockInteractionEvent): void {
+    if (!this.gameState.getGameModeRules().consumesItems) return;
+    const drop = this.blockRegistry.getDrop(event.blockType);
+    if (drop) {
+      this.gameState.addToInventory(drop);
+    }
+  }
+
+  private handleBlockPlaceConsume(event: BlockInteractionEvent): void {
+    if (!this.gameState.getGameModeRules().consumesItems) return;
+    const selectedIndex = this.hotbarService.getSelectedIndex();
+    if (this.gameState.getInventorySlot(selectedIndex)?.itemId === event.blockType) {
+      this.gameState.removeFromSlot(selectedIndex);
+    } else {
+      this.gameState.removeFromInventory(event.blockType);
+    }
+  }
+
+  private handleGameModeChange(event: GameModeChangeEvent): void {
+    this.gameRefs.player?.applyGameMode();
+    this.blockBreaking?.reset();
+    if (!this.gameState.getGameModeRules().canInteract) {
+      this.setInventoryOpen(false);
+    }
+  }
+
+  // Al morir se suelta el ratón para poder pulsar "Reaparecer"
+  private handlePlayerDeath(): void {
+    this.setInventoryOpen(false);
+    this.setChatOpen(false);
+    this.blockBreaking?.reset();
+    this.gameRefs.cursor.holding = false;
+    this.gameRefs.inputController.disablePlayerMovement();
+    this.gameRefs.inputController.releasePointerLock();
+  }
+
+  /**
+   * Devuelve al jugador muerto al punto de aparición con la vida completa.
+   */
+  public respawnPlayer(): void {
+    const refs = this.gameRefs;
+    if (!refs.player?.dead) return;
+    PlayerRespawnService.respawnPlayer(refs);
+    this.playerHealth?.reset();
+    refs.eventBus.emit(GameEvents.PLAYER_RESPAWN, {
+      position: { x: refs.player.x, y: refs.player.y, z: refs.player.z },
+    });
+    if (!this._isPaused) {
+      refs.inputController.enablePlayerMovement();
+      refs.inputController.requestPointerLock();
+    }
+  }
+
+  /**
+   * Libera los listeners globales para poder salir del mundo y cargar otro
+   * sin que la instancia anterior siga reaccionando a la entrada o a eventos.
+   */
+  public dispose(): void {
+    this.gameRefs.eventBus.off(GameEvents.BLOCK_BREAK, this.handleBlockBreakSound);
+    this.gameRefs.eventBus.off(GameEvents.BLOCK_PLACE, this.handleBlockPlaceSound);
+    this.gameRefs.eventBus.off(GameEvents.BLOCK_BREAK, this.handleBlockBreakDrop);
+    this.gameRefs.eventBus.off(GameEvents.BLOCK_PLACE, this.handleBlockPlaceConsume);
+    this.gameRefs.eventBus.off(GameEvents.GAME_MODE_CHANGE, this.handleGameModeChange);
+    this.gameRefs.eventBus.off(GameEvents.PLAYER_DEATH, this.handlePlayerDeath);
+    this.blockBreaking?.dispose();
+    this.playerHealth?.dispose();
+    this.debugVisualizer.dispose();
+    this.schematics.dispose();
+    this.gameRefs.inputController?.removeEventListeners();
+    this.gameRefs.inputController?.releasePointerLock();
+  }
+
   private initializePlayer(): void {
     console.log("Inicializando jugador");
     const refs = this.gameRefs;
@@ -88,8 +217,8 @@ export class GameLogic {
       );
       return;
     }
-    const initialPlayerX = 0.5;
-    const initialPlayerZ = 0.5;
+    const initialPlayerX = SPAWN_X;
+    const initialPlayerZ = SPAWN_Z;
 
     const initialChunkX = Math.floor(initialPlayerX / CHUNK_SIZE);
     const initialChunkZ = Math.floor(initialPlayerZ / CHUNK_SIZE);
@@ -105,6 +234,11 @@ export class GameLogic {
       }
     }
 
+    this.blockBreaking = new BlockBreakingService(
+      refs.scene,
+      refs.world as PlayerWorldService
+    );
+
     let spawnY = refs.world.getSpawnHeight(initialPlayerX, initialPlayerZ);
     // Instanciar CollisionService antes de Player
     const collisionService = new CollisionService(refs.world);
@@ -122,6 +256,9 @@ export class GameLogic {
       collisionService // Inyección de dependencias
     );
 
+    this.playerHealth = new PlayerHealthService(refs.player);
+    this.playerHealth.reset();
+
     // Verificar que el AudioManager se pasó correctamente al jugador
     const playerAudioManager = refs.player.getAudioManager();
     console.log(
@@ -147,17 +284,31 @@ export class GameLogic {
     return this._isPaused;
   }
 
+  public get isInventoryOpen(): boolean {
+    return this._isInventoryOpen;
+  }
+
+  public get isChatOpen(): boolean {
+    return this._isChatOpen;
+  }
+
   public togglePause(): void {
     const prevState = this._isPaused ? "paused" : "playing";
     this._isPaused = !this._isPaused;
     console.log('Juego pausado:', this._isPaused);
 
+    // El menú de pausa sustituye al inventario y al chat
+    if (this._isPaused) {
+      this.setInventoryOpen(false);
+      this.setChatOpen(false);
+    }
+
     if (this._isPaused) {
         // Cuando el juego se pausa, deshabilitar el input de movimiento del jugador
         this.gameRefs.inputController.disablePlayerMovement();
         // Liberar el mouse
         this.gameRefs.inputController.releasePointerLock();
-    } else {
+    } else if (!this.gameRefs.player?.dead) {
         // Cuando el juego se reanuda, habilitar el input de movimiento del jugador
         this.gameRefs.inputController.enablePlayerMovement();
         // Volver a capturar el mouse
@@ -175,15 +326,147 @@ export class GameLogic {
     );
   }
 
+  public toggleInventory(): void {
+    if (
+      this._isPaused ||
+      this.gameRefs.player?.dead ||
+      !this.gameState.getGameModeRules().canInteract
+    ) {
+      return;
+    }
+    this.setInventoryOpen(!this._isInventoryOpen);
+  }
+
+  public setInventoryOpen(open: boolean): void {
+    if (this._isInventoryOpen === open) return;
+    this._isInventoryOpen = open;
+
+    if (open) {
+      // Con el inventario abierto el jugador no se mueve y el ratón queda libre
+      this.gameRefs.inputController.disablePlayerMovement();
+      this.gameRefs.inputController.releasePointerLock();
+    } else if (!this._isPaused && !this.gameRefs.player?.dead) {
+      this.gameRefs.inputController.enablePlayerMovement();
+      this.gameRefs.inputController.requestPointerLock();
+    }
+
+    this.gameRefs.eventBus.emit(GameEvents.INVENTORY_TOGGLE, { open });
+  }
+
+  /** Abre la consola del chat (tecla de chat o "/") */
+  public openChat(initialText: string = ""): void {
+    if (this._isPaused || this._isInventoryOpen || this.gameRefs.player?.dead) return;
+    this.setChatOpen(true, initialText);
+  }
+
+  public setChatOpen(open: boolean, initialText: string = ""): void {
+    if (this._isChatOpen === open) return;
+    this._isChatOpen = open;
+
+    // Mientras se escribe las teclas no mueven al jugador y el ratón queda libre
+    if (open) {
+      this.gameRefs.inputController.disablePlayerMovement();
+      this.gameRefs.inputController.releasePointerLock();
+    } else if (!this._isPaused && !this.gameRefs.player?.dead) {
+      this.gameRefs.inputController.enablePlayerMovement();
+      this.gameRefs.inputController.requestPointerLock();
+    }
+
+    this.gameRefs.eventBus.emit(GameEvents.CHAT_TOGGLE, { open, initialText });
+  }
+
+  /**
+   * Envía una línea del chat: las que empiezan por "/" son comandos y el
+   * resto se muestran como mensajes del jugador.
+   */
+  public submitChat(line: string): void {
+    const text = line.trim();
+    if (!text) return;
+    const context = this.getCommandContext();
+    if (text.startsWith("/")) {
+      context.print(text);
+      this.commands.execute(text, context);
+    } else {
+      context.print(`<${this.gameRefs.player?.getName() ?? "Jugador"}> ${text}`);
+    }
+  }
+
+  /** Líneas completas que pueden sustituir a la que se está escribiendo (Tab) */
+  public completeChat(line: string): string[] {
+    return this.commands.complete(line, this.getCommandContext());
+  }
+
+  private getCommandContext(): CommandContext {
+    return {
+      refs: this.gameRefs,
+      print: (text) => this.gameRefs.eventBus.emit(GameEvents.CHAT_MESSAGE, { text }),
+    };
+  }
+
+  /**
+   * Deshace (Ctrl+Z) o rehace (Ctrl+Y) el último paso del historial de
+   * bloques. Solo en los modos sin consumo de objetos: en supervivencia
+   * devolvería bloques cuyo objeto ya se ha recogido.
+   */
+  public applyEditHistory(action: "undo" | "redo"): void {
+    const world = this.gameRefs.world;
+    if (!world || this._isPaused || this.gameRefs.player?.dead) return;
+    if (this.gameState.getGameModeRules().consumesItems) {
+      this.gameRefs.eventBus.emit(GameEvents.ACTION_BAR_MESSAGE, {
+        message: "Deshacer y rehacer solo están disponibles en creativo",
+      });
+      return;
+    }
+    const blocks = action === "undo" ? world.history.undo() : world.history.redo();
+    this.gameRefs.eventBus.emit(GameEvents.EDIT_HISTORY_APPLY, { action, blocks });
+  }
+
+  /**
+   * Clic con la selección de estructuras o una vista previa activa (ver
+   * SchematicService). Devuelve true si el clic no debe romper ni colocar.
+   */
+  public handleSchematicClick(button: number): boolean {
+    if (this._isPaused || this._isInventoryOpen || this.gameRefs.player?.dead) return false;
+    return this.schematics.handleClick(button);
+  }
+
+  /** Girar (R) o reflejar (M) la vista previa; true si había una */
+  public transformSchematicPreview(action: "rotate" | "mirror"): boolean {
+    if (this._isPaused || !this.schematics.hasPreview) return false;
+    if (action === "rotate") {
+      this.schematics.rotatePreview();
+    } else {
+      this.schematics.mirrorPreview("x");
+    }
+    return true;
+  }
+
+  // Combinaciones F3 + tecla (InputController)
+  public toggleDebugOption(option: DebugOption): void {
+    this.debugVisualizer.toggle(option);
+  }
+
   // fixedStepUpdate: solo física y cielo
   public fixedStepUpdate(fixedStep: number): void {
     const refs = this.gameRefs;
     if (refs.sky && refs.camera) {
+      if (refs.world && refs.player) {
+        refs.sky.setBiomeFogTint(refs.world.getBiomeAt(refs.player.x, refs.player.z).fogTint);
+      }
       refs.sky.updateFixedStep(fixedStep, refs.camera, this.isCameraSubmerged_internal);
     }
-    // Física del jugador
-    if (!this._isPaused && refs.player) {
+    // Física del jugador (un jugador muerto se queda quieto hasta reaparecer)
+    if (!this._isPaused && refs.player && !refs.player.dead) {
       refs.player.updatePosition(fixedStep);
+      this.playerHealth?.update(
+        fixedStep,
+        this.isCameraSubmerged_internal,
+        this.playerContactDamage
+      );
+    }
+    // Flujo de líquidos, a su propio ritmo fijo (se detiene con la pausa)
+    if (!this._isPaused && refs.world) {
+      refs.world.liquids.update(fixedStep);
     }
   }
 
@@ -206,7 +489,15 @@ export class GameLogic {
     // Interacción continua con bloques
     if (refs.cursor.holding) {
       refs.cursor.holdTime = (refs.cursor.holdTime || 0) + deltaTime;
-      if (refs.cursor.holdTime >= this.initialHoldDelay) {
+      if (
+        refs.cursor.buttonPressed === 0 &&
+        !this.gameState.getGameModeRules().instantBreak
+      ) {
+        // Rotura por dureza: el progreso vuelve a cero al cambiar de bloque
+        if (this.blockBreaking?.update(deltaTime, refs.player.getLookingAt())) {
+          refs.player.breakBlock();
+        }
+      } else if (refs.cursor.holdTime >= this.initialHoldDelay) {
         // Destruir o colocar bloque cada destroyBlockDelay segundos
         if (
           !refs.cursor._lastDestroyTime ||
@@ -221,6 +512,7 @@ export class GameLogic {
     } else {
       refs.cursor.holdTime = 0;
       refs.cursor._lastDestroyTime = 0;
+      this.blockBreaking?.reset();
     }
 
     // Verificar si la cámara está bajo el agua
@@ -233,7 +525,17 @@ export class GameLogic {
         camWorldY,
         camWorldZ
       );
-      const newIsSubmerged = blockAtCamera === "waterBlock";
+      // Solo el agua sumerge: la lava quema (contactDamage) pero no ahoga
+      const newIsSubmerged = this.blockRegistry.isSwimmable(blockAtCamera);
+      const blockAtFeet = refs.world.getBlock(
+        Math.floor(refs.player.x),
+        Math.floor(refs.player.y),
+        Math.floor(refs.player.z)
+      );
+      this.playerContactDamage = Math.max(
+        this.blockRegistry.getContactDamage(blockAtCamera),
+        this.blockRegistry.getContactDamage(blockAtFeet)
+      );
 
       if (newIsSubmerged !== this.isCameraSubmerged_internal) {
         this.isCameraSubmerged_internal = newIsSubmerged;
@@ -241,130 +543,6 @@ export class GameLogic {
       }
     }
 
-    if (refs.player.dead) {
-      const respawnX = 0.5;
-      const respawnZ = 0.5;
-      const respawnChunkX = Math.floor(respawnX / CHUNK_SIZE);
-      const respawnChunkZ = Math.floor(respawnZ / CHUNK_SIZE);
-
-      if (!refs.world.activeChunks.has(`${respawnChunkX},${respawnChunkZ}`)) {
-        refs.world.loadChunk(respawnChunkX, respawnChunkZ);
-      }
-
-      let safetyRemeshLoops = 0;
-      const maxRemeshLoops = 5;
-      while (
-        refs.world.getRemeshQueueSize() > 0 &&
-        safetyRemeshLoops < maxRemeshLoops
-      ) {
-        refs.world.processRemeshQueue(refs.world.getRemeshQueueSize());
-        safetyRemeshLoops++;
-      }
-      if (
-        safetyRemeshLoops >= maxRemeshLoops &&
-        refs.world.getRemeshQueueSize() > 0
-      ) {
-        console.warn(
-          "Respawn: Remesh queue was not fully cleared after max attempts."
-        );
-      }
-
-      let safeRespawnY = refs.world.getSpawnHeight(respawnX, respawnZ);
-      let attempts = 0;
-      const maxSafetyCheckAttempts = refs.world.layers;
-      const playerHeightForCheck = refs.player.height - 0.01;
-
-      while (attempts < maxSafetyCheckAttempts) {
-        const blockAtFeet = refs.world.getBlock(
-          Math.floor(respawnX),
-          Math.floor(safeRespawnY),
-          Math.floor(respawnZ)
-        );
-        const blockAtHead = refs.world.getBlock(
-          Math.floor(respawnX),
-          Math.floor(safeRespawnY + playerHeightForCheck),
-          Math.floor(respawnZ)
-        );
-        const blockSlightlyAboveHead = refs.world.getBlock(
-          Math.floor(respawnX),
-          Math.floor(safeRespawnY + playerHeightForCheck + 0.5),
-          Math.floor(respawnZ)
-        );
-
-        if (
-          blockAtFeet === "air" &&
-          blockAtHead === "air" &&
-          blockSlightlyAboveHead === "air"
-        ) {
-          break;
-        }
-        safeRespawnY++;
-        attempts++;
-        if (safeRespawnY + playerHeightForCheck + 1 >= refs.world.layers) {
-          console.warn(
-            "Respawn safety check reached world top. Choosing a default Y."
-          );
-          safeRespawnY = Math.max(
-            1,
-            Math.min(
-              Math.floor(refs.world.layers / 2),
-              refs.world.layers - Math.ceil(playerHeightForCheck) - 2
-            )
-          );
-          break;
-        }
-      }
-      if (attempts >= maxSafetyCheckAttempts) {
-        console.warn(
-          "Could not find a perfectly safe respawn Y after " +
-            maxSafetyCheckAttempts +
-            " attempts. Using last calculated or default."
-        );
-        safeRespawnY = Math.max(
-          1,
-          Math.min(
-            safeRespawnY,
-            refs.world.layers - Math.ceil(playerHeightForCheck) - 2
-          )
-        );
-      }
-
-      safeRespawnY = Math.max(1, safeRespawnY);
-      safeRespawnY = Math.min(
-        safeRespawnY,
-        refs.world.layers - Math.ceil(refs.player.height) - 1
-      );
-
-      const currentPitch = refs.player.getPitch();
-      const currentYaw = refs.player.getYaw();
-      refs.player = new Player(
-        refs.player!["name"],
-        refs.world as PlayerWorldService,
-        refs.camera as PlayerCameraService,
-        refs.scene as PlayerSceneService,
-        refs.raycaster as PlayerRaycasterService,
-        respawnX,
-        safeRespawnY,
-        respawnZ,
-        true,
-        this.audioManager
-      );
-
-      if (refs.inputController) {
-        refs.inputController.setPlayer(refs.player);
-      }
-
-      refs.player.setPitch(currentPitch);
-      refs.player.setYaw(currentYaw);
-      refs.player.lookAround();
-
-      refs.camera.position.set(
-        refs.player.x,
-        refs.player.y + refs.player.height * 0.9,
-        refs.player.z
-      );
-    }
-
     // Actualiza la matriz de proyección y el frustum (siempre)
     refs.camera.updateMatrixWorld();
     this.projectionMatrixInverse.multiplyMatrices(
@@ -376,15 +554,17 @@ export class GameLogic {
     // Frustum culling a nivel de chunks (siempre)
     let visibleChunksCount = 0;
     refs.world.activeChunks.forEach((chunk) => {
-      if (chunk && chunk.chunkRoot && chunk.boundingBox) {
-        const isVisible = this.frustum.intersectsBox(chunk.boundingBox);
-        chunk.chunkRoot.visible = isVisible;
-        if (isVisible) visibleChunksCount++;
+      if (chunk && chunk.chunkRoot) {
+        // Cada sección del chunk se recorta por separado
+        if (chunk.updateVisibility(this.frustum)) visibleChunksCount++;
       } else {
         if (chunk && chunk.chunkRoot) chunk.chunkRoot.visible = false;
       }
     });
 
+    this.debugVisualizer.update();
+    this.schematics.update();
+
     // Actualizar información de depuración solo si está habilitado
     if (debugEnabled && this.debugInfoService) {
       this.debugInfoService.updateDebugInfo();
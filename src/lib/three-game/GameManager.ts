@@ -7,6 +7,7 @@ import { WorldController } from "./WorldController";
 import { RenderController } from "./RenderController";
 import { PlayerRespawnService } from "./services/PlayerRespawnService";
 import { DebugInfoService } from "./services/DebugInfoService";
+import { BlockRegistry } from "./BlockRegistry";
 
 export class GameLogic {
   private gameRefs: GameRefs;
@@ -16,6 +17,7 @@ export class GameLogic {
   private setIsCameraSubmerged: React.Dispatch<React.SetStateAction<boolean>>;
   private isCameraSubmerged_internal: boolean = false;
   private frustum: THREE.Frustum = new THREE.Frustum();
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
   private playerController: PlayerController;
   private worldController: WorldController;
   private renderController: RenderController;
@@ -113,7 +115,7 @@ export class GameLogic {
         camWorldY,
         camWorldZ
       );
-      const newIsSubmerged = blockAtCamera === "waterBlock";
+      const newIsSubmerged = this.blockRegistry.isLiquid(blockAtCamera);
       if (newIsSubmerged !== this.isCameraSubmerged_internal) {
         this.isCameraSubmerged_internal = newIsSubmerged;
         this.setIsCameraSubmerged(newIsSubmerged);
@@ -3,6 +3,17 @@ import type { GameRefs, PlayerCameraService } from "./types";
 import type { Player } from "./Player";
 import { gameLogger } from './services/LoggingService';
 import { GameLogic } from './GameLogic'; // Importar GameLogic
+import { HotbarService, HOTBAR_SIZE } from './services/HotbarService';
+import { GameConfig } from './config/GameConfig';
+import type { DebugOption } from './services/DebugVisualizerService';
+
+interface DebugKeyBindings {
+  debugModifier: string;
+  debugChunkBorders: string;
+  debugCollisionBoxes: string;
+  debugLightLevels: string;
+  debugBlockInfo: string;
+}
 
 export class InputController {
   private player: Player | null = null; // Player can be null initially or after destruction
@@ -19,6 +30,9 @@ export class InputController {
   private boundHandleTouchMove: (e: TouchEvent) => void;
   private boundHandleTouchEnd: (e: TouchEvent) => void;
   private boundHandleMouseUp: (e: MouseEvent) => void; // Agregado
+  private boundHandlePauseKey: (e: KeyboardEvent) => void;
+  private boundHandleWheel: (e: WheelEvent) => void;
+  private boundHandleWindowBlur: () => void;
 
   private lastSpacePressTime: number = 0;
   private readonly FLY_TOGGLE_DELAY: number = 300; // ms
@@ -33,6 +47,9 @@ export class InputController {
   private _lastInteractionTime: number = 0;
   private readonly INTERACTION_COOLDOWN = 300; // ms
 
+  // F3 (debugModifier) está pulsada: la siguiente tecla puede ser una combinación
+  private isDebugModifierHeld: boolean = false;
+
   // Propiedad para controlar si el movimiento del jugador está habilitado
   private isPlayerMovementEnabled: boolean = true;
 
@@ -55,6 +72,9 @@ export class InputController {
     this.boundHandleTouchMove = this.handleTouchMove.bind(this);
     this.boundHandleTouchEnd = this.handleTouchEnd.bind(this);
     this.boundHandleMouseUp = this.handleMouseUp.bind(this); // Agregado
+    this.boundHandlePauseKey = this.handlePauseKey.bind(this);
+    this.boundHandleWheel = this.handleWheel.bind(this);
+    this.boundHandleWindowBlur = this.handleWindowBlur.bind(this);
   }
 
   public setPlayer(player: Player | null) {
@@ -67,14 +87,10 @@ export class InputController {
 
     window.addEventListener("keydown", this.boundHandleKeyDown);
     window.addEventListener("keyup", this.boundHandleKeyUp);
+    window.addEventListener("blur", this.boundHandleWindowBlur);
 
     // Añadir listener para la tecla P
-    window.addEventListener('keydown', (event) => {
-        if (event.key === 'p' || event.key === 'P') {
-            this.gameLogic.togglePause(); // Llama al método de GameLogic
-            event.preventDefault(); // Opcional: previene el comportamiento por defecto del navegador para P
-        }
-    });
+    window.addEventListener('keydown', this.boundHandlePauseKey);
 
     document.addEventListener(
       "pointerlockchange",
@@ -93,6 +109,11 @@ export class InputController {
       "click",
       this.boundHandleCanvasClick
     );
+    this.gameRefs.canvasRef.addEventListener(
+      "wheel",
+      this.boundHandleWheel,
+      { passive: false }
+    );
 
     this.gameRefs.canvasRef.addEventListener(
       "touchstart",
@@ -115,13 +136,9 @@ export class InputController {
 
     window.removeEventListener("keydown", this.boundHandleKeyDown);
     window.removeEventListener("keyup", this.boundHandleKeyUp);
+    window.removeEventListener("blur", this.boundHandleWindowBlur);
     // Remover listener para la tecla P
-    window.removeEventListener('keydown', (event) => {
-        if (event.key === 'p' || event.key === 'P') {
-            this.gameLogic.togglePause();
-            event.preventDefault();
-        }
-    });
+    window.removeEventListener('keydown', this.boundHandlePauseKey);
 
     document.removeEventListener(
       "pointerlockchange",
@@ -140,6 +157,10 @@ export class InputController {
       "click",
       this.boundHandleCanvasClick
     );
+    this.gameRefs.canvasRef.removeEventListener(
+      "wheel",
+      this.boundHandleWheel
+    );
 
     this.gameRefs.canvasRef.removeEventListener(
       "touchstart",
@@ -155,6 +176,15 @@ export class InputController {
     );
   }
 
+  private handlePauseKey(event: KeyboardEvent): void {
+    // En el chat la P se escribe
+    if (this.gameLogic.isChatOpen) return;
+    if (event.key === 'p' || event.key === 'P') {
+      this.gameLogic.togglePause(); // Llama al método de GameLogic
+      event.preventDefault(); // Opcional: previene el comportamiento por defecto del navegador para P
+    }
+  }
+
   private handleCanvasClick(): void {
     if (!this.gameRefs.canvasRef) return;
     if (!document.pointerLockElement) {
@@ -184,12 +214,68 @@ export class InputController {
   }
 
   private handleKeyDown(e: KeyboardEvent): void {
+    // Las teclas son para la línea del chat (GameChat la cierra con Escape)
+    if (this.gameLogic.isChatOpen) return;
+    // Antes de descartar las repeticiones: también hay que bloquear las de F3
+    if (this.handleDebugKey(e)) return;
     if (e.repeat) return;
     const { controlConfig } = this.gameRefs;
     if (!controlConfig || !this.player) return;
 
     console.log("KeyDown:", e.code);
 
+    const keyBindings = GameConfig.getInstance().get<{
+      keyBindings: {
+        inventory: string;
+        chat: string;
+        command: string;
+        undo: string;
+        redo: string;
+        schematicRotate: string;
+        schematicMirror: string;
+      };
+    }>("controls")?.keyBindings;
+
+    // Ctrl+Z / Ctrl+Y (y Ctrl+Mayús+Z): historial de bloques
+    if (e.ctrlKey || e.metaKey) {
+      const isUndo = e.code === keyBindings?.undo && !e.shiftKey;
+      const isRedo = e.code === keyBindings?.redo || (e.code === keyBindings?.undo && e.shiftKey);
+      if ((isUndo || isRedo) && !this.gameLogic.isInventoryOpen) {
+        e.preventDefault();
+        this.gameLogic.applyEditHistory(isUndo ? "undo" : "redo");
+        return;
+      }
+    }
+
+    // Orientar la vista previa de una estructura
+    const schematicAction =
+      e.code === keyBindings?.schematicRotate
+        ? "rotate"
+        : e.code === keyBindings?.schematicMirror
+          ? "mirror"
+          : null;
+    if (schematicAction && this.gameLogic.transformSchematicPreview(schematicAction)) return;
+
+    // Abrir el chat; con la tecla de comando empieza con "/"
+    const isChatKey = e.code === keyBindings?.chat || e.code === keyBindings?.command;
+    if (isChatKey && !this.gameLogic.isInventoryOpen) {
+      // Evita que la tecla se escriba en la línea o abra la búsqueda del navegador
+      e.preventDefault();
+      this.gameLogic.openChat(e.code === keyBindings?.command ? "/" : "");
+      return;
+    }
+
+    // Abrir/cerrar el inventario (Escape también lo cierra)
+    const inventoryKey = keyBindings?.inventory;
+    if (e.code === inventoryKey) {
+      this.gameLogic.toggleInventory();
+      return;
+    }
+    if (e.code === "Escape" && this.gameLogic.isInventoryOpen) {
+      this.gameLogic.setInventoryOpen(false);
+      return;
+    }
+
     // Solo procesar input de movimiento si está habilitado
     if (this.isPlayerMovementEnabled) {
       switch (e.code) {
@@ -223,11 +309,61 @@ export class InputController {
       }
     }
 
-    // Las teclas que no son de movimiento (como la de pausa) se manejarían aquí fuera del if
-    // Por ahora, solo tenemos la lógica de movimiento dentro del if
+    // Teclas 1-9: seleccionar casilla de la barra rápida
+    if (!this.gameLogic.isPaused && !this.gameLogic.isInventoryOpen && e.code.startsWith("Digit")) {
+      const slot = Number(e.code.slice(5)) - 1;
+      if (slot >= 0 && slot < HOTBAR_SIZE) {
+        HotbarService.getInstance().selectSlot(slot);
+      }
+    }
+  }
+
+  /**
+   * Combinaciones F3 + tecla de los visualizadores de depuración. Devuelve
+   * true si la tecla se ha usado. F3 abre la búsqueda del navegador, así que
+   * se bloquea su acción por defecto.
+   */
+  private handleDebugKey(e: KeyboardEvent): boolean {
+    const keyBindings = GameConfig.getInstance().get<{ keyBindings: DebugKeyBindings }>(
+      "controls"
+    )?.keyBindings;
+    if (!keyBindings) return false;
+    if (e.code === keyBindings.debugModifier) {
+      e.preventDefault();
+      this.isDebugModifierHeld = true;
+      return true;
+    }
+    if (!this.isDebugModifierHeld) return false;
+
+    const options: Record<string, DebugOption> = {
+      [keyBindings.debugChunkBorders]: "showChunkBorders",
+      [keyBindings.debugCollisionBoxes]: "showCollisionBoxes",
+      [keyBindings.debugLightLevels]: "showLightLevels",
+      [keyBindings.debugBlockInfo]: "showBlockInfo",
+    };
+    const option = options[e.code];
+    if (!option) return false;
+    e.preventDefault();
+    if (!e.repeat) this.gameLogic.toggleDebugOption(option);
+    return true;
+  }
+
+  // Si la ventana pierde el foco con F3 pulsada, su keyup no llega nunca
+  private handleWindowBlur(): void {
+    this.isDebugModifierHeld = false;
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    if (!this.gameRefs.cursor?.inWindow || this.gameLogic.isPaused) return;
+    e.preventDefault();
+    HotbarService.getInstance().scroll(e.deltaY);
   }
 
   private handleKeyUp(e: KeyboardEvent): void {
+    const debugModifier = GameConfig.getInstance().get<{ keyBindings: DebugKeyBindings }>(
+      "controls"
+    )?.keyBindings.debugModifier;
+    if (e.code === debugModifier) this.isDebugModifierHeld = false;
     if (!this.player) return;
     const { controlConfig } = this.gameRefs;
     if (!controlConfig) return;
@@ -287,6 +423,9 @@ export class InputController {
       return;
     }
 
+    // Esquinas de la selección o colocar una estructura en lugar de romper o construir
+    if (this.gameLogic.handleSchematicClick(button)) return;
+
     // Protección contra doble interacción en la misma posición
     // Especialmente útil para la primera interacción
     const blockingKey = 'interaction_lock';
@@ -305,6 +444,8 @@ export class InputController {
 
     // Registrar el botón presionado
     this.mouseButtons.add(button);
+    // Todo lo que se rompa o coloque hasta soltar los botones se deshace de una vez
+    if (this.mouseButtons.size === 1) this.gameRefs.world?.history.openStep();
     
     // Si hay más de un botón presionado y el tiempo entre clicks es menor que CLICK_TIMEOUT
     if (this.mouseButtons.size > 1 && (now - this.lastClickTime) < this.CLICK_TIMEOUT) {
@@ -382,6 +523,8 @@ export class InputController {
         this._hasInteractedBefore = true;
         this.player.interactWithBlock(false);
       }
+    } else if (button === 1) { // Click central: pick block
+      this.player?.pickBlock();
     }
   };
 
@@ -394,6 +537,7 @@ export class InputController {
 
     // Si no hay más botones presionados, resetear el estado
     if (this.mouseButtons.size === 0) {
+      this.gameRefs.world?.history.closeStep();
       this.gameRefs.cursor.holding = false;
       this.gameRefs.cursor.holdTime = 0;
       this.gameRefs.cursor.buttonPressed = undefined;
@@ -160,6 +160,18 @@ export class Player {
     this.blockInteractionService.interactWithBlock(destroy);
   }
 
+  public breakBlock(): void {
+    this.blockInteractionService.breakBlock();
+  }
+
+  public pickBlock(): void {
+    this.blockInteractionService.pickBlock();
+  }
+
+  public applyGameMode(): void {
+    this.stateService.applyGameMode();
+  }
+
   public die(): void {
     this.stateService.die();
   }
@@ -288,6 +300,14 @@ export class Player {
     return this.blockInteractionService.getLookingAt();
   }
 
+  // Volumen con el que el jugador choca contra los bloques
+  public getCollisionBox(): THREE.Box3 {
+    return this.collisionService.getBox(
+      { x: this.x, y: this.y, z: this.z },
+      { width: this.width, height: this.height, depth: this.depth }
+    );
+  }
+
   // Getters para propiedades privadas
   public getName(): string {
     return this.name;
@@ -299,5 +319,19 @@ export class Player {
 
   public respawn(): void {
     this.stateService.respawn();
+    // La caída en curso al morir no cuenta tras reaparecer
+    this.movementService.resetFall();
+  }
+
+  /** Mueve al jugador y la cámara sin caída ni velocidad acumuladas (/tp) */
+  public teleport(x: number, y: number, z: number): void {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.jumpVelocity = 0;
+    this.onGround = false;
+    this.movementService.resetFall();
+    this.mesh.position.set(x, y, z);
+    this.cameraController.setPosition(x, y + this.height * 0.9, z);
   }
 }
@@ -1,7 +1,8 @@
 import * as THREE from "three";
 import type { GameRefs } from "./types";
 import { Block } from "./Block";
-import { getBlockDefinitions, CHUNK_SIZE } from "./utils";
+import { CHUNK_SIZE } from "./utils";
+import { BlockRegistry } from "./BlockRegistry";
 import { AdvancedSky } from "./sky/AdvancedSky";
 import { SimpleShadowService } from "./lighting/SimpleShadowService";
 import type { ILightingService } from "./lighting/ILightingService";
@@ -105,63 +106,10 @@ export class ThreeSetup {
       );
       return;
     }
-    const blockData = getBlockDefinitions();
-    gameRefs.blocks = [
-      new Block(
-        "grassBlock",
-        blockData.grassBlock,
-        gameRefs.textureLoader,
-        true
-      ),
-      new Block(
-        "dirtBlock",
-        blockData.dirtBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-      new Block(
-        "stoneBlock",
-        blockData.stoneBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-      new Block(
-        "sandBlock",
-        blockData.sandBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-      new Block(
-        "woodLogBlock",
-        blockData.woodLogBlock,
-        gameRefs.textureLoader,
-        true
-      ),
-      new Block(
-        "redstoneBlock",
-        blockData.redstoneBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-      new Block(
-        "orangeWoolBlock",
-        blockData.orangeWoolBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-      new Block(
-        "cobblestoneBlock",
-        blockData.cobblestoneBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-      new Block(
-        "waterBlock",
-        blockData.waterBlock,
-        gameRefs.textureLoader,
-        false
-      ),
-    ];
+    const textureLoader = gameRefs.textureLoader;
+    gameRefs.blocks = BlockRegistry.getInstance()
+      .getRenderableDefinitions()
+      .map((definition) => new Block(definition, textureLoader));
 
     console.log(
       "Three.js core initialized by ThreeSetup, including AdvancedSky."
@@ -1,8 +1,36 @@
 import * as THREE from "three";
-import type { Block } from "./Block";
 import { Chunk } from "./Chunk";
-import { CHUNK_SIZE } from "./utils";
-import type { GameRefs } from "./types";
+import { CHUNK_SIZE, DEFAULT_WORLD_HEIGHT, getBlockIndex } from "./utils";
+import { BlockRegistry } from "./BlockRegistry";
+import { TerrainGenerator } from "./terrain/TerrainGenerator";
+import type { BiomeDefinition } from "./terrain/Biomes";
+import { TerrainWorkerPool } from "./workers/TerrainWorkerPool";
+import { LiquidSimulator } from "./liquids/LiquidSimulator";
+import { VoxelLightEngine } from "./lighting/VoxelLightEngine";
+import { EditHistory } from "./history/EditHistory";
+import { SettingsService } from "./services/SettingsService";
+import { chunkDebugUniforms } from "./meshing/ChunkMaterials";
+import type { GameRefs, ChunkDiff, BlockPosition, BlockChange } from "./types";
+import { GameEvents } from "./events/EventBus";
+import type { ChunkEvent } from "./events/EventBus";
+
+// Instancia global del pool de terreno, compartida entre mundos como la de mallas
+const terrainWorkerPoolSingleton: { pool: TerrainWorkerPool | null } = { pool: null };
+
+// Los chunks a esta distancia (en chunks) del jugador se generan en el hilo
+// principal para que nunca pise ni choque con un chunk sin datos
+const SYNC_GENERATION_DISTANCE = 1;
+
+// Un bloque y sus seis vecinos: las celdas de líquido que puede afectar un cambio
+const LIQUID_NEIGHBORHOOD: [number, number, number][] = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+];
 
 export class World {
   public size: number;
@@ -15,24 +43,47 @@ export class World {
 
   private gameRefs: GameRefs;
   public activeChunks: Map<string, Chunk>;
-  private chunkDataStore: Map<string, string[][][]>;
-  private blockPrototypes: Map<string, Block>;
+  private chunkDataStore: Map<string, Uint16Array>;
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
   public renderDistanceInChunks: number = 8; // Cambiado de 4 a 8
   private remeshQueue: Set<string>;
 
   public worldSeed: string;
 
+  // Diferencias guardadas respecto al terreno generado, indexadas por clave de chunk
+  private savedChunkDiffs: Map<string, ChunkDiff>;
+  // Chunks modificados por el jugador desde el último guardado
+  private modifiedChunkKeys: Set<string> = new Set();
+
   public debugMaterialMode: "none" | "light" | "materialId" = "none";
 
+  // Flujo del agua; GameLogic lo hace avanzar en cada paso fijo
+  public liquids: LiquidSimulator;
+
+  // Luz del cielo y de los bloques de los chunks activos
+  public lighting: VoxelLightEngine;
+
+  // Cambios de bloques para deshacer y rehacer (Ctrl+Z / Ctrl+Y)
+  public history: EditHistory;
+
+  // Oclusión ambiental en las mallas (ajuste gráfico); cambiarla remalla los chunks activos
+  public ambientOcclusion: boolean = SettingsService.getInstance().isAmbientOcclusionEnabled();
+
   // Añadir un registro para evitar colocaciones duplicadas
   private _recentBlockOperations: Map<string, number> = new Map();
   private readonly BLOCK_OPERATION_COOLDOWN = 100; // ms
 
-  constructor(refs: GameRefs, seed: string) {
+  constructor(
+    refs: GameRefs,
+    seed: string,
+    savedChunkDiffs: Map<string, ChunkDiff> = new Map(),
+    layers: number = DEFAULT_WORLD_HEIGHT
+  ) {
     this.gameRefs = refs;
     this.worldSeed = seed;
+    this.savedChunkDiffs = savedChunkDiffs;
     this.size = 128;
-    this.layers = 128;
+    this.layers = layers;
     this.skyHeight = this.layers * 2;
     this.voidHeight = 64;
     this.skyColor = 0xf1f1f1;
@@ -41,20 +92,20 @@ export class World {
     this.activeChunks = new Map();
     this.chunkDataStore = new Map();
     this.remeshQueue = new Set();
-    this.blockPrototypes = new Map();
+    this.liquids = new LiquidSimulator(this);
+    this.lighting = new VoxelLightEngine(this);
+    this.history = new EditHistory(this);
+  }
 
-    if (!this.gameRefs.blocks) {
-      console.error(
-        "World: Block prototypes not found in gameRefs. Ensure ThreeSetup populates gameRefs.blocks."
-      );
-    } else {
-      this.gameRefs.blocks.forEach((block: Block) => {
-        const blockNameKey = block.mesh.name.startsWith("Block_")
-          ? block.mesh.name.substring(6)
-          : block.mesh.name;
-        this.blockPrototypes.set(blockNameKey, block);
-      });
-    }
+  /**
+   * Bioma de la columna que contiene el punto (worldX, worldZ). Depende solo
+   * de la semilla, así que no hace falta que el chunk esté cargado.
+   */
+  public getBiomeAt(worldX: number, worldZ: number): BiomeDefinition {
+    return TerrainGenerator.forSeed(parseInt(this.worldSeed), this.layers).getBiome(
+      Math.floor(worldX),
+      Math.floor(worldZ)
+    );
   }
 
   public getSpawnHeight(
@@ -66,24 +117,16 @@ export class World {
     const chunkZ = Math.floor(worldZ / CHUNK_SIZE);
     const key = `${chunkX},${chunkZ}`;
 
-    let blockData: string[][][] | undefined;
+    let blockData: Uint16Array | undefined;
     const activeChunk = this.activeChunks.get(key);
 
-    if (activeChunk) {
+    if (activeChunk && !activeChunk.isGenerating) {
       blockData = activeChunk.blocks;
     } else {
       blockData = this.chunkDataStore.get(key);
       if (!blockData) {
-        const tempChunk = new Chunk(
-          this,
-          chunkX,
-          chunkZ,
-          this.blockPrototypes,
-          undefined,
-          parseInt(this.worldSeed)
-        );
-        blockData = tempChunk.blocks;
-        // DO NOT store tempChunk.blocks in chunkDataStore here for getSpawnHeight if it's just a temporary read
+        // DO NOT store the generated blocks in chunkDataStore here for getSpawnHeight if it's just a temporary read
+        blockData = this.generateChunkBlocks(chunkX, chunkZ);
       }
     }
 
@@ -100,16 +143,16 @@ export class World {
       ((Math.floor(worldZ) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
 
     for (let y = this.layers - 1; y >= 0; y--) {
-      const currentBlock = blockData[localX]?.[y]?.[localZ];
-      if (currentBlock !== undefined) {
-        if (ensureSolidGround) {
-          if (currentBlock !== "air" && currentBlock !== "waterBlock") {
-            return y + 1; // Spawn on top of this solid block
-          }
-        } else {
-          if (currentBlock !== "air") {
-            return y + 1; // Spawn on top of any non-air block
-          }
+      const currentBlock = this.blockRegistry.getName(
+        blockData[getBlockIndex(localX, y, localZ)]
+      );
+      if (ensureSolidGround) {
+        if (this.blockRegistry.isSolid(currentBlock)) {
+          return y + 1; // Spawn on top of this solid block
+        }
+      } else {
+        if (currentBlock !== "air") {
+          return y + 1; // Spawn on top of any non-air block
         }
       }
     }
@@ -140,11 +183,23 @@ export class World {
         const chunkZ = playerChunkZ + dChunkZ;
         const key = `${chunkX},${chunkZ}`;
         
+        // Calcular distancia al cuadrado (evita calcular raíz cuadrada)
+        const distanceSquared = dChunkX * dChunkX + dChunkZ * dChunkZ;
+        const activeChunk = this.activeChunks.get(key);
         // Si el chunk ya está cargado, no lo agregamos a la lista
-        if (!this.activeChunks.has(key)) {
-          // Calcular distancia al cuadrado (evita calcular raíz cuadrada)
-          const distanceSquared = dChunkX * dChunkX + dChunkZ * dChunkZ;
+        if (!activeChunk) {
           chunksToLoad.push({ x: chunkX, z: chunkZ, distance: distanceSquared });
+        } else if (
+          activeChunk.isGenerating &&
+          distanceSquared <= SYNC_GENERATION_DISTANCE * SYNC_GENERATION_DISTANCE
+        ) {
+          // El jugador ha llegado antes que el worker: no esperar más
+          this.finishChunkGeneration(
+            key,
+            activeChunk,
+            this.generateChunkBlocks(chunkX, chunkZ),
+            true
+          );
         }
       }
     }
@@ -158,7 +213,9 @@ export class World {
     for (const chunk of chunksToLoad) {
       // Determinar si este chunk debe tener prioridad alta
       const isPriority = chunk.distance <= MAX_PRIORITY_DISTANCE * MAX_PRIORITY_DISTANCE;
-      this.loadChunk(chunk.x, chunk.z, isPriority);
+      const generateInWorker =
+        chunk.distance > SYNC_GENERATION_DISTANCE * SYNC_GENERATION_DISTANCE;
+      this.loadChunk(chunk.x, chunk.z, isPriority, generateInWorker);
       
       // Asegurarse de que los chunks adyacentes también se actualizan para evitar problemas de agua en los bordes
       // Solo para chunks que se acaban de cargar y que están a distancia razonable
@@ -196,17 +253,22 @@ export class World {
 
     this.activeChunks.forEach((chunk) => {
       if (!chunk.chunkRoot) return;
-
-      // Use the isChunkInFrustum method with the passed-in frustum
-      if (this.isChunkInFrustum(frustum, chunk)) {
-        chunk.chunkRoot.visible = true;
-      } else {
-        chunk.chunkRoot.visible = false;
-      }
+      // Cada sección se muestra u oculta según su propia caja
+      chunk.updateVisibility(frustum);
     });
   }
 
-  public loadChunk(chunkX: number, chunkZ: number, priority: boolean = false): void {
+  /**
+   * Activa un chunk. Si no hay datos guardados en memoria su terreno se genera
+   * en el hilo principal o, con `generateInWorker`, en el pool de workers; en
+   * ese caso el chunk queda en estado "generando" hasta que llegan los bloques.
+   */
+  public loadChunk(
+    chunkX: number,
+    chunkZ: number,
+    priority: boolean = false,
+    generateInWorker: boolean = false
+  ): void {
     const key = `${chunkX},${chunkZ}`;
     if (this.activeChunks.has(key)) return;
 
@@ -215,12 +277,16 @@ export class World {
       this,
       chunkX,
       chunkZ,
-      this.blockPrototypes,
       existingBlockData,
-      parseInt(this.worldSeed)
+      parseInt(this.worldSeed),
+      !existingBlockData && generateInWorker
     );
 
-    if (!existingBlockData && newChunk.wasGenerated) {
+    if (newChunk.isGenerating) {
+      this.requestChunkGeneration(key, newChunk, priority);
+    } else if (!existingBlockData && newChunk.wasGenerated) {
+      // Reaplicar los cambios guardados del jugador sobre el terreno recién generado
+      this.applySavedDiff(key, newChunk.blocks);
       // Only store if freshly generated
       this.chunkDataStore.set(key, newChunk.blocks);
     }
@@ -234,6 +300,9 @@ export class World {
       );
     }
     
+    if (newChunk.isGenerating) return;
+    this.lighting.initializeChunk(newChunk);
+
     // Si el chunk es prioritario, procesarlo inmediatamente
     if (priority && this.gameRefs.player) {
       // Procesar este chunk inmediatamente
@@ -244,10 +313,73 @@ export class World {
     }
   }
 
+  /**
+   * Pide el terreno de un chunk al pool de workers. Cuando llegan los bloques
+   * se reaplican los cambios guardados y el chunk (y sus vecinos, cuyas caras
+   * del borde dependen de él) se vuelven a mallar.
+   */
+  private requestChunkGeneration(
+    key: string,
+    chunk: Chunk,
+    priority: boolean
+  ): void {
+    if (!terrainWorkerPoolSingleton.pool) {
+      terrainWorkerPoolSingleton.pool = new TerrainWorkerPool();
+    }
+    terrainWorkerPoolSingleton.pool.enqueueTask({
+      chunkX: chunk.worldX,
+      chunkZ: chunk.worldZ,
+      worldSeed: parseInt(this.worldSeed),
+      layers: this.layers,
+      isStale: () => this.activeChunks.get(key) !== chunk,
+      onComplete: (blocks) => {
+        // El chunk se descargó, se recargó o ya se generó en el hilo principal
+        if (this.activeChunks.get(key) !== chunk || !chunk.isGenerating) return;
+        this.applySavedDiff(key, blocks);
+        this.finishChunkGeneration(key, chunk, blocks, priority);
+      },
+      onError: () => {
+        // Se genera en el hilo principal para que el chunk no se quede a medias
+        if (this.activeChunks.get(key) !== chunk || !chunk.isGenerating) return;
+        const blocks = this.generateChunkBlocks(chunk.worldX, chunk.worldZ);
+        this.finishChunkGeneration(key, chunk, blocks, priority);
+      },
+    });
+  }
+
+  private finishChunkGeneration(
+    key: string,
+    chunk: Chunk,
+    blocks: Uint16Array,
+    priority: boolean
+  ): void {
+    chunk.setGeneratedBlocks(blocks);
+    this.chunkDataStore.set(key, blocks);
+    this.lighting.initializeChunk(chunk);
+
+    if (priority && this.gameRefs.player) {
+      chunk.buildMesh();
+    } else {
+      this.queueChunkRemesh(chunk.worldX, chunk.worldZ);
+    }
+    this.ensureAdjacentChunksUpdated(chunk.worldX, chunk.worldZ);
+  }
+
+  /**
+   * Terreno sin modificar de un chunk según la semilla del mundo.
+   */
+  private generatePristineBlocks(chunkX: number, chunkZ: number): Uint16Array {
+    return TerrainGenerator.forSeed(parseInt(this.worldSeed), this.layers).generateChunk(
+      chunkX,
+      chunkZ
+    );
+  }
+
   private unloadChunkByKey(key: string): void {
     const chunk = this.activeChunks.get(key);
     if (chunk) {
-      if (chunk.wasGenerated) {
+      // Un chunk que aún se está generando no tiene datos que conservar
+      if (chunk.wasGenerated && !chunk.isGenerating) {
         // If it was generated, ensure its data is in the store before unload.
         this.chunkDataStore.set(key, chunk.blocks);
       }
@@ -256,9 +388,94 @@ export class World {
       }
       chunk.dispose();
       this.activeChunks.delete(key);
+
+      const event: ChunkEvent = {
+        chunkKey: key,
+        position: { x: chunk.worldX, z: chunk.worldZ },
+      };
+      this.gameRefs.eventBus.emit(GameEvents.CHUNK_UNLOAD, event);
+    }
+  }
+
+  /**
+   * Genera los bloques de un chunk que no está en memoria, incluyendo los
+   * cambios guardados del jugador.
+   */
+  private generateChunkBlocks(chunkX: number, chunkZ: number): Uint16Array {
+    const blocks = this.generatePristineBlocks(chunkX, chunkZ);
+    this.applySavedDiff(`${chunkX},${chunkZ}`, blocks);
+    return blocks;
+  }
+
+  private applySavedDiff(key: string, blocks: Uint16Array): void {
+    const diff = this.savedChunkDiffs.get(key);
+    if (!diff) return;
+    for (const [x, y, z, blockType] of diff) {
+      if (y >= 0 && y < this.layers) {
+        blocks[getBlockIndex(x, y, z)] = this.blockRegistry.getId(blockType);
+      }
     }
   }
 
+  public isChunkModified(key: string): boolean {
+    return this.modifiedChunkKeys.has(key);
+  }
+
+  public getModifiedChunkKeys(): string[] {
+    return Array.from(this.modifiedChunkKeys);
+  }
+
+  /**
+   * Calcula las diferencias entre los bloques actuales de un chunk y el terreno
+   * que genera la semilla. Devuelve null si el chunk no tiene datos en memoria.
+   */
+  public computeChunkDiff(key: string): ChunkDiff | null {
+    const activeChunk = this.activeChunks.get(key);
+    const blocks =
+      activeChunk && !activeChunk.isGenerating
+        ? activeChunk.blocks
+        : this.chunkDataStore.get(key);
+    if (!blocks) return null;
+
+    const [chunkX, chunkZ] = key.split(",").map(Number);
+    const pristine = this.generatePristineBlocks(chunkX, chunkZ);
+
+    // Los guardados usan nombres de bloque: los ids numéricos no son estables entre versiones
+    const diff: ChunkDiff = [];
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let y = 0; y < this.layers; y++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+          const index = getBlockIndex(x, y, z);
+          if (blocks[index] !== pristine[index]) {
+            diff.push([x, y, z, this.blockRegistry.getName(blocks[index])]);
+          }
+        }
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Marca un chunk como guardado. La diferencia se conserva para poder
+   * regenerarlo correctamente si sus datos se descartan de memoria.
+   */
+  public markChunkSaved(key: string, diff: ChunkDiff): void {
+    this.modifiedChunkKeys.delete(key);
+    if (diff.length > 0) {
+      this.savedChunkDiffs.set(key, diff);
+    } else {
+      this.savedChunkDiffs.delete(key);
+    }
+  }
+
+  /**
+   * Vuelve a marcar un chunk como pendiente de guardar, p. ej. cuando falla la
+   * escritura en IndexedDB, para que sus cambios se reintenten.
+   */
+  public markChunkUnsaved(key: string): void {
+    this.modifiedChunkKeys.add(key);
+  }
+
   public getBlock(
     worldX: number,
     worldY: number,
@@ -274,6 +491,8 @@ export class World {
     const chunk = this.activeChunks.get(key);
 
     if (chunk) {
+      // Los bloques de un chunk en generación son aire provisional
+      if (chunk.isGenerating) return null;
       const localX =
         ((Math.floor(worldX) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
       const localZ =
@@ -286,80 +505,14 @@ export class World {
           ((Math.floor(worldX) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
         const localZ =
           ((Math.floor(worldZ) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-        if (storedData[localX]?.[localY]?.[localZ] !== undefined) {
-          return storedData[localX][localY][localZ];
-        }
-      }
-      
-      // Especial: Para mejorar la continuidad del agua entre chunks
-      // Verificar si está cerca de otro chunk con agua en sus bordes
-      if (this.mightBeWaterAtChunkBoundary(worldX, worldY, worldZ)) {
-        return "waterBlock";
+        return this.blockRegistry.getName(
+          storedData[getBlockIndex(localX, localY, localZ)]
+        );
       }
-    }
-    return "air";
-  }
 
-  /**
-   * Determina si una posición podría ser agua basándose en chunks vecinos.
-   * Esto ayuda a evitar "paredes" de agua en los límites de los chunks.
-   */
-  private mightBeWaterAtChunkBoundary(worldX: number, worldY: number, worldZ: number): boolean {
-    // Si la posición no está cerca del borde de un chunk, no es relevante
-    const localX = ((Math.floor(worldX) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    const localZ = ((Math.floor(worldZ) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    
-    const isNearXBoundary = localX === 0 || localX === CHUNK_SIZE - 1;
-    const isNearZBoundary = localZ === 0 || localZ === CHUNK_SIZE - 1;
-    
-    if (!isNearXBoundary && !isNearZBoundary) {
-      return false;
-    }
-    
-    // Calcular qué chunks adyacentes deberíamos verificar
-    const chunkX = Math.floor(worldX / CHUNK_SIZE);
-    const chunkZ = Math.floor(worldZ / CHUNK_SIZE);
-    
-    // Direcciones a revisar basadas en la posición en el borde
-    const directionsToCheck = [];
-    
-    if (localX === 0) directionsToCheck.push([-1, 0]);
-    if (localX === CHUNK_SIZE - 1) directionsToCheck.push([1, 0]);
-    if (localZ === 0) directionsToCheck.push([0, -1]);
-    if (localZ === CHUNK_SIZE - 1) directionsToCheck.push([0, 1]);
-    
-    // Verificar chunks adyacentes
-    for (const [dx, dz] of directionsToCheck) {
-      const adjacentChunkX = chunkX + dx;
-      const adjacentChunkZ = chunkZ + dz;
-      const adjacentChunkKey = `${adjacentChunkX},${adjacentChunkZ}`;
-      
-      // Primero intentar con chunks activos
-      const adjacentChunk = this.activeChunks.get(adjacentChunkKey);
-      if (adjacentChunk) {
-        // Calcular coordenadas locales en el chunk adyacente
-        const adjacentLocalX = dx === -1 ? CHUNK_SIZE - 1 : (dx === 1 ? 0 : localX);
-        const adjacentLocalZ = dz === -1 ? CHUNK_SIZE - 1 : (dz === 1 ? 0 : localZ);
-        
-        const blockType = adjacentChunk.getBlock(adjacentLocalX, Math.floor(worldY), adjacentLocalZ);
-        if (blockType === "waterBlock") {
-          return true;
-        }
-      } else {
-        // Intentar con datos almacenados
-        const storedData = this.chunkDataStore.get(adjacentChunkKey);
-        if (storedData) {
-          const adjacentLocalX = dx === -1 ? CHUNK_SIZE - 1 : (dx === 1 ? 0 : localX);
-          const adjacentLocalZ = dz === -1 ? CHUNK_SIZE - 1 : (dz === 1 ? 0 : localZ);
-          
-          if (storedData[adjacentLocalX]?.[Math.floor(worldY)]?.[adjacentLocalZ] === "waterBlock") {
-            return true;
-          }
-        }
-      }
+      // Sin datos: quien lo consulte decide (los mallados no dibujan agua contra él)
+      return null;
     }
-    
-    return false;
   }
 
   public setBlock(
@@ -399,49 +552,36 @@ export class World {
     const cZ = Math.floor(worldZ / CHUNK_SIZE);
     const lY = Math.floor(worldY);
 
-    if (lY < 0 || lY >= this.layers) {
-      console.warn(
-        `Attempted to set block out of Y bounds: ${worldX},${worldY},${worldZ}`
-      );
-      return false;
-    }
+    // Fuera del mundo no hay bloques; al jugador se le avisa antes de
+    // intentarlo (PlayerBlockInteractionService)
+    if (lY < 0 || lY >= this.layers) return false;
 
     const key = `${cX},${cZ}`;
     let chunk = this.activeChunks.get(key);
 
     if (!chunk) {
       let blockData = this.chunkDataStore.get(key);
-      let wasChunkGenerated = false;
       if (!blockData) {
-        const tempChunkGen = new Chunk(
-          this,
-          cX,
-          cZ,
-          this.blockPrototypes,
-          undefined,
-          parseInt(this.worldSeed)
-        );
-        blockData = tempChunkGen.blocks;
-        wasChunkGenerated = tempChunkGen.wasGenerated;
-        if (wasChunkGenerated) {
-          this.chunkDataStore.set(key, blockData);
-        }
+        blockData = this.generateChunkBlocks(cX, cZ);
+        this.chunkDataStore.set(key, blockData);
       }
       const lX = ((Math.floor(worldX) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
       const lZ = ((Math.floor(worldZ) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
 
-      if (blockData[lX]?.[lY]?.[lZ] !== blockType) {
-        if (!blockData[lX]) blockData[lX] = [];
-        if (!blockData[lX][lY]) blockData[lX][lY] = [];
-        blockData[lX][lY][lZ] = blockType;
+      const blockIndex = getBlockIndex(lX, lY, lZ);
+      const blockId = this.blockRegistry.getId(blockType);
+      if (blockData[blockIndex] !== blockId) {
+        this.recordBlockChange(worldX, lY, worldZ, blockData[blockIndex], blockId);
+        blockData[blockIndex] = blockId;
         this.chunkDataStore.set(key, blockData); // Ensure updated data is stored
+        this.modifiedChunkKeys.add(key);
 
-        this.queueChunkRemesh(cX, cZ);
+        this.queueChunkRemesh(cX, cZ, lY);
         // Queue neighbors for remesh, as this block change might affect their visible faces
-        if (lX === 0) this.queueChunkRemesh(cX - 1, cZ);
-        if (lX === CHUNK_SIZE - 1) this.queueChunkRemesh(cX + 1, cZ);
-        if (lZ === 0) this.queueChunkRemesh(cX, cZ - 1);
-        if (lZ === CHUNK_SIZE - 1) this.queueChunkRemesh(cX, cZ + 1);
+        if (lX === 0) this.queueChunkRemesh(cX - 1, cZ, lY);
+        if (lX === CHUNK_SIZE - 1) this.queueChunkRemesh(cX + 1, cZ, lY);
+        if (lZ === 0) this.queueChunkRemesh(cX, cZ - 1, lY);
+        if (lZ === CHUNK_SIZE - 1) this.queueChunkRemesh(cX, cZ + 1, lY);
         return true;
       }
       return false;
@@ -452,24 +592,407 @@ export class World {
       ((Math.floor(worldX) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
     const localZ =
       ((Math.floor(worldZ) % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    return chunk.setBlock(localX, lY, localZ, blockType);
+    const blockIndex = getBlockIndex(localX, lY, localZ);
+    const previousId = chunk.blocks[blockIndex];
+    const changed = chunk.setBlock(localX, lY, localZ, blockType);
+    if (changed) {
+      this.recordBlockChange(worldX, lY, worldZ, previousId, chunk.blocks[blockIndex]);
+      // El agua vecina puede fluir hacia el hueco (o dejar de tener salida)
+      this.liquids.scheduleNeighborhood(Math.floor(worldX), lY, Math.floor(worldZ));
+      this.lighting.onBlockChanged(
+        Math.floor(worldX),
+        lY,
+        Math.floor(worldZ),
+        previousId,
+        chunk.blocks[blockIndex]
+      );
+    }
+    return changed;
+  }
+
+  private recordBlockChange(
+    worldX: number,
+    worldY: number,
+    worldZ: number,
+    previousId: number,
+    newId: number
+  ): void {
+    this.history.record([
+      {
+        x: Math.floor(worldX),
+        y: worldY,
+        z: Math.floor(worldZ),
+        before: this.blockRegistry.getName(previousId),
+        after: this.blockRegistry.getName(newId),
+      },
+    ]);
+  }
+
+  /**
+   * Cambia un bloque por orden de la simulación de líquidos: sin las reglas
+   * de colocación del jugador y sin remallar, porque LiquidSimulator agrupa
+   * los remallados de cada paso. Solo actúa sobre chunks activos.
+   */
+  public setLiquidBlock(
+    worldX: number,
+    worldY: number,
+    worldZ: number,
+    blockType: string
+  ): boolean {
+    const chunkX = Math.floor(worldX / CHUNK_SIZE);
+    const chunkZ = Math.floor(worldZ / CHUNK_SIZE);
+    const chunk = this.activeChunks.get(`${chunkX},${chunkZ}`);
+    if (!chunk || chunk.isGenerating || worldY < 0 || worldY >= this.layers) {
+      return false;
+    }
+
+    const index = getBlockIndex(
+      worldX - chunkX * CHUNK_SIZE,
+      worldY,
+      worldZ - chunkZ * CHUNK_SIZE
+    );
+    const blockId = this.blockRegistry.getId(blockType);
+    const previousId = chunk.blocks[index];
+    if (previousId === blockId) return false;
+    chunk.blocks[index] = blockId;
+    this.notifyChunkUpdate(chunkX, chunkZ, chunk.blocks);
+    this.lighting.onBlockChanged(worldX, worldY, worldZ, previousId, blockId);
+    return true;
+  }
+
+  /** Rellena de blockType el prisma entre dos esquinas (incluidas) */
+  public fill(min: BlockPosition, max: BlockPosition, blockType: string): BlockChange[] {
+    return this.editRegion(min, max, () => blockType);
+  }
+
+  /** Cambia los bloques `from` del prisma por `to` */
+  public replace(
+    min: BlockPosition,
+    max: BlockPosition,
+    from: string,
+    to: string
+  ): BlockChange[] {
+    return this.editRegion(min, max, (_x, _y, _z, current) => (current === from ? to : null));
+  }
+
+  /** Caja hueca: el borde del prisma de blockType y el interior de aire */
+  public hollow(min: BlockPosition, max: BlockPosition, blockType: string): BlockChange[] {
+    const minX = Math.floor(Math.min(min.x, max.x));
+    const maxX = Math.floor(Math.max(min.x, max.x));
+    const minY = Math.floor(Math.min(min.y, max.y));
+    const maxY = Math.floor(Math.max(min.y, max.y));
+    const minZ = Math.floor(Math.min(min.z, max.z));
+    const maxZ = Math.floor(Math.max(min.z, max.z));
+    return this.editRegion(min, max, (x, y, z) =>
+      x === minX || x === maxX || y === minY || y === maxY || z === minZ || z === maxZ
+        ? blockType
+        : "air"
+    );
+  }
+
+  /** Esfera maciza de blockType centrada en un bloque */
+  public sphere(center: BlockPosition, radius: number, blockType: string): BlockChange[] {
+    const cx = Math.floor(center.x);
+    const cy = Math.floor(center.y);
+    const cz = Math.floor(center.z);
+    const r = Math.max(0, Math.floor(radius));
+    // Con el medio bloque de más la superficie no queda con picos sueltos en los polos
+    const limit = (r + 0.5) ** 2;
+    return this.editRegion(
+      { x: cx - r, y: cy - r, z: cz - r },
+      { x: cx + r, y: cy + r, z: cz + r },
+      (x, y, z) => ((x - cx) ** 2 + (y - cy) ** 2 + (z - cz) ** 2 <= limit ? blockType : null)
+    );
+  }
+
+  /**
+   * Copia el prisma entre srcMin y srcMax de forma que su esquina mínima
+   * quede en dest. Los bloques se leen antes de escribir, así que origen y
+   * destino pueden solaparse.
+   */
+  public clone(srcMin: BlockPosition, srcMax: BlockPosition, dest: BlockPosition): BlockChange[] {
+    const minX = Math.floor(Math.min(srcMin.x, srcMax.x));
+    const minY = Math.floor(Math.min(srcMin.y, srcMax.y));
+    const minZ = Math.floor(Math.min(srcMin.z, srcMax.z));
+    const sizeX = Math.floor(Math.max(srcMin.x, srcMax.x)) - minX + 1;
+    const sizeY = Math.floor(Math.max(srcMin.y, srcMax.y)) - minY + 1;
+    const sizeZ = Math.floor(Math.max(srcMin.z, srcMax.z)) - minZ + 1;
+
+    const source: string[] = new Array(sizeX * sizeY * sizeZ);
+    for (let y = 0; y < sizeY; y++) {
+      for (let z = 0; z < sizeZ; z++) {
+        for (let x = 0; x < sizeX; x++) {
+          source[(y * sizeZ + z) * sizeX + x] = this.getBlockForEdit(minX + x, minY + y, minZ + z);
+        }
+      }
+    }
+
+    const destX = Math.floor(dest.x);
+    const destY = Math.floor(dest.y);
+    const destZ = Math.floor(dest.z);
+    return this.editRegion(
+      { x: destX, y: destY, z: destZ },
+      { x: destX + sizeX - 1, y: destY + sizeY - 1, z: destZ + sizeZ - 1 },
+      (x, y, z) => source[((y - destY) * sizeZ + (z - destZ)) * sizeX + (x - destX)]
+    );
+  }
+
+  /**
+   * Edición masiva: `edit` decide el bloque nuevo de cada posición del
+   * prisma (null = no tocarla). Lo que queda fuera de las capas del mundo se
+   * ignora. Ver applyBulkEdit.
+   */
+  public editRegion(
+    min: BlockPosition,
+    max: BlockPosition,
+    edit: (x: number, y: number, z: number, current: string) => string | null
+  ): BlockChange[] {
+    const minX = Math.floor(Math.min(min.x, max.x));
+    const maxX = Math.floor(Math.max(min.x, max.x));
+    const minY = Math.max(0, Math.floor(Math.min(min.y, max.y)));
+    const maxY = Math.min(this.layers - 1, Math.floor(Math.max(min.y, max.y)));
+    const minZ = Math.floor(Math.min(min.z, max.z));
+    const maxZ = Math.floor(Math.max(min.z, max.z));
+    if (minY > maxY) return [];
+
+    const chunks: [number, number][] = [];
+    const lastChunkX = Math.floor(maxX / CHUNK_SIZE);
+    const lastChunkZ = Math.floor(maxZ / CHUNK_SIZE);
+    for (let chunkX = Math.floor(minX / CHUNK_SIZE); chunkX <= lastChunkX; chunkX++) {
+      for (let chunkZ = Math.floor(minZ / CHUNK_SIZE); chunkZ <= lastChunkZ; chunkZ++) {
+        chunks.push([chunkX, chunkZ]);
+      }
+    }
+
+    return this.applyBulkEdit(chunks, (chunkX, chunkZ, blocks, set) => {
+      const baseX = chunkX * CHUNK_SIZE;
+      const baseZ = chunkZ * CHUNK_SIZE;
+      const toX = Math.min(maxX, baseX + CHUNK_SIZE - 1);
+      const toZ = Math.min(maxZ, baseZ + CHUNK_SIZE - 1);
+      for (let y = minY; y <= maxY; y++) {
+        for (let z = Math.max(minZ, baseZ); z <= toZ; z++) {
+          for (let x = Math.max(minX, baseX); x <= toX; x++) {
+            const index = getBlockIndex(x - baseX, y, z - baseZ);
+            const after = edit(x, y, z, this.blockRegistry.getName(blocks[index]));
+            if (after !== null) set(x, y, z, after);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Cambia bloques sueltos de una vez (deshacer, rehacer...). Si una posición
+   * se repite gana la última. Ver applyBulkEdit.
+   */
+  public setBlocks(
+    blocks: Iterable<BlockPosition & { blockType: string }>
+  ): BlockChange[] {
+    const byChunk: Map<string, (BlockPosition & { blockType: string })[]> = new Map();
+    for (const block of blocks) {
+      if (block.y < 0 || block.y >= this.layers) continue;
+      const key = `${Math.floor(block.x / CHUNK_SIZE)},${Math.floor(block.z / CHUNK_SIZE)}`;
+      const list = byChunk.get(key);
+      if (list) {
+        list.push(block);
+      } else {
+        byChunk.set(key, [block]);
+      }
+    }
+
+    const chunks = Array.from(
+      byChunk.keys(),
+      (key) => key.split(",").map(Number) as [number, number]
+    );
+    return this.applyBulkEdit(chunks, (chunkX, chunkZ, _blocks, set) => {
+      byChunk.get(`${chunkX},${chunkZ}`)!.forEach(({ x, y, z, blockType }) =>
+        set(Math.floor(x), Math.floor(y), Math.floor(z), blockType)
+      );
+    });
+  }
+
+  /**
+   * Núcleo de las ediciones masivas: `editChunk` cambia con `set` los bloques
+   * de cada chunk de la lista. A diferencia de setBlock no hay reglas de
+   * colocación ni espera entre cambios en la misma posición; cada chunk
+   * afectado se remalla una sola vez, su luz se recalcula de una pasada y
+   * todos los cambios son un único paso del historial. También cambia los
+   * chunks no cargados de chunkDataStore. Los que aún se están generando se
+   * saltan, porque su terreno sobrescribiría el cambio.
+   */
+  private applyBulkEdit(
+    chunks: [number, number][],
+    editChunk: (
+      chunkX: number,
+      chunkZ: number,
+      blocks: Uint16Array,
+      set: (x: number, y: number, z: number, blockType: string) => void
+    ) => void
+  ): BlockChange[] {
+    const changes: BlockChange[] = [];
+    // Tramo de capas [mínima, máxima] a remallar por chunk, sin repetir chunks
+    const remeshRanges: Map<string, [number, number]> = new Map();
+    const addRemesh = (chunkX: number, chunkZ: number, fromY: number, toY: number) => {
+      const key = `${chunkX},${chunkZ}`;
+      const range = remeshRanges.get(key);
+      remeshRanges.set(
+        key,
+        range ? [Math.min(range[0], fromY), Math.max(range[1], toY)] : [fromY, toY]
+      );
+    };
+    const relitChunks: Set<Chunk> = new Set();
+
+    for (const [chunkX, chunkZ] of chunks) {
+      const blocks = this.getBlocksForEdit(chunkX, chunkZ);
+      if (!blocks) continue;
+      const baseX = chunkX * CHUNK_SIZE;
+      const baseZ = chunkZ * CHUNK_SIZE;
+      let changedMinY = Infinity;
+      let changedMaxY = -Infinity;
+      let affectsLight = false;
+      // Bordes del chunk con cambios: [-X, +X, -Z, +Z]
+      const edges = [false, false, false, false];
+
+      editChunk(chunkX, chunkZ, blocks, (x, y, z, blockType) => {
+        const localX = x - baseX;
+        const localZ = z - baseZ;
+        const index = getBlockIndex(localX, y, localZ);
+        const previousId = blocks[index];
+        const newId = this.blockRegistry.getId(blockType);
+        if (previousId === newId) return;
+        blocks[index] = newId;
+        changes.push({
+          x,
+          y,
+          z,
+          before: this.blockRegistry.getName(previousId),
+          after: this.blockRegistry.getName(newId),
+        });
+        changedMinY = Math.min(changedMinY, y);
+        changedMaxY = Math.max(changedMaxY, y);
+        affectsLight ||= this.changesLight(previousId, newId);
+        edges[0] ||= localX === 0;
+        edges[1] ||= localX === CHUNK_SIZE - 1;
+        edges[2] ||= localZ === 0;
+        edges[3] ||= localZ === CHUNK_SIZE - 1;
+      });
+      if (changedMinY > changedMaxY) continue;
+
+      this.notifyChunkUpdate(chunkX, chunkZ, blocks);
+      addRemesh(chunkX, chunkZ, changedMinY, changedMaxY);
+      // Las caras del borde de los vecinos dependen de este chunk
+      if (edges[0]) addRemesh(chunkX - 1, chunkZ, changedMinY, changedMaxY);
+      if (edges[1]) addRemesh(chunkX + 1, chunkZ, changedMinY, changedMaxY);
+      if (edges[2]) addRemesh(chunkX, chunkZ - 1, changedMinY, changedMaxY);
+      if (edges[3]) addRemesh(chunkX, chunkZ + 1, changedMinY, changedMaxY);
+
+      // La luz de los cambios llega como mucho a los chunks de alrededor (también en diagonal)
+      if (affectsLight && this.activeChunks.has(`${chunkX},${chunkZ}`)) {
+        for (let dx = -1; dx <= 1; dx++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            const neighbor = this.activeChunks.get(`${chunkX + dx},${chunkZ + dz}`);
+            if (neighbor && !neighbor.isGenerating) relitChunks.add(neighbor);
+          }
+        }
+      }
+    }
+
+    if (relitChunks.size > 0) {
+      this.lighting.relightChunks(Array.from(relitChunks));
+      relitChunks.forEach((chunk) => addRemesh(chunk.worldX, chunk.worldZ, 0, this.layers - 1));
+    }
+    remeshRanges.forEach(([fromY, toY], key) => {
+      const [chunkX, chunkZ] = key.split(",").map(Number);
+      this.queueChunkRemesh(chunkX, chunkZ, fromY, toY);
+    });
+    this.scheduleLiquidsAround(changes);
+    this.history.record(changes);
+    return changes;
+  }
+
+  /**
+   * Bloques de un chunk para editarlos en sitio: los del chunk activo o los
+   * guardados (generándolos si hace falta). null si se está generando.
+   */
+  private getBlocksForEdit(chunkX: number, chunkZ: number): Uint16Array | null {
+    const key = `${chunkX},${chunkZ}`;
+    const chunk = this.activeChunks.get(key);
+    if (chunk) return chunk.isGenerating ? null : chunk.blocks;
+    let blocks = this.chunkDataStore.get(key);
+    if (!blocks) {
+      blocks = this.generateChunkBlocks(chunkX, chunkZ);
+      this.chunkDataStore.set(key, blocks);
+    }
+    return blocks;
+  }
+
+  /** Como getBlock, pero también lee los chunks no cargados ni guardados */
+  private getBlockForEdit(worldX: number, worldY: number, worldZ: number): string {
+    if (worldY < 0 || worldY >= this.layers) return "air";
+    const chunkX = Math.floor(worldX / CHUNK_SIZE);
+    const chunkZ = Math.floor(worldZ / CHUNK_SIZE);
+    const blocks = this.getBlocksForEdit(chunkX, chunkZ);
+    if (!blocks) return "air";
+    return this.blockRegistry.getName(
+      blocks[getBlockIndex(worldX - chunkX * CHUNK_SIZE, worldY, worldZ - chunkZ * CHUNK_SIZE)]
+    );
+  }
+
+  private changesLight(previousId: number, newId: number): boolean {
+    const previous = this.blockRegistry.getDefinitionById(previousId);
+    const next = this.blockRegistry.getDefinitionById(newId);
+    return (
+      previous.transparent !== next.transparent || previous.lightEmission !== next.lightEmission
+    );
+  }
+
+  /**
+   * Programa los líquidos que tocan los bloques cambiados, como hace
+   * setBlock, pero sin llenar la cola de la simulación con celdas secas.
+   */
+  private scheduleLiquidsAround(changes: BlockChange[]): void {
+    for (const { x, y, z } of changes) {
+      for (const [dx, dy, dz] of LIQUID_NEIGHBORHOOD) {
+        if (this.blockRegistry.isLiquid(this.getBlock(x + dx, y + dy, z + dz))) {
+          this.liquids.scheduleUpdate(x + dx, y + dy, z + dz);
+        }
+      }
+    }
   }
 
   public notifyChunkUpdate(
     chunkX: number,
     chunkZ: number,
-    updatedBlockData: string[][][]
+    updatedBlockData: Uint16Array
   ): void {
     const key = `${chunkX},${chunkZ}`;
     this.chunkDataStore.set(key, updatedBlockData);
+    this.modifiedChunkKeys.add(key);
   }
 
-  public queueChunkRemesh(chunkX: number, chunkZ: number): void {
+  public setAmbientOcclusion(enabled: boolean): void {
+    if (this.ambientOcclusion === enabled) return;
+    this.ambientOcclusion = enabled;
+    this.activeChunks.forEach((chunk) => this.queueChunkRemesh(chunk.worldX, chunk.worldZ));
+  }
+
+  /**
+   * Pone en cola el remallado de un chunk. Con minY/maxY solo se marcan las
+   * secciones que tocan esas capas; sin ellas, el chunk entero.
+   */
+  public queueChunkRemesh(
+    chunkX: number,
+    chunkZ: number,
+    minY?: number,
+    maxY: number | undefined = minY
+  ): void {
     const key = `${chunkX},${chunkZ}`;
     const chunk = this.activeChunks.get(key);
+    // Un chunk que se está generando se malla cuando llegan sus bloques
+    if (chunk?.isGenerating) return;
     if (chunk) {
       // Only mark for remesh if it's an active chunk
-      chunk.needsMeshUpdate = true;
+      chunk.markSectionsDirty(minY, maxY);
       this.remeshQueue.add(key);
     } else {
       // If chunk is not active, but we need to remesh it (e.g. after setBlock on non-active chunk data)
@@ -529,7 +1052,7 @@ export class World {
       if (chunk && chunk.needsMeshUpdate && !chunk.isCurrentlyRemeshing()) {
         // Marcar como remallando para evitar duplicados
         // chunk.isRemeshing = true; // Ya se gestiona internamente en updateMeshIfNeededAsync/remeshAsync
-        chunk.buildMesh(); // buildMesh debe poner needsMeshUpdate a false
+        chunk.buildMesh(); // Solo remalla las secciones marcadas
         // chunk.isRemeshing = false;
         this.remeshQueue.delete(key);
         processedCount++;
@@ -545,30 +1068,21 @@ export class World {
     return this.remeshQueue.size;
   }
 
+  /** Indica si alguna sección del chunk con caras visibles está dentro del frustum */
   public isChunkInFrustum(frustum: THREE.Frustum, chunk: Chunk): boolean {
-    if (!chunk.chunkRoot || !chunk.chunkRoot.children) {
-      return false; // Cannot check frustum if chunk root or children are missing
-    }
-
-    // Check if any mesh within the chunk intersects the frustum
-    for (const child of chunk.chunkRoot.children) {
-      if (child instanceof THREE.Mesh) {
-        if (frustum.intersectsObject(child)) {
-          return true; // At least one mesh is visible
-        }
-      }
-    }
-
-    return false; // No meshes in the chunk are visible within the frustum
+    return chunk.sections.some(
+      (section) => !section.isEmpty && frustum.intersectsBox(section.boundingBox)
+    );
   }
 
+  /**
+   * Cambia cómo pintan los chunks sus caras: normal, con los niveles de luz o
+   * con un color por textura. Los materiales son compartidos, así que no hace
+   * falta remallar.
+   */
   public setDebugMaterialMode(mode: "none" | "light" | "materialId") {
     this.debugMaterialMode = mode;
-    // Forzar remallado de todos los chunks activos para aplicar el material debug
-    for (const [key, chunk] of this.activeChunks) {
-      chunk.needsMeshUpdate = true;
-      this.remeshQueue.add(key);
-    }
+    chunkDebugUniforms.mode.value = ["none", "light", "materialId"].indexOf(mode);
   }
 
   /**
@@ -615,7 +1129,7 @@ export class World {
       const key = `${chunkX},${chunkZ}`;
       if (!this.activeChunks.has(key)) {
         // Si el chunk no está activo, inicia su carga en background (baja prioridad)
-        this.loadChunk(chunkX, chunkZ, false);
+        this.loadChunk(chunkX, chunkZ, false, true);
       }
     }
   }
@@ -64,10 +64,8 @@ export class WorldController {
     // Solo hacer frustum culling si la cámara se ha movido significativamente
     if (frustum && cameraMoved) {
       world.activeChunks.forEach((chunk) => {
-        if (chunk && chunk.chunkRoot && chunk.boundingBox) {
-          const isVisible = frustum.intersectsBox(chunk.boundingBox);
-          chunk.chunkRoot.visible = isVisible;
-          if (isVisible) visibleChunksCount++;
+        if (chunk && chunk.chunkRoot) {
+          if (chunk.updateVisibility(frustum)) visibleChunksCount++;
         } else {
           if (chunk && chunk.chunkRoot) chunk.chunkRoot.visible = false;
         }
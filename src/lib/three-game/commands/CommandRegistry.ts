@@ -0,0 +1,175 @@
+import type { GameRefs } from "../types";
+
+/**
+ * Lo que recibe un comando al ejecutarse: las referencias del juego y dónde
+ * escribir sus resultados en la consola del chat.
+ */
+export interface CommandContext {
+  refs: GameRefs;
+  print(text: string): void;
+}
+
+/**
+ * Argumento con tipo: convierte el texto escrito en el valor que recibe el
+ * comando (o lanza un Error con el motivo) y propone valores al pulsar Tab.
+ */
+export interface CommandArgument<T> {
+  name: string;
+  optional?: boolean;
+  parse(raw: string, context: CommandContext): T;
+  suggest?(context: CommandContext): string[];
+}
+
+type ArgumentList<A extends unknown[]> = { [K in keyof A]: CommandArgument<A[K]> };
+
+export interface Command<A extends unknown[] = unknown[]> {
+  name: string;
+  description: string;
+  args: ArgumentList<A>;
+  execute(context: CommandContext, ...args: A): void;
+}
+
+/** Para que TypeScript infiera los tipos de los argumentos de execute */
+export function defineCommand<A extends unknown[]>(command: Command<A>): Command<A> {
+  return command;
+}
+
+export function integerArgument(name: string, min: number, max: number): CommandArgument<number> {
+  return {
+    name,
+    parse(raw) {
+      const value = Number(raw);
+      if (!Number.isInteger(value)) throw new Error(`${name} debe ser un número entero: ${raw}`);
+      if (value < min || value > max) {
+        throw new Error(`${name} debe estar entre ${min} y ${max}: ${raw}`);
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Coordenada de bloque. "~" es la posición del jugador en ese eje y "~N" se
+ * desplaza N bloques desde ella.
+ */
+export function coordinateArgument(
+  axis: "x" | "y" | "z",
+  name: string = axis
+): CommandArgument<number> {
+  return {
+    name,
+    parse(raw, { refs }) {
+      const relative = raw.startsWith("~");
+      const offset = relative ? Number(raw.slice(1) || 0) : Number(raw);
+      if (!Number.isFinite(offset)) throw new Error(`Coordenada ${axis} no válida: ${raw}`);
+      if (!relative) return offset;
+      if (!refs.player) throw new Error("No hay jugador para usar coordenadas relativas");
+      return Math.floor(refs.player[axis]) + offset;
+    },
+    suggest: () => ["~"],
+  };
+}
+
+/** Uno de los valores de una lista (no distingue mayúsculas) */
+export function choiceArgument<T extends string>(
+  name: string,
+  choices: () => readonly T[]
+): CommandArgument<T> {
+  return {
+    name,
+    parse(raw) {
+      const choice = choices().find((candidate) => candidate.toLowerCase() === raw.toLowerCase());
+      if (!choice) throw new Error(`${name} no válido: ${raw}`);
+      return choice;
+    },
+    suggest: () => [...choices()],
+  };
+}
+
+export function optionalArgument<T>(argument: CommandArgument<T>): CommandArgument<T | undefined> {
+  return { ...argument, optional: true };
+}
+
+/**
+ * Comandos de la consola del chat ("/nombre arg1 arg2..."). Separa la línea
+ * por espacios, convierte cada argumento con su tipo y autocompleta el
+ * nombre del comando o el argumento que se está escribiendo.
+ */
+export class CommandRegistry {
+  private commands: Map<string, Command> = new Map();
+
+  public register<A extends unknown[]>(command: Command<A>): void {
+    this.commands.set(command.name, command);
+  }
+
+  public get(name: string): Command | undefined {
+    return this.commands.get(name.toLowerCase());
+  }
+
+  public getAll(): Command[] {
+    return Array.from(this.commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** "/tp <x> <y> <z>", con los opcionales entre corchetes */
+  public getUsage(command: Command): string {
+    const args = command.args.map((argument: CommandArgument<unknown>) =>
+      argument.optional ? `[${argument.name}]` : `<${argument.name}>`
+    );
+    return ["/" + command.name, ...args].join(" ");
+  }
+
+  /**
+   * Ejecuta una línea que empieza por "/". Los errores (comando desconocido,
+   * argumentos que faltan o no son válidos) se escriben en la consola.
+   */
+  public execute(line: string, context: CommandContext): boolean {
+    const [name, ...rawArgs] = line.slice(1).trim().split(/\s+/);
+    const command = this.get(name);
+    if (!command) {
+      context.print(`Comando desconocido: /${name}. Escribe /help para ver la lista`);
+      return false;
+    }
+
+    try {
+      const args = command.args as CommandArgument<unknown>[];
+      if (rawArgs.length > args.length) {
+        throw new Error(`Demasiados argumentos. Uso: ${this.getUsage(command)}`);
+      }
+      const values = args.map((argument, index) => {
+        const raw = rawArgs[index];
+        if (raw !== undefined) return argument.parse(raw, context);
+        if (argument.optional) return undefined;
+        throw new Error(`Falta ${argument.name}. Uso: ${this.getUsage(command)}`);
+      });
+      command.execute(context, ...values);
+      return true;
+    } catch (error) {
+      context.print(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Líneas completas que terminan la palabra que se está escribiendo: el
+   * nombre del comando o el valor del argumento en esa posición.
+   */
+  public complete(line: string, context: CommandContext): string[] {
+    if (!line.startsWith("/")) return [];
+    const words = line.slice(1).split(" ");
+    const current = words[words.length - 1].toLowerCase();
+    const prefix = line.slice(0, line.length - current.length);
+
+    let candidates: string[];
+    if (words.length === 1) {
+      candidates = this.getAll().map((command) => command.name);
+    } else {
+      const argument = this.get(words[0])?.args[words.length - 2] as
+        | CommandArgument<unknown>
+        | undefined;
+      candidates = argument?.suggest?.(context) ?? [];
+    }
+    return candidates
+      .filter((candidate) => candidate.toLowerCase().startsWith(current))
+      .map((candidate) => prefix + candidate);
+  }
+}
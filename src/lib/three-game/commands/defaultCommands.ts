@@ -0,0 +1,240 @@
+import { BlockRegistry } from "../BlockRegistry";
+import { CHUNK_SIZE } from "../utils";
+import type { BlockPosition } from "../types";
+import {
+  GameStateService,
+  GAME_MODES,
+  GAME_MODE_LABELS,
+  INVENTORY_SIZE,
+  MAX_STACK_SIZE,
+} from "../services/GameStateService";
+import {
+  type CommandArgument,
+  type CommandContext,
+  CommandRegistry,
+  choiceArgument,
+  coordinateArgument,
+  defineCommand,
+  integerArgument,
+  optionalArgument,
+} from "./CommandRegistry";
+
+// Como en /fill de Minecraft: más bloques bloquearían el juego varios segundos
+export const FILL_MAX_VOLUME = 32768;
+
+// Horas con nombre para /time set (0 = medianoche)
+const TIME_PRESETS: Record<string, number> = {
+  day: 7,
+  noon: 12,
+  night: 19,
+  midnight: 0,
+};
+
+/** Nombre de bloque del registro; `filter` limita los que se aceptan */
+function blockArgument(
+  name: string,
+  filter: (blockName: string) => boolean = () => true
+): CommandArgument<string> {
+  const names = () => {
+    const definitions = BlockRegistry.getInstance().getRenderableDefinitions();
+    return ["air", ...definitions.map((definition) => definition.name)].filter(filter);
+  };
+  return choiceArgument(name, names);
+}
+
+/** Hora del día: un nombre de TIME_PRESETS o las horas (0-24, admite decimales) */
+const timeArgument: CommandArgument<number> = {
+  name: "hora",
+  parse(raw) {
+    const hours = TIME_PRESETS[raw.toLowerCase()] ?? Number(raw);
+    if (!Number.isFinite(hours) || hours < 0 || hours > 24) {
+      throw new Error(`Hora no válida: ${raw} (usa day, noon, night, midnight o 0-24)`);
+    }
+    return hours;
+  },
+  suggest: () => Object.keys(TIME_PRESETS),
+};
+
+function formatHours(hours: number): string {
+  const totalMinutes = Math.floor(hours * 60) % (24 * 60);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(totalMinutes / 60))}:${pad(totalMinutes % 60)}`;
+}
+
+function checkVolume(min: BlockPosition, max: BlockPosition): void {
+  const volume =
+    (Math.abs(Math.floor(max.x) - Math.floor(min.x)) + 1) *
+    (Math.abs(Math.floor(max.y) - Math.floor(min.y)) + 1) *
+    (Math.abs(Math.floor(max.z) - Math.floor(min.z)) + 1);
+  if (volume > FILL_MAX_VOLUME) {
+    throw new Error(`Demasiados bloques: ${volume} (máximo ${FILL_MAX_VOLUME})`);
+  }
+}
+
+function requireWorld({ refs }: CommandContext) {
+  if (!refs.world) throw new Error("El mundo no está cargado");
+  return refs.world;
+}
+
+/**
+ * Comandos de prueba de la consola del chat.
+ */
+export function registerDefaultCommands(registry: CommandRegistry): void {
+  registry.register(
+    defineCommand({
+      name: "help",
+      description: "Lista los comandos o explica uno",
+      args: [
+        optionalArgument(
+          choiceArgument("comando", () => registry.getAll().map((command) => command.name))
+        ),
+      ],
+      execute({ print }, name) {
+        const commands = name ? [registry.get(name)!] : registry.getAll();
+        commands.forEach((command) =>
+          print(`${registry.getUsage(command)}: ${command.description}`)
+        );
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "tp",
+      description: "Teletransporta al jugador (~ = posición actual)",
+      args: [coordinateArgument("x"), coordinateArgument("y"), coordinateArgument("z")],
+      execute(context, x, y, z) {
+        const world = requireWorld(context);
+        const player = context.refs.player;
+        if (!player) throw new Error("No hay jugador");
+        // Centro del bloque, como al aparecer
+        const targetX = Number.isInteger(x) ? x + 0.5 : x;
+        const targetZ = Number.isInteger(z) ? z + 0.5 : z;
+        world.loadChunk(Math.floor(targetX / CHUNK_SIZE), Math.floor(targetZ / CHUNK_SIZE), true);
+        player.teleport(targetX, y, targetZ);
+        context.print(`Teletransportado a ${targetX}, ${y}, ${targetZ}`);
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "time",
+      description: "Consulta (query) o cambia (set) la hora del día",
+      args: [choiceArgument("acción", () => ["set", "query"]), optionalArgument(timeArgument)],
+      execute({ refs, print }, action, hours) {
+        const timeManager = refs.sky?.timeManager;
+        if (!timeManager) throw new Error("El cielo no está cargado");
+        if (action === "query") {
+          print(`Son las ${formatHours(timeManager.getCurrentTimeNormalized() * 24)}`);
+          return;
+        }
+        if (hours === undefined) throw new Error("Falta hora. Uso: /time set <hora>");
+        timeManager.setTimeNormalized(hours / 24);
+        print(`Hora cambiada a las ${formatHours(hours)}`);
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "give",
+      description: "Añade bloques al inventario",
+      args: [
+        blockArgument("bloque", (name) => name !== "air" && !BlockRegistry.getInstance().isLiquid(name)),
+        optionalArgument(integerArgument("cantidad", 1, MAX_STACK_SIZE * INVENTORY_SIZE)),
+      ],
+      execute({ print }, block, count = 1) {
+        const remaining = GameStateService.getInstance().addToInventory(block, count);
+        const label = BlockRegistry.getInstance().getDefinition(block).displayName;
+        print(`Recibido: ${count - remaining} × ${label}`);
+        if (remaining > 0) print(`El inventario está lleno: faltan ${remaining}`);
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "seed",
+      description: "Muestra la semilla del mundo",
+      args: [],
+      execute(context) {
+        context.print(`Semilla: ${requireWorld(context).worldSeed}`);
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "gamemode",
+      description: "Cambia el modo de juego",
+      args: [choiceArgument("modo", () => GAME_MODES)],
+      execute({ print }, gameMode) {
+        GameStateService.getInstance().setGameMode(gameMode);
+        print(`Modo de juego: ${GAME_MODE_LABELS[gameMode]}`);
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "fill",
+      description:
+        `Rellena un prisma de bloques (máximo ${FILL_MAX_VOLUME}). ` +
+        "Con hollow deja el interior de aire; con replace solo cambia los bloques del filtro",
+      args: [
+        coordinateArgument("x", "x1"),
+        coordinateArgument("y", "y1"),
+        coordinateArgument("z", "z1"),
+        coordinateArgument("x", "x2"),
+        coordinateArgument("y", "y2"),
+        coordinateArgument("z", "z2"),
+        blockArgument("bloque"),
+        optionalArgument(choiceArgument("modo", () => ["hollow", "replace"])),
+        optionalArgument(blockArgument("filtro")),
+      ],
+      execute(context, x1, y1, z1, x2, y2, z2, block, mode, filter) {
+        const world = requireWorld(context);
+        const min = { x: x1, y: y1, z: z1 };
+        const max = { x: x2, y: y2, z: z2 };
+        checkVolume(min, max);
+
+        let changes;
+        if (mode === "hollow") {
+          changes = world.hollow(min, max, block);
+        } else if (mode === "replace") {
+          if (!filter) throw new Error("Falta filtro: /fill ... <bloque> replace <filtro>");
+          changes = world.replace(min, max, filter, block);
+        } else {
+          changes = world.fill(min, max, block);
+        }
+        context.print(`Bloques cambiados: ${changes.length}`);
+      },
+    })
+  );
+
+  registry.register(
+    defineCommand({
+      name: "clone",
+      description: `Copia un prisma de bloques (máximo ${FILL_MAX_VOLUME}) a otra posición`,
+      args: [
+        coordinateArgument("x", "x1"),
+        coordinateArgument("y", "y1"),
+        coordinateArgument("z", "z1"),
+        coordinateArgument("x", "x2"),
+        coordinateArgument("y", "y2"),
+        coordinateArgument("z", "z2"),
+        coordinateArgument("x", "destinoX"),
+        coordinateArgument("y", "destinoY"),
+        coordinateArgument("z", "destinoZ"),
+      ],
+      execute(context, x1, y1, z1, x2, y2, z2, destX, destY, destZ) {
+        const min = { x: x1, y: y1, z: z1 };
+        const max = { x: x2, y: y2, z: z2 };
+        checkVolume(min, max);
+        const changes = requireWorld(context).clone(min, max, { x: destX, y: destY, z: destZ });
+        context.print(`Bloques cambiados: ${changes.length}`);
+      },
+    })
+  );
+}
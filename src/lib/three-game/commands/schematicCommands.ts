@@ -0,0 +1,85 @@
+import type { SchematicService } from "../services/SchematicService";
+import {
+  type CommandArgument,
+  CommandRegistry,
+  choiceArgument,
+  defineCommand,
+  optionalArgument,
+} from "./CommandRegistry";
+
+const SCHEMATIC_ACTIONS = [
+  "select",
+  "export",
+  "import",
+  "rotate",
+  "mirror",
+  "place",
+  "cancel",
+] as const;
+
+// Nombre del archivo exportado o eje del espejo, según la acción
+const optionArgument: CommandArgument<string> = {
+  name: "nombre|eje",
+  parse: (raw) => raw,
+  suggest: () => ["x", "z"],
+};
+
+/**
+ * /schem: seleccionar un prisma con dos clics, exportarlo a un archivo e
+ * importar estructuras con vista previa (ver SchematicService).
+ */
+export function registerSchematicCommands(
+  registry: CommandRegistry,
+  schematics: SchematicService
+): void {
+  registry.register(
+    defineCommand({
+      name: "schem",
+      description:
+        "Estructuras: select (marcar esquinas con los clics), export <nombre>, import, " +
+        "rotate, mirror <x|z>, place y cancel",
+      args: [choiceArgument("acción", () => SCHEMATIC_ACTIONS), optionalArgument(optionArgument)],
+      execute({ print }, action, option) {
+        switch (action) {
+          case "select":
+            schematics.setSelecting(!schematics.isSelecting);
+            break;
+          case "export": {
+            if (!option || !/^[\w-]{1,64}$/.test(option)) {
+              throw new Error("Uso: /schem export <nombre> (letras, números, - y _)");
+            }
+            const schematic = schematics.downloadSelection(option);
+            if (schematics.isSelecting) schematics.setSelecting(false);
+            print(
+              `Exportado ${option}.schematic.json: ${schematic.size.join("×")}, ` +
+                `${schematic.palette.length} tipos de bloque`
+            );
+            break;
+          }
+          case "import":
+            schematics.importFromFile();
+            break;
+          case "rotate":
+          case "mirror":
+          case "place":
+            if (!schematics.hasPreview) throw new Error("Importa antes una estructura con /schem import");
+            if (action === "rotate") {
+              schematics.rotatePreview();
+            } else if (action === "place") {
+              print(`Bloques cambiados: ${schematics.placePreview().length}`);
+            } else {
+              const axis = option?.toLowerCase();
+              if (axis !== "x" && axis !== "z") throw new Error("Uso: /schem mirror <x|z>");
+              schematics.mirrorPreview(axis);
+            }
+            break;
+          case "cancel":
+            schematics.cancelPreview();
+            if (schematics.isSelecting) schematics.setSelecting(false);
+            print("Estructura cancelada");
+            break;
+        }
+      },
+    })
+  );
+}
@@ -1,3 +1,5 @@
+import { WORLD_HEIGHTS } from "../utils";
+
 export class GameConfig {
   private static instance: GameConfig;
   private config: Map<string, any>;
@@ -36,7 +38,7 @@ export class GameConfig {
     this.set("world", {
       chunkSize: 16,
       renderDistance: 8,
-      maxHeight: 256,
+      maxHeight: Math.max(...WORLD_HEIGHTS),
       voidHeight: 64,
       seed: Math.floor(Math.random() * Number.MAX_SAFE_INTEGER),
       generation: {
@@ -86,6 +88,20 @@ export class GameConfig {
         fly: "KeyF",
         inventory: "KeyE",
         drop: "KeyQ",
+        chat: "KeyT",
+        command: "Slash", // abre el chat con "/" ya escrito
+        // Se pulsan con Ctrl, como Ctrl + Z
+        undo: "KeyZ",
+        redo: "KeyY",
+        // Solo con una estructura en vista previa (/schem import)
+        schematicRotate: "KeyR",
+        schematicMirror: "KeyM",
+        // Se pulsan manteniendo debugModifier, como F3 + G
+        debugModifier: "F3",
+        debugChunkBorders: "KeyG",
+        debugCollisionBoxes: "KeyB",
+        debugLightLevels: "KeyL",
+        debugBlockInfo: "KeyI",
       },
     });
 
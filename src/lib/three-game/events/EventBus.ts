@@ -1,3 +1,5 @@
+import type { GameMode, InventorySlot } from "../services/GameStateService";
+
 type EventCallback = (...args: any[]) => void;
 
 export class EventBus {
@@ -64,6 +66,18 @@ export enum GameEvents {
   CAMERA_UPDATE = "camera:update",
   GAME_STATE_CHANGE = "game:state_change",
   RENDER_DISTANCE_CHANGE = "renderDistanceChange",
+  AMBIENT_OCCLUSION_CHANGE = "graphics:ambient_occlusion",
+  HOTBAR_CHANGE = "hotbar:change",
+  INVENTORY_UPDATE = "inventory:updated",
+  INVENTORY_TOGGLE = "inventory:toggle",
+  GAME_MODE_CHANGE = "gamemode:changed",
+  HEALTH_UPDATE = "health:updated",
+  AIR_UPDATE = "player:air_updated",
+  ACTION_BAR_MESSAGE = "hud:action_bar",
+  DEBUG_OPTION_CHANGE = "debug:option_changed",
+  CHAT_TOGGLE = "chat:toggle",
+  CHAT_MESSAGE = "chat:message",
+  EDIT_HISTORY_APPLY = "history:applied",
 }
 
 // Tipos de eventos
@@ -72,17 +86,80 @@ export interface PlayerMoveEvent {
   velocity: { x: number; y: number; z: number };
 }
 
+export interface PlayerLandEvent {
+  fallDistance: number; // bloques caídos desde el punto más alto
+  position: { x: number; y: number; z: number };
+}
+
+export interface HealthUpdateEvent {
+  health: number;
+  maxHealth: number;
+}
+
+export interface AirUpdateEvent {
+  air: number; // segundos de aire restantes
+  maxAir: number;
+}
+
+// Aviso breve sobre la barra rápida (p. ej. el límite de construcción)
+export interface ActionBarMessageEvent {
+  message: string;
+}
+
+export interface DebugOptionChangeEvent {
+  option: string; // clave de la sección "debug" de GameConfig
+  enabled: boolean;
+}
+
+export interface ChatToggleEvent {
+  open: boolean;
+  initialText: string; // texto con el que empieza la línea ("/" al abrir con esa tecla)
+}
+
+// Línea nueva en la consola del chat (mensajes, comandos y sus resultados)
+export interface ChatMessageEvent {
+  text: string;
+}
+
+// Resultado de Ctrl+Z / Ctrl+Y; blocks = 0 si no había nada que deshacer o rehacer
+export interface EditHistoryApplyEvent {
+  action: "undo" | "redo";
+  blocks: number;
+}
+
 export interface BlockInteractionEvent {
   position: { x: number; y: number; z: number };
   blockType: string;
   playerPosition: { x: number; y: number; z: number };
 }
 
+export interface AmbientOcclusionChangeEvent {
+  enabled: boolean;
+}
+
 export interface ChunkEvent {
   chunkKey: string;
   position: { x: number; z: number };
 }
 
+export interface HotbarChangeEvent {
+  slots: InventorySlot[];
+  selectedIndex: number;
+}
+
+export interface InventoryUpdateEvent {
+  inventory: InventorySlot[];
+}
+
+export interface InventoryToggleEvent {
+  open: boolean;
+}
+
+export interface GameModeChangeEvent {
+  gameMode: GameMode;
+  previousGameMode: GameMode;
+}
+
 export interface GameStateEvent {
   state: "playing" | "paused" | "menu" | "loading";
   previousState?: string;
@@ -0,0 +1,102 @@
+import type { World } from "../World";
+import type { BlockChange } from "../types";
+
+// Pasos que se pueden deshacer como máximo
+export const MAX_HISTORY_STEPS = 100;
+// Bloques guardados entre todos los pasos: los /fill grandes no deben llenar la memoria
+export const MAX_HISTORY_BLOCKS = 100000;
+
+/**
+ * Historial de cambios de bloques de un mundo para deshacer y rehacer. Cada
+ * paso es una lista de cambios (posición, antes, después): un clic, una
+ * pulsación mantenida entera (openStep/closeStep) o una edición masiva de
+ * World. Los pasos más antiguos se descartan al superar MAX_HISTORY_STEPS o
+ * MAX_HISTORY_BLOCKS.
+ */
+export class EditHistory {
+  private world: World;
+  private undoSteps: BlockChange[][] = [];
+  private redoSteps: BlockChange[][] = [];
+  // Paso abierto al que se suman los cambios (p. ej. mientras se mantiene el clic)
+  private currentStep: BlockChange[] | null = null;
+  private blockCount: number = 0;
+  // Deshaciendo o rehaciendo: esos cambios no son pasos nuevos
+  private isApplying: boolean = false;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /** Los cambios hasta closeStep forman un único paso */
+  public openStep(): void {
+    this.closeStep();
+    this.currentStep = [];
+  }
+
+  public closeStep(): void {
+    const step = this.currentStep;
+    this.currentStep = null;
+    if (step) this.push(step);
+  }
+
+  public record(changes: BlockChange[]): void {
+    if (this.isApplying || changes.length === 0) return;
+    if (this.currentStep) {
+      this.currentStep.push(...changes);
+    } else {
+      this.push(changes);
+    }
+  }
+
+  /** Deshace el último paso y devuelve cuántos bloques ha cambiado (0 = no había) */
+  public undo(): number {
+    this.closeStep();
+    const step = this.undoSteps.pop();
+    if (!step) return 0;
+    this.blockCount -= step.length;
+    this.redoSteps.push(step);
+    // En orden inverso: si un bloque cambió varias veces queda como al principio
+    return this.apply(
+      step.map(({ x, y, z, before }) => ({ x, y, z, blockType: before })).reverse()
+    );
+  }
+
+  public redo(): number {
+    this.closeStep();
+    const step = this.redoSteps.pop();
+    if (!step) return 0;
+    this.undoSteps.push(step);
+    this.blockCount += step.length;
+    return this.apply(step.map(({ x, y, z, after }) => ({ x, y, z, blockType: after })));
+  }
+
+  public clear(): void {
+    this.undoSteps = [];
+    this.redoSteps = [];
+    this.currentStep = null;
+    this.blockCount = 0;
+  }
+
+  private push(step: BlockChange[]): void {
+    if (step.length === 0) return;
+    this.undoSteps.push(step);
+    this.blockCount += step.length;
+    // Un cambio nuevo invalida lo que se había deshecho
+    this.redoSteps = [];
+    while (
+      this.undoSteps.length > 1 &&
+      (this.undoSteps.length > MAX_HISTORY_STEPS || this.blockCount > MAX_HISTORY_BLOCKS)
+    ) {
+      this.blockCount -= this.undoSteps.shift()!.length;
+    }
+  }
+
+  private apply(blocks: { x: number; y: number; z: number; blockType: string }[]): number {
+    this.isApplying = true;
+    try {
+      return this.world.setBlocks(blocks).length;
+    } finally {
+      this.isApplying = false;
+    }
+  }
+}
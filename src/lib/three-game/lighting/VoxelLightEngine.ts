@@ -0,0 +1,357 @@
+import type { World } from "../World";
+import type { Chunk } from "../Chunk";
+import { BlockRegistry } from "../BlockRegistry";
+import { CHUNK_SIZE, PADDED_CHUNK_SIZE, getBlockIndex, getPaddedIndex } from "../utils";
+
+export const MAX_LIGHT = 15;
+
+// Cada byte guarda la luz del cielo en los 4 bits altos y la de bloques en los bajos
+export const getSkyLight = (packed: number): number => packed >> 4;
+export const getBlockLight = (packed: number): number => packed & 0x0f;
+export const OPEN_SKY_LIGHT = MAX_LIGHT << 4;
+
+type LightChannel = "sky" | "block";
+
+const NEIGHBOR_OFFSETS: [number, number, number][] = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+];
+
+/**
+ * Luz por vóxel con dos canales de 0 a 15: la del cielo, que baja en vertical
+ * sin perder intensidad hasta el primer bloque opaco, y la de los bloques que
+ * emiten luz (antorchas, piedra luminosa, lava). Ambas se reparten por
+ * inundación perdiendo un nivel por bloque y atraviesan los chunks cargados.
+ *
+ * Los chunks cuya luz cambia se ponen en la cola de remallado: los mallados
+ * hornean la luz en los vértices (getPaddedLight).
+ */
+export class VoxelLightEngine {
+  private world: World;
+  private transparentById: Uint8Array;
+  private emissionById: Uint8Array;
+  // Chunks cuya luz ha cambiado y el tramo de capas [mínima, máxima] afectado
+  private dirtyChunks: Map<Chunk, [number, number]> = new Map();
+  // Último chunk consultado: las inundaciones piden casi siempre el mismo. Se
+  // descarta al empezar cada operación pública, porque entre dos operaciones
+  // el chunk puede haberse descargado
+  private cachedChunk: Chunk | null = null;
+
+  constructor(world: World) {
+    this.world = world;
+    const registry = BlockRegistry.getInstance();
+    const blockCount = registry.getPalette().length;
+    this.transparentById = new Uint8Array(blockCount);
+    this.emissionById = new Uint8Array(blockCount);
+    for (let id = 0; id < blockCount; id++) {
+      const definition = registry.getDefinitionById(id);
+      this.transparentById[id] = definition.transparent ? 1 : 0;
+      this.emissionById[id] = Math.min(MAX_LIGHT, definition.lightEmission);
+    }
+  }
+
+  /**
+   * Calcula la luz de un chunk cuyos bloques acaban de llegar e intercambia
+   * luz con los vecinos cargados. No pone en cola el propio chunk: quien lo
+   * carga ya se encarga de mallarlo.
+   */
+  public initializeChunk(chunk: Chunk): void {
+    this.cachedChunk = null;
+    const { blocks, light } = chunk;
+    const layers = this.world.layers;
+    const baseX = chunk.worldX * CHUNK_SIZE;
+    const baseZ = chunk.worldZ * CHUNK_SIZE;
+    light.fill(0);
+
+    // Luz del cielo en vertical; heights guarda la y más baja iluminada de cada columna
+    const heights = new Int32Array(CHUNK_SIZE * CHUNK_SIZE);
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        let y = layers - 1;
+        for (; y >= 0; y--) {
+          const index = getBlockIndex(x, y, z);
+          if (!this.transparentById[blocks[index]]) break;
+          light[index] = OPEN_SKY_LIGHT;
+        }
+        heights[z * CHUNK_SIZE + x] = y + 1;
+      }
+    }
+
+    // Se extiende a los lados solo donde una columna vecina es más alta
+    const skyQueue: number[] = [];
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        const height = heights[z * CHUNK_SIZE + x];
+        let shadeTop = height;
+        if (x > 0) shadeTop = Math.max(shadeTop, heights[z * CHUNK_SIZE + x - 1]);
+        if (x < CHUNK_SIZE - 1) shadeTop = Math.max(shadeTop, heights[z * CHUNK_SIZE + x + 1]);
+        if (z > 0) shadeTop = Math.max(shadeTop, heights[(z - 1) * CHUNK_SIZE + x]);
+        if (z < CHUNK_SIZE - 1) shadeTop = Math.max(shadeTop, heights[(z + 1) * CHUNK_SIZE + x]);
+        for (let y = height; y < shadeTop; y++) {
+          skyQueue.push(baseX + x, y, baseZ + z);
+        }
+      }
+    }
+
+    const blockQueue: number[] = [];
+    for (let index = 0; index < blocks.length; index++) {
+      const emission = this.emissionById[blocks[index]];
+      if (emission === 0) continue;
+      light[index] |= emission;
+      const x = index % CHUNK_SIZE;
+      const z = Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE;
+      const y = Math.floor(index / (CHUNK_SIZE * CHUNK_SIZE));
+      blockQueue.push(baseX + x, y, baseZ + z);
+    }
+
+    // Bordes: la luz pasa en los dos sentidos entre este chunk y sus vecinos
+    for (const [dx, dz] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      if (!this.getChunkAt(baseX + dx * CHUNK_SIZE, baseZ + dz * CHUNK_SIZE)) continue;
+      for (let i = 0; i < CHUNK_SIZE; i++) {
+        const insideX = dx === 0 ? baseX + i : dx < 0 ? baseX : baseX + CHUNK_SIZE - 1;
+        const insideZ = dz === 0 ? baseZ + i : dz < 0 ? baseZ : baseZ + CHUNK_SIZE - 1;
+        for (let y = 0; y < layers; y++) {
+          skyQueue.push(insideX, y, insideZ, insideX + dx, y, insideZ + dz);
+          blockQueue.push(insideX, y, insideZ, insideX + dx, y, insideZ + dz);
+        }
+      }
+    }
+
+    this.propagateIncrease(skyQueue, "sky");
+    this.propagateIncrease(blockQueue, "block");
+    this.dirtyChunks.delete(chunk);
+    this.flushDirtyChunks();
+  }
+
+  /**
+   * Vuelve a calcular la luz de varios chunks tras una edición masiva, más
+   * barato que actualizarla bloque a bloque. Se apagan todos antes de empezar
+   * para que no se cuele luz antigua de uno que aún no se ha recalculado; quien
+   * llama debe incluir los vecinos a los que pudo llegar la luz de los cambios.
+   */
+  public relightChunks(chunks: Chunk[]): void {
+    chunks.forEach((chunk) => chunk.light.fill(0));
+    chunks.forEach((chunk) => this.initializeChunk(chunk));
+  }
+
+  /**
+   * Actualiza la luz alrededor de un bloque que ha cambiado. Solo importa si
+   * cambia su transparencia o la luz que emite.
+   */
+  public onBlockChanged(
+    x: number,
+    y: number,
+    z: number,
+    previousId: number,
+    newId: number
+  ): void {
+    if (
+      this.transparentById[previousId] === this.transparentById[newId] &&
+      this.emissionById[previousId] === this.emissionById[newId]
+    ) {
+      return;
+    }
+    this.cachedChunk = null;
+    if (!this.getChunkAt(x, z)) return;
+
+    for (const channel of ["sky", "block"] as LightChannel[]) {
+      const relightQueue: number[] = [];
+      const current = this.getLight(x, y, z, channel);
+      if (current > 0) {
+        this.setLight(x, y, z, channel, 0);
+        this.propagateRemoval([x, y, z, current], channel, relightQueue);
+      }
+      const emission = channel === "block" ? this.emissionById[newId] : 0;
+      if (emission > 0) {
+        this.setLight(x, y, z, channel, emission);
+        relightQueue.push(x, y, z);
+      }
+      if (this.transparentById[newId]) {
+        // El hueco se ilumina desde las celdas vecinas
+        for (const [dx, dy, dz] of NEIGHBOR_OFFSETS) {
+          if (this.getLight(x + dx, y + dy, z + dz, channel) > 0) {
+            relightQueue.push(x + dx, y + dy, z + dz);
+          }
+        }
+      }
+      this.propagateIncrease(relightQueue, channel);
+    }
+    this.flushDirtyChunks();
+  }
+
+  /** Luz empaquetada (cielo << 4 | bloque) de una posición del mundo */
+  public getLightAt(x: number, y: number, z: number): number {
+    this.cachedChunk = null;
+    return this.getPackedLight(x, y, z);
+  }
+
+  /**
+   * Luz del chunk con un bloque de borde tomado de los vecinos, indexada con
+   * getPaddedIndex. Donde el vecino no está cargado se repite la luz del
+   * borde del propio chunk; bajo el mundo está a oscuras y sobre él, a pleno sol.
+   */
+  public getPaddedLight(chunk: Chunk): Uint8Array {
+    this.cachedChunk = null;
+    const layers = this.world.layers;
+    const padded = new Uint8Array(PADDED_CHUNK_SIZE * PADDED_CHUNK_SIZE * (layers + 2));
+    const baseX = chunk.worldX * CHUNK_SIZE;
+    const baseZ = chunk.worldZ * CHUNK_SIZE;
+    for (let z = -1; z <= CHUNK_SIZE; z++) {
+      for (let x = -1; x <= CHUNK_SIZE; x++) {
+        let source: Chunk | null = chunk;
+        let localX = x;
+        let localZ = z;
+        if (x < 0 || x >= CHUNK_SIZE || z < 0 || z >= CHUNK_SIZE) {
+          source = this.getChunkAt(baseX + x, baseZ + z);
+          if (source) {
+            localX = (x + CHUNK_SIZE) % CHUNK_SIZE;
+            localZ = (z + CHUNK_SIZE) % CHUNK_SIZE;
+          } else {
+            source = chunk;
+            localX = Math.min(CHUNK_SIZE - 1, Math.max(0, x));
+            localZ = Math.min(CHUNK_SIZE - 1, Math.max(0, z));
+          }
+        }
+        for (let y = 0; y < layers; y++) {
+          padded[getPaddedIndex(x, y, z)] = source.light[getBlockIndex(localX, y, localZ)];
+        }
+        padded[getPaddedIndex(x, layers, z)] = OPEN_SKY_LIGHT;
+      }
+    }
+    return padded;
+  }
+
+  private propagateIncrease(queue: number[], channel: LightChannel): void {
+    const layers = this.world.layers;
+    for (let i = 0; i < queue.length; i += 3) {
+      const x = queue[i];
+      const y = queue[i + 1];
+      const z = queue[i + 2];
+      const level = this.getLight(x, y, z, channel);
+      if (level <= 1) continue;
+
+      for (const [dx, dy, dz] of NEIGHBOR_OFFSETS) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= layers) continue;
+        const chunk = this.getChunkAt(x + dx, z + dz);
+        if (!chunk) continue;
+        const index = this.getLocalIndex(chunk, x + dx, ny, z + dz);
+        if (!this.transparentById[chunk.blocks[index]]) continue;
+
+        // La luz del cielo a pleno sol baja sin perder intensidad
+        const next = channel === "sky" && dy === -1 && level === MAX_LIGHT ? MAX_LIGHT : level - 1;
+        if (next <= this.readChannel(chunk.light[index], channel)) continue;
+        chunk.light[index] = this.writeChannel(chunk.light[index], channel, next);
+        this.markDirty(chunk, ny);
+        queue.push(x + dx, ny, z + dz);
+      }
+    }
+  }
+
+  /**
+   * Apaga la luz que dependía de una celda (queue: x, y, z, nivel anterior).
+   * Las celdas con luz propia que se encuentran van a relightQueue para volver
+   * a repartirla.
+   */
+  private propagateRemoval(queue: number[], channel: LightChannel, relightQueue: number[]): void {
+    const layers = this.world.layers;
+    for (let i = 0; i < queue.length; i += 4) {
+      const x = queue[i];
+      const y = queue[i + 1];
+      const z = queue[i + 2];
+      const level = queue[i + 3];
+
+      for (const [dx, dy, dz] of NEIGHBOR_OFFSETS) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= layers) continue;
+        const chunk = this.getChunkAt(x + dx, z + dz);
+        if (!chunk) continue;
+        const index = this.getLocalIndex(chunk, x + dx, ny, z + dz);
+        const neighborLevel = this.readChannel(chunk.light[index], channel);
+        if (neighborLevel === 0) continue;
+
+        const dependsOnCell =
+          neighborLevel < level ||
+          (channel === "sky" && dy === -1 && level === MAX_LIGHT && neighborLevel === MAX_LIGHT);
+        if (!dependsOnCell) {
+          relightQueue.push(x + dx, ny, z + dz);
+          continue;
+        }
+        chunk.light[index] = this.writeChannel(chunk.light[index], channel, 0);
+        this.markDirty(chunk, ny);
+        queue.push(x + dx, ny, z + dz, neighborLevel);
+        // Un bloque que emite luz conserva la suya
+        const emission = channel === "block" ? this.emissionById[chunk.blocks[index]] : 0;
+        if (emission > 0) {
+          chunk.light[index] = this.writeChannel(chunk.light[index], channel, emission);
+          relightQueue.push(x + dx, ny, z + dz);
+        }
+      }
+    }
+  }
+
+  private getPackedLight(x: number, y: number, z: number): number {
+    if (y >= this.world.layers) return OPEN_SKY_LIGHT;
+    if (y < 0) return 0;
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk) return 0;
+    return chunk.light[this.getLocalIndex(chunk, x, y, z)];
+  }
+
+  private getLight(x: number, y: number, z: number, channel: LightChannel): number {
+    return this.readChannel(this.getPackedLight(x, y, z), channel);
+  }
+
+  private setLight(x: number, y: number, z: number, channel: LightChannel, level: number): void {
+    const chunk = this.getChunkAt(x, z);
+    if (!chunk || y < 0 || y >= this.world.layers) return;
+    const index = this.getLocalIndex(chunk, x, y, z);
+    chunk.light[index] = this.writeChannel(chunk.light[index], channel, level);
+    this.markDirty(chunk, y);
+  }
+
+  private readChannel(packed: number, channel: LightChannel): number {
+    return channel === "sky" ? getSkyLight(packed) : getBlockLight(packed);
+  }
+
+  private writeChannel(packed: number, channel: LightChannel, level: number): number {
+    return channel === "sky" ? (packed & 0x0f) | (level << 4) : (packed & 0xf0) | level;
+  }
+
+  private getLocalIndex(chunk: Chunk, x: number, y: number, z: number): number {
+    return getBlockIndex(x - chunk.worldX * CHUNK_SIZE, y, z - chunk.worldZ * CHUNK_SIZE);
+  }
+
+  /** Chunk activo y ya generado que contiene la columna (x, z) */
+  private getChunkAt(x: number, z: number): Chunk | null {
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const cached = this.cachedChunk;
+    if (cached && cached.worldX === chunkX && cached.worldZ === chunkZ) return cached;
+    const chunk = this.world.activeChunks.get(`${chunkX},${chunkZ}`);
+    if (!chunk || chunk.isGenerating) return null;
+    this.cachedChunk = chunk;
+    return chunk;
+  }
+
+  private markDirty(chunk: Chunk, y: number): void {
+    const range = this.dirtyChunks.get(chunk);
+    if (range) {
+      range[0] = Math.min(range[0], y);
+      range[1] = Math.max(range[1], y);
+    } else {
+      this.dirtyChunks.set(chunk, [y, y]);
+    }
+  }
+
+  private flushDirtyChunks(): void {
+    this.dirtyChunks.forEach(([minY, maxY], chunk) => {
+      this.world.queueChunkRemesh(chunk.worldX, chunk.worldZ, minY, maxY);
+    });
+    this.dirtyChunks.clear();
+  }
+}
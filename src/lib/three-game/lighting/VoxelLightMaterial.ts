@@ -0,0 +1,63 @@
+import * as THREE from "three";
+
+/**
+ * Uniform compartido por todos los materiales de chunks: intensidad de la luz
+ * del cielo (0.1 de noche, 1 a pleno día). Lo actualiza AdvancedSky.
+ */
+export const voxelLightUniforms = {
+  skyLight: { value: 1 },
+};
+
+/**
+ * Hace que el material use el atributo "voxelLight" (cielo, bloque) que los
+ * mallados hornean en cada vértice. La luz del cielo escala la iluminación
+ * normal de la escena; la de los bloques añade una luz cálida que no depende
+ * de la hora del día. El atributo "ambientOcclusion" oscurece el resultado en
+ * las esquinas y los bordes. Devuelve el mismo material.
+ */
+export function applyVoxelLight<T extends THREE.Material>(material: T): T {
+  const previousOnBeforeCompile = material.onBeforeCompile;
+  const previousCacheKey = material.customProgramCacheKey.bind(material);
+
+  material.onBeforeCompile = (shader, renderer) => {
+    previousOnBeforeCompile.call(material, shader, renderer);
+    shader.uniforms.uSkyLight = voxelLightUniforms.skyLight;
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+        attribute vec2 voxelLight;
+        attribute float ambientOcclusion;
+        varying vec2 vVoxelLight;
+        varying float vAmbientOcclusion;`
+      )
+      .replace(
+        "#include <begin_vertex>",
+        `#include <begin_vertex>
+        vVoxelLight = voxelLight;
+        vAmbientOcclusion = ambientOcclusion;`
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+        uniform float uSkyLight;
+        varying vec2 vVoxelLight;
+        varying float vAmbientOcclusion;`
+      )
+      .replace(
+        "#include <opaque_fragment>",
+        `// Cada nivel de luz que se pierde oscurece un 20%
+        float skyBrightness = pow(0.8, 15.0 * (1.0 - vVoxelLight.x));
+        float blockBrightness = pow(0.8, 15.0 * (1.0 - vVoxelLight.y)) * step(0.001, vVoxelLight.y);
+        vec3 blockLightColor = vec3(1.0, 0.85, 0.6);
+        outgoingLight = outgoingLight * skyBrightness +
+          diffuseColor.rgb * blockLightColor * blockBrightness * (1.0 - skyBrightness * uSkyLight);
+        outgoingLight *= vAmbientOcclusion;
+        #include <opaque_fragment>`
+      );
+  };
+  material.customProgramCacheKey = () => previousCacheKey() + "_voxelLight";
+  material.needsUpdate = true;
+  return material;
+}
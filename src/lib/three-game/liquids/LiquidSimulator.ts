@@ -0,0 +1,215 @@
+import type { World } from "../World";
+import { BlockRegistry } from "../BlockRegistry";
+import { MAX_FLOW_LEVEL } from "../BlockTypes";
+import { CHUNK_SIZE } from "../utils";
+
+// Segundos entre dos pasos de la simulación: el agua avanza un bloque por paso
+const TICK_INTERVAL = 0.25;
+// Celdas que se procesan como máximo en un paso; el resto espera al siguiente
+const MAX_UPDATES_PER_TICK = 1024;
+
+const HORIZONTAL_OFFSETS: [number, number][] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+/**
+ * Simulación celular de líquidos. Las fuentes (nivel 0) y el líquido que fluye
+ * (niveles 1-7) se reparten por el aire: caen mientras haya hueco debajo y, si
+ * no, se extienden a los lados perdiendo un nivel por bloque. El líquido que
+ * se queda sin fuente que lo alimente se va secando paso a paso.
+ *
+ * Solo se procesan las celdas programadas (alrededor de cada cambio de
+ * bloque), así que el agua del terreno generado está quieta hasta que algo la
+ * altera. Los cambios de un paso se agrupan en una sola petición de remallado
+ * por chunk.
+ */
+export class LiquidSimulator {
+  private world: World;
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
+  private pending: Map<string, [number, number, number]> = new Map();
+  // Chunks con celdas cambiadas en el paso y el tramo de capas [mínima, máxima] afectado
+  private dirtyChunks: Map<string, [number, number]> = new Map();
+  private accumulator: number = 0;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /** Programa la celda y sus seis vecinas para el siguiente paso */
+  public scheduleNeighborhood(x: number, y: number, z: number): void {
+    this.scheduleUpdate(x, y, z);
+    this.scheduleUpdate(x + 1, y, z);
+    this.scheduleUpdate(x - 1, y, z);
+    this.scheduleUpdate(x, y + 1, z);
+    this.scheduleUpdate(x, y - 1, z);
+    this.scheduleUpdate(x, y, z + 1);
+    this.scheduleUpdate(x, y, z - 1);
+  }
+
+  public scheduleUpdate(x: number, y: number, z: number): void {
+    if (y < 0 || y >= this.world.layers) return;
+    this.pending.set(`${x},${y},${z}`, [x, y, z]);
+  }
+
+  /** Avanza la simulación a ritmo fijo; se llama desde GameLogic.fixedStepUpdate */
+  public update(deltaTime: number): void {
+    // Tras una pausa larga no se intentan recuperar todos los pasos perdidos
+    this.accumulator = Math.min(this.accumulator + deltaTime, TICK_INTERVAL * 4);
+    while (this.accumulator >= TICK_INTERVAL) {
+      this.accumulator -= TICK_INTERVAL;
+      this.tick();
+    }
+  }
+
+  public getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  public clear(): void {
+    this.pending.clear();
+    this.dirtyChunks.clear();
+    this.accumulator = 0;
+  }
+
+  private tick(): void {
+    if (this.pending.size === 0) return;
+
+    // Las celdas que se programen durante el paso se procesan en el siguiente
+    const cells: [number, number, number][] = [];
+    for (const [key, cell] of this.pending) {
+      if (cells.length >= MAX_UPDATES_PER_TICK) break;
+      cells.push(cell);
+      this.pending.delete(key);
+    }
+    for (const [x, y, z] of cells) {
+      this.updateCell(x, y, z);
+    }
+
+    this.dirtyChunks.forEach(([minY, maxY], key) => {
+      const [chunkX, chunkZ] = key.split(",").map(Number);
+      this.world.queueChunkRemesh(chunkX, chunkZ, minY, maxY);
+    });
+    this.dirtyChunks.clear();
+  }
+
+  private updateCell(x: number, y: number, z: number): void {
+    const blockType = this.world.getBlock(x, y, z);
+    const source = this.blockRegistry.getLiquidSource(blockType);
+    if (!source) return;
+
+    let level = this.blockRegistry.getFlowLevel(blockType);
+    if (level > 0) {
+      const expected = this.getExpectedLevel(x, y, z, source);
+      if (expected !== level) {
+        const next =
+          expected === null
+            ? "air"
+            : this.blockRegistry.getFlowingVariant(source, expected);
+        if (!next || !this.setCell(x, y, z, next) || expected === null) return;
+        level = expected;
+      }
+    }
+    this.spread(x, y, z, source, level);
+  }
+
+  /**
+   * Nivel que le corresponde a una celda de líquido que fluye según sus
+   * vecinas, o null si ya nada la alimenta y debe secarse.
+   */
+  private getExpectedLevel(x: number, y: number, z: number, source: string): number | null {
+    // El líquido que cae por una columna mantiene el nivel más alto
+    if (this.blockRegistry.getLiquidSource(this.world.getBlock(x, y + 1, z)) === source) {
+      return 1;
+    }
+
+    let minNeighborLevel = Infinity;
+    let sourceNeighbors = 0;
+    for (const [dx, dz] of HORIZONTAL_OFFSETS) {
+      const neighbor = this.world.getBlock(x + dx, y, z + dz);
+      if (this.blockRegistry.getLiquidSource(neighbor) !== source) continue;
+      const neighborLevel = this.blockRegistry.getFlowLevel(neighbor);
+      if (neighborLevel === 0) sourceNeighbors++;
+      minNeighborLevel = Math.min(minNeighborLevel, neighborLevel);
+    }
+
+    // Dos fuentes vecinas sobre suelo firme (o sobre otra fuente) crean una nueva
+    if (sourceNeighbors >= 2) {
+      const below = this.world.getBlock(x, y - 1, z);
+      if (this.blockRegistry.isSolid(below) || below === source) return 0;
+    }
+
+    const level = minNeighborLevel + 1;
+    return level <= MAX_FLOW_LEVEL ? level : null;
+  }
+
+  private spread(x: number, y: number, z: number, source: string, level: number): void {
+    const fallingVariant = this.blockRegistry.getFlowingVariant(source, 1);
+    const below = this.world.getBlock(x, y - 1, z);
+    if (fallingVariant && this.canFlowInto(below)) {
+      this.setCell(x, y - 1, z, fallingVariant);
+      return;
+    }
+    const belowSource = this.blockRegistry.getLiquidSource(below);
+    if (belowSource === source && fallingVariant && this.blockRegistry.getFlowLevel(below) > 1) {
+      // Cae sobre una lámina más baja del mismo líquido: la convierte en cascada
+      this.setCell(x, y - 1, z, fallingVariant);
+      return;
+    }
+    // Sobre otro líquido solo se extienden las fuentes (la orilla de un lago)
+    if (belowSource !== null && level > 0) return;
+
+    const nextLevel = level + 1;
+    const nextVariant = this.blockRegistry.getFlowingVariant(source, nextLevel);
+    if (nextLevel > MAX_FLOW_LEVEL || !nextVariant) return;
+
+    for (const [dx, dz] of HORIZONTAL_OFFSETS) {
+      const neighbor = this.world.getBlock(x + dx, y, z + dz);
+      if (
+        this.canFlowInto(neighbor) ||
+        (this.blockRegistry.getLiquidSource(neighbor) === source &&
+          this.blockRegistry.getFlowLevel(neighbor) > nextLevel)
+      ) {
+        this.setCell(x + dx, y, z + dz, nextVariant);
+      }
+    }
+  }
+
+  /** Aire y bloques sin colisión que el agua arrastra (plantas) */
+  private canFlowInto(blockType: string | null): boolean {
+    if (blockType === null) return false; // chunk sin cargar
+    const definition = this.blockRegistry.getDefinition(blockType);
+    return !definition.solid && !definition.liquid;
+  }
+
+  private setCell(x: number, y: number, z: number, blockType: string): boolean {
+    if (!this.world.setLiquidBlock(x, y, z, blockType)) return false;
+
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const localX = x - chunkX * CHUNK_SIZE;
+    const localZ = z - chunkZ * CHUNK_SIZE;
+    this.markDirty(chunkX, chunkZ, y);
+    // Las caras y la pendiente de la superficie dependen de los bloques vecinos
+    if (localX === 0) this.markDirty(chunkX - 1, chunkZ, y);
+    if (localX === CHUNK_SIZE - 1) this.markDirty(chunkX + 1, chunkZ, y);
+    if (localZ === 0) this.markDirty(chunkX, chunkZ - 1, y);
+    if (localZ === CHUNK_SIZE - 1) this.markDirty(chunkX, chunkZ + 1, y);
+
+    this.scheduleNeighborhood(x, y, z);
+    return true;
+  }
+
+  private markDirty(chunkX: number, chunkZ: number, y: number): void {
+    const key = `${chunkX},${chunkZ}`;
+    const range = this.dirtyChunks.get(key);
+    if (range) {
+      range[0] = Math.min(range[0], y);
+      range[1] = Math.max(range[1], y);
+    } else {
+      this.dirtyChunks.set(key, [y, y]);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import * as THREE from "three";
+import { BlockRegistry } from "../BlockRegistry";
+
+// Resolución de cada capa; las texturas de otro tamaño se escalan al cargarlas
+const TILE_SIZE = 16;
+
+/**
+ * Todas las texturas de bloque en un THREE.DataArrayTexture, una capa por
+ * textura en el orden de BlockRegistry.getTextureLayers. Las mallas de chunk
+ * lo muestrean con el atributo "atlasUv", así que un chunk necesita un solo
+ * material para todas sus caras.
+ *
+ * Las capas empiezan en blanco y se rellenan a medida que cargan las imágenes.
+ */
+export class BlockTextureAtlas {
+  private static instance: BlockTextureAtlas;
+  public readonly texture: THREE.DataArrayTexture;
+  private data: Uint8Array;
+
+  private constructor() {
+    const layers = BlockRegistry.getInstance().getTextureLayers();
+    this.data = new Uint8Array(TILE_SIZE * TILE_SIZE * 4 * Math.max(1, layers.length)).fill(255);
+    this.texture = new THREE.DataArrayTexture(
+      this.data,
+      TILE_SIZE,
+      TILE_SIZE,
+      Math.max(1, layers.length)
+    );
+    this.texture.magFilter = THREE.NearestFilter;
+    this.texture.minFilter = THREE.NearestFilter;
+    this.texture.generateMipmaps = false;
+    this.texture.needsUpdate = true;
+
+    const loader = new THREE.ImageLoader();
+    layers.forEach((path, layer) => {
+      loader.load(
+        path,
+        (image) => this.setLayerImage(layer, image),
+        undefined,
+        () => console.warn(`BlockTextureAtlas: no se pudo cargar la textura ${path}`)
+      );
+    });
+  }
+
+  public static getInstance(): BlockTextureAtlas {
+    if (!BlockTextureAtlas.instance) {
+      BlockTextureAtlas.instance = new BlockTextureAtlas();
+    }
+    return BlockTextureAtlas.instance;
+  }
+
+  private setLayerImage(layer: number, image: HTMLImageElement): void {
+    const canvas = document.createElement("canvas");
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    context.imageSmoothingEnabled = false;
+    context.drawImage(image, 0, 0, TILE_SIZE, TILE_SIZE);
+    const pixels = context.getImageData(0, 0, TILE_SIZE, TILE_SIZE).data;
+
+    // Las texturas de datos no admiten flipY: las filas se copian de abajo a
+    // arriba para que v = 0 sea el borde inferior de la imagen
+    const rowSize = TILE_SIZE * 4;
+    const layerOffset = layer * TILE_SIZE * rowSize;
+    for (let row = 0; row < TILE_SIZE; row++) {
+      const sourceOffset = (TILE_SIZE - 1 - row) * rowSize;
+      this.data.set(
+        pixels.subarray(sourceOffset, sourceOffset + rowSize),
+        layerOffset + row * rowSize
+      );
+    }
+    this.texture.needsUpdate = true;
+  }
+}
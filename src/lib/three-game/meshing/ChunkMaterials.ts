@@ -0,0 +1,116 @@
+import * as THREE from "three";
+import { BlockTextureAtlas } from "./BlockTextureAtlas";
+import { applyVoxelLight } from "../lighting/VoxelLightMaterial";
+
+/**
+ * Uniform compartido por los materiales de chunks con el modo de depuración
+ * (World.setDebugMaterialMode): 0 normal, 1 niveles de luz, 2 capa de textura.
+ */
+export const chunkDebugUniforms = {
+  mode: { value: 0 },
+};
+
+let opaqueMaterial: THREE.MeshLambertMaterial | null = null;
+let transparentMaterial: THREE.MeshLambertMaterial | null = null;
+
+/**
+ * Hace que el material tome el color de BlockTextureAtlas con el atributo
+ * "atlasUv" (u, v en bloques y capa) en lugar de usar su "map".
+ */
+function applyBlockAtlas(material: THREE.MeshLambertMaterial): THREE.MeshLambertMaterial {
+  const atlas = BlockTextureAtlas.getInstance().texture;
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.uBlockAtlas = { value: atlas };
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+        attribute vec3 atlasUv;
+        varying vec3 vAtlasUv;`
+      )
+      .replace(
+        "#include <begin_vertex>",
+        `#include <begin_vertex>
+        vAtlasUv = atlasUv;`
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+        uniform sampler2DArray uBlockAtlas;
+        varying vec3 vAtlasUv;`
+      )
+      .replace(
+        "#include <map_fragment>",
+        // La textura se repite en cada bloque de un quad fusionado
+        `diffuseColor *= texture(uBlockAtlas, vec3(fract(vAtlasUv.xy), vAtlasUv.z));`
+      );
+  };
+  material.customProgramCacheKey = () => "blockAtlas";
+  return applyDebugMode(applyVoxelLight(material));
+}
+
+/**
+ * Sustituye el color final por la luz horneada (cielo en azul, bloques en
+ * naranja) o por un color por capa del atlas según chunkDebugUniforms.
+ */
+function applyDebugMode(material: THREE.MeshLambertMaterial): THREE.MeshLambertMaterial {
+  const previousOnBeforeCompile = material.onBeforeCompile;
+  const previousCacheKey = material.customProgramCacheKey.bind(material);
+  material.onBeforeCompile = (shader, renderer) => {
+    previousOnBeforeCompile.call(material, shader, renderer);
+    shader.uniforms.uDebugMode = chunkDebugUniforms.mode;
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        `#include <common>
+        uniform int uDebugMode;`
+      )
+      .replace(
+        "#include <opaque_fragment>",
+        `if (uDebugMode == 1) {
+          outgoingLight = vVoxelLight.x * vec3(0.3, 0.5, 1.0) + vVoxelLight.y * vec3(1.0, 0.6, 0.2);
+        } else if (uDebugMode == 2) {
+          outgoingLight = fract(sin(vec3(vAtlasUv.z + 1.0) * vec3(12.9898, 78.233, 37.719)) * 43758.5453);
+        }
+        #include <opaque_fragment>`
+      );
+  };
+  material.customProgramCacheKey = () => previousCacheKey() + "_debugMode";
+  return material;
+}
+
+/**
+ * Material de las caras opacas de todos los chunks. Los píxeles transparentes
+ * de las texturas (hojas, plantas) se recortan con alphaTest.
+ */
+export function getOpaqueChunkMaterial(): THREE.MeshLambertMaterial {
+  if (!opaqueMaterial) {
+    opaqueMaterial = applyBlockAtlas(
+      new THREE.MeshLambertMaterial({
+        vertexColors: true,
+        alphaTest: 0.5,
+      })
+    );
+  }
+  return opaqueMaterial;
+}
+
+/**
+ * Material de las caras translúcidas (agua): la opacidad de cada bloque va en
+ * el canal alfa del atributo "color".
+ */
+export function getTransparentChunkMaterial(): THREE.MeshLambertMaterial {
+  if (!transparentMaterial) {
+    transparentMaterial = applyBlockAtlas(
+      new THREE.MeshLambertMaterial({
+        vertexColors: true,
+        transparent: true,
+        depthWrite: false,
+        alphaTest: 0.05, // Descartar píxeles demasiado transparentes
+        side: THREE.DoubleSide, // Las superficies se ven también desde dentro del agua
+      })
+    );
+  }
+  return transparentMaterial;
+}
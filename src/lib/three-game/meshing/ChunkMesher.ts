@@ -0,0 +1,527 @@
+import { AIR_BLOCK_ID, type BlockPaletteEntry } from "../BlockRegistry";
+import { getLiquidSurfaceHeight } from "../BlockTypes";
+import { MAX_LIGHT, OPEN_SKY_LIGHT, getBlockLight, getSkyLight } from "../lighting/VoxelLightEngine";
+
+/** Bloque del borde cuyo chunk vecino no está cargado */
+export const UNLOADED_BLOCK = 0xffff;
+
+// Brillo de un vértice según cuántos de sus tres vecinos lo ocultan (oclusión ambiental)
+const AO_BRIGHTNESS = [0.45, 0.65, 0.82, 1];
+const NO_OCCLUSION = AO_BRIGHTNESS.length - 1;
+
+/**
+ * Lo que necesita el mallado de una sección de chunk. Todo son datos planos
+ * para que se pueda ejecutar igual en el hilo principal que en meshWorker.ts.
+ */
+export interface ChunkMeshInput {
+  // Ids de bloque de la sección con un bloque de borde alrededor, también por
+  // encima y por debajo (como getPaddedIndex en utils.ts); UNLOADED_BLOCK donde
+  // no hay vecino cargado. Sobre el mundo hay aire
+  blocks: Uint16Array;
+  // Luz (cielo << 4 | bloque) con el mismo formato (VoxelLightEngine.getPaddedLight);
+  // null = todo a pleno sol
+  light: Uint8Array | null;
+  // Color de hierba del bioma por columna (r, g, b), indexado con (z * sizeX + x) * 3
+  columnTints: Float32Array | null;
+  palette: BlockPaletteEntry[];
+  sizeX: number;
+  sizeY: number;
+  sizeZ: number;
+  // Altura del mundo de la primera capa; bajo el mundo no se dibujan caras
+  originY: number;
+  ambientOcclusion: boolean;
+}
+
+/**
+ * Geometría de una de las mallas de la sección, lista para THREE.BufferGeometry.
+ * Las posiciones son relativas a la primera capa de la sección.
+ */
+export interface ChunkMeshPart {
+  positions: Float32Array; // x, y, z
+  normals: Float32Array; // x, y, z
+  atlasUv: Float32Array; // u, v en bloques (la textura se repite) y capa del atlas
+  colors: Float32Array; // tinte del bioma (r, g, b) y opacidad
+  voxelLight: Float32Array; // cielo, bloque en 0-1
+  ambientOcclusion: Float32Array; // brillo de 0 a 1
+  indices: Uint32Array;
+}
+
+/**
+ * Una malla para los bloques opacos y recortados (hojas, plantas) y otra para
+ * los translúcidos (agua), que se dibuja después y no escribe profundidad.
+ */
+export interface ChunkMeshData {
+  opaque: ChunkMeshPart;
+  transparent: ChunkMeshPart;
+}
+
+// Ejes (u, v) del plano de las caras perpendiculares a X, Y y Z. En las caras
+// laterales v es siempre la Y, para que las texturas queden derechas.
+const FACE_AXES: [number, number][] = [
+  [2, 1],
+  [0, 2],
+  [0, 1],
+];
+
+// Signo de u × v respecto al eje de la cara: si no coincide con el sentido de
+// la normal, los vértices se recorren al revés para que miren hacia fuera
+const FACE_AXES_WINDING = [-1, -1, 1];
+
+// Las seis direcciones en el orden de THREE.BoxGeometry (+X, -X, +Y, -Y, +Z, -Z),
+// el mismo que BlockPaletteEntry.textures
+const FACE_DIRECTIONS: { axis: number; sign: number }[] = [
+  { axis: 0, sign: 1 },
+  { axis: 0, sign: -1 },
+  { axis: 1, sign: 1 },
+  { axis: 1, sign: -1 },
+  { axis: 2, sign: 1 },
+  { axis: 2, sign: -1 },
+];
+const TOP_FACE = 2;
+
+// Plantas: dos planos en diagonal, cada uno con cuatro esquinas y su normal
+const CROSS_QUADS: { corners: number[][]; normal: number[] }[] = [
+  {
+    corners: [
+      [0, 0, 0],
+      [1, 0, 1],
+      [1, 1, 1],
+      [0, 1, 0],
+    ],
+    normal: [-Math.SQRT1_2, 0, Math.SQRT1_2],
+  },
+  {
+    corners: [
+      [1, 0, 0],
+      [0, 0, 1],
+      [0, 1, 1],
+      [1, 1, 0],
+    ],
+    normal: [-Math.SQRT1_2, 0, -Math.SQRT1_2],
+  },
+];
+const CROSS_UVS = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+];
+
+/** Acumula los quads de una de las mallas del chunk */
+class MeshPartBuilder {
+  private positions: number[] = [];
+  private normals: number[] = [];
+  private atlasUv: number[] = [];
+  private colors: number[] = [];
+  private voxelLight: number[] = [];
+  private ambientOcclusion: number[] = [];
+  private indices: number[] = [];
+
+  /**
+   * Añade un quad con las esquinas en orden antihorario visto desde donde
+   * apunta la normal (o al revés si reversed).
+   */
+  public addQuad(
+    corners: number[][],
+    normal: number[],
+    uvs: number[][],
+    layer: number,
+    color: number[],
+    packedLight: number,
+    ao: number[],
+    reversed: boolean
+  ): void {
+    const base = this.positions.length / 3;
+    const sky = getSkyLight(packedLight) / MAX_LIGHT;
+    const block = getBlockLight(packedLight) / MAX_LIGHT;
+    for (let i = 0; i < 4; i++) {
+      this.positions.push(corners[i][0], corners[i][1], corners[i][2]);
+      this.normals.push(normal[0], normal[1], normal[2]);
+      this.atlasUv.push(uvs[i][0], uvs[i][1], layer);
+      this.colors.push(color[0], color[1], color[2], color[3]);
+      this.voxelLight.push(sky, block);
+      this.ambientOcclusion.push(ao[i]);
+    }
+    // Se parte el quad por la diagonal más clara para que la oclusión no
+    // dependa de la orientación de la cara
+    const triangles =
+      ao[1] + ao[3] > ao[0] + ao[2] ? [0, 1, 3, 1, 2, 3] : [0, 1, 2, 0, 2, 3];
+    if (reversed) {
+      for (let i = 0; i < triangles.length; i += 3) {
+        [triangles[i + 1], triangles[i + 2]] = [triangles[i + 2], triangles[i + 1]];
+      }
+    }
+    triangles.forEach((corner) => this.indices.push(base + corner));
+  }
+
+  public build(): ChunkMeshPart {
+    return {
+      positions: new Float32Array(this.positions),
+      normals: new Float32Array(this.normals),
+      atlasUv: new Float32Array(this.atlasUv),
+      colors: new Float32Array(this.colors),
+      voxelLight: new Float32Array(this.voxelLight),
+      ambientOcclusion: new Float32Array(this.ambientOcclusion),
+      indices: new Uint32Array(this.indices),
+    };
+  }
+}
+
+/**
+ * Indica si la sección no tiene ninguna cara visible sin necesidad de
+ * mallarla: es toda aire, o todos sus bloques son opacos y también los que la
+ * rodean por sus seis lados.
+ */
+export function isMeshEmpty(input: ChunkMeshInput): boolean {
+  const { blocks, palette, sizeX, sizeY, sizeZ, originY } = input;
+  const paddedSizeX = sizeX + 2;
+  const paddedSizeZ = sizeZ + 2;
+  const isOpaque = (id: number): boolean =>
+    id !== UNLOADED_BLOCK && !(palette[id] ?? palette[AIR_BLOCK_ID]).transparent;
+
+  let allAir = true;
+  let allOpaque = true;
+  for (let y = -1; y <= sizeY; y++) {
+    // La capa de debajo del mundo nunca se ve
+    if (originY + y < 0) continue;
+    for (let z = -1; z <= sizeZ; z++) {
+      for (let x = -1; x <= sizeX; x++) {
+        const inside = x >= 0 && x < sizeX && y >= 0 && y < sizeY && z >= 0 && z < sizeZ;
+        const outsideCount =
+          (x < 0 || x >= sizeX ? 1 : 0) + (y < 0 || y >= sizeY ? 1 : 0) + (z < 0 || z >= sizeZ ? 1 : 0);
+        // Las aristas y esquinas del borde no tapan ninguna cara
+        if (outsideCount > 1) continue;
+        const id = blocks[((y + 1) * paddedSizeZ + (z + 1)) * paddedSizeX + (x + 1)];
+        if (inside && id !== AIR_BLOCK_ID) allAir = false;
+        if (!isOpaque(id)) allOpaque = false;
+        if (!allAir && !allOpaque) return false;
+      }
+    }
+  }
+  return allAir || allOpaque;
+}
+
+/** Buffers de los datos del mallado, para transferirlos entre hilos sin copiarlos */
+export function getChunkMeshTransferables(meshData: ChunkMeshData): ArrayBuffer[] {
+  return [meshData.opaque, meshData.transparent].flatMap((part) => [
+    part.positions.buffer,
+    part.normals.buffer,
+    part.atlasUv.buffer,
+    part.colors.buffer,
+    part.voxelLight.buffer,
+    part.ambientOcclusion.buffer,
+    part.indices.buffer,
+  ]) as ArrayBuffer[];
+}
+
+/**
+ * Malla un chunk con fusión voraz de caras (greedy meshing): en cada capa y
+ * dirección, las caras visibles contiguas del mismo bloque con la misma luz,
+ * oclusión y tinte se unen en un solo quad. La textura se repite dentro del
+ * quad porque las coordenadas del atlas van en bloques.
+ *
+ * Las superficies inclinadas de los líquidos que fluyen y las plantas se
+ * mallan bloque a bloque.
+ */
+export function buildChunkMesh(input: ChunkMeshInput): ChunkMeshData {
+  const { blocks, light, columnTints, palette, sizeX, sizeY, sizeZ, originY } = input;
+  const sizes = [sizeX, sizeY, sizeZ];
+  const paddedSizeX = sizeX + 2;
+  const paddedSizeZ = sizeZ + 2;
+  const getIndex = (x: number, y: number, z: number): number =>
+    ((y + 1) * paddedSizeZ + (z + 1)) * paddedSizeX + (x + 1);
+  const getEntry = (id: number): BlockPaletteEntry => palette[id] ?? palette[AIR_BLOCK_ID];
+  const getLight = (x: number, y: number, z: number): number =>
+    light ? light[getIndex(x, y, z)] : OPEN_SKY_LIGHT;
+
+  // Bloques que proyectan oclusión ambiental: cubos opacos que no son líquidos.
+  // La tabla cubre todos los ids, así que UNLOADED_BLOCK no ocluye
+  const occluderById = new Uint8Array(0x10000);
+  palette.forEach((entry, id) => {
+    occluderById[id] = entry && !entry.transparent && !entry.liquid && !entry.cross ? 1 : 0;
+  });
+  // Distancia en el volumen con borde entre dos celdas vecinas en X, Y y Z
+  const strides = [1, paddedSizeX * paddedSizeZ, paddedSizeX];
+  const isOccluderAt = (index: number, y: number): number =>
+    originY + y < 0 ? 0 : occluderById[blocks[index]];
+
+  // Regla de visibilidad de las caras de cubo
+  const shouldRenderFace = (current: BlockPaletteEntry, neighborId: number): boolean => {
+    // Con el vecino sin cargar no se dibujan las caras de los líquidos, para
+    // evitar "paredes" de agua en el borde de lo cargado
+    if (neighborId === UNLOADED_BLOCK) return !current.liquid;
+    const neighbor = getEntry(neighborId);
+    // Los líquidos solo muestran caras contra bloques transparentes que no son líquidos
+    if (current.liquid) return neighbor.transparent && !neighbor.liquid;
+    return neighbor.transparent && neighbor.name !== current.name;
+  };
+
+  /**
+   * Altura de las cuatro esquinas superiores de un líquido, en el orden
+   * [x0z0, x1z0, x0z1, x1z1]: la media de las celdas de líquido que comparten
+   * cada esquina, o 1 si alguna de ellas tiene líquido encima. Null si el
+   * líquido tiene otro encima (no hay superficie).
+   */
+  const getLiquidCornerHeights = (x: number, y: number, z: number): number[] | null => {
+    const isLiquidAt = (cx: number, cy: number, cz: number): boolean => {
+      const id = blocks[getIndex(cx, cy, cz)];
+      return id !== UNLOADED_BLOCK && getEntry(id).liquid;
+    };
+    if (isLiquidAt(x, y + 1, z)) return null;
+    // La celda y sus 8 vecinas; null = no es líquido, Infinity = tiene líquido encima
+    const heights: (number | null)[] = [];
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (!isLiquidAt(x + dx, y, z + dz)) {
+          heights.push(null);
+        } else if (isLiquidAt(x + dx, y + 1, z + dz)) {
+          heights.push(Infinity);
+        } else {
+          const id = blocks[getIndex(x + dx, y, z + dz)];
+          heights.push(getLiquidSurfaceHeight(getEntry(id).flowLevel));
+        }
+      }
+    }
+    const corners: number[] = [];
+    for (let cornerZ = 0; cornerZ <= 1; cornerZ++) {
+      for (let cornerX = 0; cornerX <= 1; cornerX++) {
+        let total = 0;
+        let count = 0;
+        for (const cell of [
+          heights[cornerZ * 3 + cornerX],
+          heights[cornerZ * 3 + cornerX + 1],
+          heights[(cornerZ + 1) * 3 + cornerX],
+          heights[(cornerZ + 1) * 3 + cornerX + 1],
+        ]) {
+          if (cell === null) continue;
+          total += cell;
+          count++;
+        }
+        corners.push(Math.min(1, total / count));
+      }
+    }
+    return corners;
+  };
+
+  const opaque = new MeshPartBuilder();
+  const transparent = new MeshPartBuilder();
+  const getPart = (entry: BlockPaletteEntry): MeshPartBuilder =>
+    entry.opacity < 1 ? transparent : opaque;
+  // Posición en columnTints del tinte de una cara, o -1 si no se tiñe
+  const getFaceTint = (entry: BlockPaletteEntry, x: number, z: number, face: number): number => {
+    const tinted = entry.tint === "all" || (entry.tint === "top" && face === TOP_FACE);
+    return columnTints && tinted ? (z * sizeX + x) * 3 : -1;
+  };
+  // Tinte (r, g, b) y opacidad de una cara
+  const getFaceColor = (entry: BlockPaletteEntry, tint: number): number[] => {
+    const alpha = Math.min(1, entry.opacity);
+    if (tint < 0) return [1, 1, 1, alpha];
+    return [columnTints![tint], columnTints![tint + 1], columnTints![tint + 2], alpha];
+  };
+  const isSameTint = (a: number, b: number): boolean =>
+    a === b ||
+    (a >= 0 &&
+      b >= 0 &&
+      columnTints![a] === columnTints![b] &&
+      columnTints![a + 1] === columnTints![b + 1] &&
+      columnTints![a + 2] === columnTints![b + 2]);
+
+  for (let face = 0; face < FACE_DIRECTIONS.length; face++) {
+    const { axis, sign } = FACE_DIRECTIONS[face];
+    const [axisU, axisV] = FACE_AXES[axis];
+    const width = sizes[axisU];
+    const height = sizes[axisV];
+    const reversed = FACE_AXES_WINDING[axis] * sign < 0;
+    // La textura avanza hacia la derecha de quien mira la cara
+    const textureSignU = axis === 0 ? -sign : axis === 2 ? sign : 1;
+    const normal = [0, 0, 0];
+    normal[axis] = sign;
+
+    const normalStride = sign * strides[axis];
+    const strideU = strides[axisU];
+    const strideV = strides[axisV];
+
+    // Caras visibles de la capa: bloque (-1 = ninguna), luz de la celda a la
+    // que miran, oclusión de sus cuatro esquinas (2 bits cada una) y tinte
+    const maskBlock = new Int32Array(width * height);
+    const maskLight = new Uint8Array(width * height);
+    const maskAO = new Uint8Array(width * height);
+    const maskTint = new Int32Array(width * height);
+    const isSameFace = (a: number, b: number): boolean =>
+      maskBlock[b] === maskBlock[a] &&
+      maskLight[b] === maskLight[a] &&
+      maskAO[b] === maskAO[a] &&
+      isSameTint(maskTint[a], maskTint[b]);
+
+    const cell = [0, 0, 0];
+    for (let slice = 0; slice < sizes[axis]; slice++) {
+      maskBlock.fill(-1);
+      cell[axis] = slice;
+      for (let v = 0; v < height; v++) {
+        cell[axisV] = v;
+        for (let u = 0; u < width; u++) {
+          cell[axisU] = u;
+          const x = cell[0];
+          const y = cell[1];
+          const z = cell[2];
+          const index = getIndex(x, y, z);
+          const id = blocks[index];
+          const entry = getEntry(id);
+          if (id === AIR_BLOCK_ID || entry.cross || !entry.textures) continue;
+
+          const ny = y + normal[1];
+          // Bajo el mundo no se ve nada
+          if (originY + ny < 0) continue;
+          const neighborIndex = index + normalStride;
+          if (!shouldRenderFace(entry, blocks[neighborIndex])) continue;
+
+          const faceLight = getLight(x + normal[0], ny, z + normal[2]);
+          const liquidCorners = entry.liquid ? getLiquidCornerHeights(x, y, z) : null;
+          if (liquidCorners && liquidCorners.some((corner) => corner < 1)) {
+            // Superficie inclinada: las esquinas superiores bajan a su altura
+            const corners = [
+              [0, 0],
+              [1, 0],
+              [1, 1],
+              [0, 1],
+            ].map(([du, dv]) => {
+              const corner = [x, y, z];
+              corner[axis] += sign > 0 ? 1 : 0;
+              corner[axisU] += du;
+              corner[axisV] += dv;
+              if (corner[1] === y + 1) {
+                corner[1] = y + liquidCorners[(corner[2] - z) * 2 + (corner[0] - x)];
+              }
+              return corner;
+            });
+            getPart(entry).addQuad(
+              corners,
+              normal,
+              corners.map((corner) => [corner[axisU] * textureSignU, corner[axisV]]),
+              entry.textures[face],
+              getFaceColor(entry, getFaceTint(entry, x, z, face)),
+              faceLight,
+              [1, 1, 1, 1],
+              reversed
+            );
+            continue;
+          }
+
+          const maskIndex = v * width + u;
+          maskBlock[maskIndex] = id;
+          maskLight[maskIndex] = faceLight;
+          maskTint[maskIndex] = getFaceTint(entry, x, z, face);
+          // Las superficies de líquido no llevan oclusión
+          let ao = NO_OCCLUSION * 0x55;
+          if (input.ambientOcclusion && !entry.liquid) {
+            ao = 0;
+            for (let corner = 0; corner < 4; corner++) {
+              // Esquinas en el orden (0, 0), (1, 0), (1, 1), (0, 1) del plano (u, v)
+              const du = corner === 1 || corner === 2 ? 1 : -1;
+              const dv = corner >= 2 ? 1 : -1;
+              // Y de los vecinos de lado, que cambia si u o v es el eje Y
+              const side1Y = ny + (axisU === 1 ? du : 0);
+              const side2Y = ny + (axisV === 1 ? dv : 0);
+              const s1 = isOccluderAt(neighborIndex + du * strideU, side1Y);
+              const s2 = isOccluderAt(neighborIndex + dv * strideV, side2Y);
+              const level =
+                s1 && s2
+                  ? 0
+                  : NO_OCCLUSION -
+                    s1 -
+                    s2 -
+                    isOccluderAt(
+                      neighborIndex + du * strideU + dv * strideV,
+                      side1Y + side2Y - ny
+                    );
+              ao |= level << (corner * 2);
+            }
+          }
+          maskAO[maskIndex] = ao;
+        }
+      }
+
+      // Fusión voraz: cada cara crece a lo ancho y luego a lo alto mientras
+      // todas las caras que cubre sean iguales
+      for (let v = 0; v < height; v++) {
+        for (let u = 0; u < width; ) {
+          const start = v * width + u;
+          if (maskBlock[start] < 0) {
+            u++;
+            continue;
+          }
+          let quadWidth = 1;
+          while (u + quadWidth < width && isSameFace(start, start + quadWidth)) quadWidth++;
+          let quadHeight = 1;
+          grow: while (v + quadHeight < height) {
+            for (let du = 0; du < quadWidth; du++) {
+              if (!isSameFace(start, (v + quadHeight) * width + u + du)) break grow;
+            }
+            quadHeight++;
+          }
+
+          const entry = getEntry(maskBlock[start]);
+          const corners = [
+            [u, v],
+            [u + quadWidth, v],
+            [u + quadWidth, v + quadHeight],
+            [u, v + quadHeight],
+          ].map(([cu, cv]) => {
+            const corner = [0, 0, 0];
+            corner[axis] = slice + (sign > 0 ? 1 : 0);
+            corner[axisU] = cu;
+            corner[axisV] = cv;
+            return corner;
+          });
+          const ao = [0, 1, 2, 3].map(
+            (corner) => AO_BRIGHTNESS[(maskAO[start] >> (corner * 2)) & 3]
+          );
+          getPart(entry).addQuad(
+            corners,
+            normal,
+            corners.map((corner) => [corner[axisU] * textureSignU, corner[axisV]]),
+            entry.textures![face],
+            getFaceColor(entry, maskTint[start]),
+            maskLight[start],
+            ao,
+            reversed
+          );
+
+          for (let dv = 0; dv < quadHeight; dv++) {
+            maskBlock.fill(-1, (v + dv) * width + u, (v + dv) * width + u + quadWidth);
+          }
+          u += quadWidth;
+        }
+      }
+    }
+  }
+
+  // Plantas: cada plano se dibuja por las dos caras con la luz de su propia celda
+  for (let y = 0; y < sizeY; y++) {
+    for (let z = 0; z < sizeZ; z++) {
+      for (let x = 0; x < sizeX; x++) {
+        const entry = getEntry(blocks[getIndex(x, y, z)]);
+        if (!entry.cross || !entry.textures) continue;
+        const color = getFaceColor(entry, getFaceTint(entry, x, z, 0));
+        const cellLight = getLight(x, y, z);
+        for (const quad of CROSS_QUADS) {
+          const corners = quad.corners.map(([cx, cy, cz]) => [x + cx, y + cy, z + cz]);
+          for (const side of [1, -1]) {
+            getPart(entry).addQuad(
+              corners,
+              quad.normal.map((n) => n * side),
+              CROSS_UVS,
+              entry.textures[0],
+              color,
+              cellLight,
+              [1, 1, 1, 1],
+              side < 0
+            );
+          }
+        }
+      }
+    }
+  }
+
+  return { opaque: opaque.build(), transparent: transparent.build() };
+}
@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import type { PlayerWorldService } from "../types";
+import { BlockRegistry } from "../BlockRegistry";
 
 export interface CollisionResult {
   newPosition: THREE.Vector3;
@@ -9,12 +10,19 @@ export interface CollisionResult {
 export class CollisionService {
   private world: PlayerWorldService;
   private stepHeight: number;
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
+  // Modo espectador: el volumen atraviesa los bloques
+  private noclip: boolean = false;
 
   constructor(world: PlayerWorldService, stepHeight: number = 0.6) {
     this.world = world;
     this.stepHeight = stepHeight;
   }
 
+  public setNoclip(noclip: boolean): void {
+    this.noclip = noclip;
+  }
+
   /**
    * Resuelve colisiones y step-up para un volumen dado.
    * @param currentPos Posición actual (Vector3)
@@ -27,6 +35,13 @@ export class CollisionService {
     desiredVelocity: THREE.Vector3,
     dims: { width: number; height: number; depth: number }
   ): CollisionResult {
+    if (this.noclip) {
+      return {
+        newPosition: currentPos.clone().add(desiredVelocity),
+        isOnGround: false,
+      };
+    }
+
     let { x: px, y: py, z: pz } = currentPos;
     let dx = desiredVelocity.x;
     let dy = desiredVelocity.y;
@@ -141,7 +156,7 @@ export class CollisionService {
       for (let y = Math.floor(min.y); y < Math.ceil(max.y); y++) {
         for (let z = Math.floor(min.z); z < Math.ceil(max.z); z++) {
           const blockType = this.world.getBlock(x, y, z);
-          if (blockType && blockType !== "air" && blockType !== "waterBlock") {
+          if (this.blockRegistry.isSolid(blockType)) {
             return true;
           }
         }
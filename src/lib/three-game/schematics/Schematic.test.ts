@@ -0,0 +1,188 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  IDENTITY_TRANSFORM,
+  MAX_SCHEMATIC_VOLUME,
+  createSchematic,
+  forEachSchematicBlock,
+  getTransformedSize,
+  mirrorTransform,
+  parseSchematic,
+  rotateTransform,
+  serializeSchematic,
+  type Schematic,
+  type SchematicTransform,
+} from "./Schematic";
+
+// Mundo de prueba: bloques por "x,y,z", aire donde no hay nada
+type FakeWorld = Map<string, string>;
+
+const getBlock = (world: FakeWorld, x: number, y: number, z: number): string =>
+  world.get(`${x},${y},${z}`) ?? "air";
+
+/** Una casita con suelo, paredes, hueco de puerta, antorcha y agua */
+function buildHouse(originX: number, originY: number, originZ: number): FakeWorld {
+  const world: FakeWorld = new Map();
+  for (let y = 0; y < 4; y++) {
+    for (let z = 0; z < 5; z++) {
+      for (let x = 0; x < 6; x++) {
+        const wall = x === 0 || x === 5 || z === 0 || z === 4;
+        let block = "air";
+        if (y === 0) block = "cobblestoneBlock";
+        else if (wall && !(x === 2 && z === 0 && y < 3)) block = y === 3 ? "woodLogBlock" : "stoneBlock";
+        world.set(`${originX + x},${originY + y},${originZ + z}`, block);
+      }
+    }
+  }
+  world.set(`${originX + 3},${originY + 1},${originZ + 2}`, "torchBlock");
+  world.set(`${originX + 4},${originY + 1},${originZ + 3}`, "waterBlock");
+  return world;
+}
+
+/** Exporta el prisma [min, min + size) del mundo como haría SchematicService */
+function exportRegion(
+  world: FakeWorld,
+  min: [number, number, number],
+  size: [number, number, number]
+): Schematic {
+  return createSchematic(size, (x, y, z) => getBlock(world, min[0] + x, min[1] + y, min[2] + z));
+}
+
+/** Coloca la estructura con su esquina mínima en `origin` */
+function importAt(
+  world: FakeWorld,
+  schematic: Schematic,
+  origin: [number, number, number],
+  transform: SchematicTransform = IDENTITY_TRANSFORM
+): void {
+  forEachSchematicBlock(schematic, transform, (x, y, z, block) => {
+    world.set(`${origin[0] + x},${origin[1] + y},${origin[2] + z}`, block);
+  });
+}
+
+/** Bloques de la estructura colocada con la orientación dada, por "x,y,z" */
+function placedBlocks(schematic: Schematic, transform: SchematicTransform): FakeWorld {
+  const world: FakeWorld = new Map();
+  importAt(world, schematic, [0, 0, 0], transform);
+  return world;
+}
+
+test("exportar e importar reproduce los mismos bloques en otra posición", () => {
+  const source = buildHouse(-7, 40, 13);
+  const size: [number, number, number] = [6, 4, 5];
+  const schematic = parseSchematic(serializeSchematic(exportRegion(source, [-7, 40, 13], size)));
+
+  const target: FakeWorld = new Map();
+  importAt(target, schematic, [100, 5, -50]);
+
+  assert.equal(target.size, 6 * 4 * 5);
+  for (let y = 0; y < size[1]; y++) {
+    for (let z = 0; z < size[2]; z++) {
+      for (let x = 0; x < size[0]; x++) {
+        assert.equal(
+          getBlock(target, 100 + x, 5 + y, -50 + z),
+          getBlock(source, -7 + x, 40 + y, 13 + z),
+          `bloque ${x},${y},${z}`
+        );
+      }
+    }
+  }
+});
+
+test("la paleta y los tramos son compactos", () => {
+  const source = buildHouse(0, 0, 0);
+  const schematic = exportRegion(source, [0, 0, 0], [6, 4, 5]);
+  assert.deepEqual(
+    [...schematic.palette].sort(),
+    ["air", "cobblestoneBlock", "stoneBlock", "torchBlock", "waterBlock", "woodLogBlock"]
+  );
+  // El suelo entero es un solo tramo
+  assert.deepEqual(schematic.blocks.slice(0, 2), [30, schematic.palette.indexOf("cobblestoneBlock")]);
+  assert.ok(schematic.blocks.length < 6 * 4 * 5);
+
+  const solid = createSchematic([32, 32, 32], () => "stoneBlock");
+  assert.deepEqual(solid.palette, ["stoneBlock"]);
+  assert.deepEqual(solid.blocks, [32768, 0]);
+  assert.ok(serializeSchematic(solid).length < 150);
+});
+
+test("el tamaño orientado intercambia x y z en los giros impares", () => {
+  const schematic = createSchematic([2, 3, 5], () => "stoneBlock");
+  assert.deepEqual(getTransformedSize(schematic, { rotation: 0, mirror: false }), [2, 3, 5]);
+  assert.deepEqual(getTransformedSize(schematic, { rotation: 1, mirror: true }), [5, 3, 2]);
+  assert.deepEqual(getTransformedSize(schematic, { rotation: 2, mirror: false }), [2, 3, 5]);
+  assert.deepEqual(getTransformedSize(schematic, { rotation: -1, mirror: false }), [5, 3, 2]);
+});
+
+test("girar y reflejar colocan cada bloque donde corresponde", () => {
+  // Fila en x = 0..2 en el borde z = 0: tras un cuarto de vuelta horario
+  // queda en el borde x = fondo - 1, de z = 0 a 2
+  const row = createSchematic([3, 1, 2], (x, _y, z) => (z === 0 ? ["a", "b", "c"][x] : "air"));
+
+  const rotated = placedBlocks(row, { rotation: 1, mirror: false });
+  assert.equal(getBlock(rotated, 1, 0, 0), "a");
+  assert.equal(getBlock(rotated, 1, 0, 1), "b");
+  assert.equal(getBlock(rotated, 1, 0, 2), "c");
+
+  const mirrored = placedBlocks(row, { rotation: 0, mirror: true });
+  assert.equal(getBlock(mirrored, 0, 0, 0), "c");
+  assert.equal(getBlock(mirrored, 2, 0, 0), "a");
+
+  const flipped = placedBlocks(row, mirrorTransform(IDENTITY_TRANSFORM, "z"));
+  assert.equal(getBlock(flipped, 0, 0, 1), "a");
+  assert.equal(getBlock(flipped, 2, 0, 1), "c");
+});
+
+test("cuatro giros o dos espejos dejan la estructura como estaba", () => {
+  const schematic = exportRegion(buildHouse(0, 0, 0), [0, 0, 0], [6, 4, 5]);
+  const original = placedBlocks(schematic, IDENTITY_TRANSFORM);
+
+  let transform: SchematicTransform = { rotation: 3, mirror: true };
+  const start = placedBlocks(schematic, transform);
+  for (let turn = 0; turn < 4; turn++) transform = rotateTransform(transform, 1);
+  assert.deepEqual(placedBlocks(schematic, transform), start);
+
+  for (const axis of ["x", "z"] as const) {
+    const twice = mirrorTransform(mirrorTransform(IDENTITY_TRANSFORM, axis), axis);
+    assert.deepEqual(placedBlocks(schematic, twice), original);
+  }
+});
+
+test("reflejar la estructura ya girada equivale a reflejar el resultado", () => {
+  const schematic = exportRegion(buildHouse(0, 0, 0), [0, 0, 0], [6, 4, 5]);
+  for (let rotation = 0; rotation < 4; rotation++) {
+    const transform: SchematicTransform = { rotation, mirror: false };
+    const [sizeX, , sizeZ] = getTransformedSize(schematic, transform);
+    const before = placedBlocks(schematic, transform);
+
+    const expectedX: FakeWorld = new Map();
+    const expectedZ: FakeWorld = new Map();
+    before.forEach((block, key) => {
+      const [x, y, z] = key.split(",").map(Number);
+      expectedX.set(`${sizeX - 1 - x},${y},${z}`, block);
+      expectedZ.set(`${x},${y},${sizeZ - 1 - z}`, block);
+    });
+    assert.deepEqual(placedBlocks(schematic, mirrorTransform(transform, "x")), expectedX);
+    assert.deepEqual(placedBlocks(schematic, mirrorTransform(transform, "z")), expectedZ);
+  }
+});
+
+test("las estructuras no válidas se rechazan con un error", () => {
+  const valid = createSchematic([2, 1, 1], (x) => (x === 0 ? "stoneBlock" : "air"));
+  const withChanges = (changes: Record<string, unknown>) =>
+    JSON.stringify({ ...valid, ...changes });
+
+  assert.throws(() => parseSchematic("{"), /JSON/);
+  assert.throws(() => parseSchematic(withChanges({ format: "otro" })), /no es una estructura/);
+  assert.throws(() => parseSchematic(withChanges({ version: 99 })), /Versión/);
+  assert.throws(() => parseSchematic(withChanges({ size: [2, 0, 1] })), /Tamaño/);
+  assert.throws(() => parseSchematic(withChanges({ palette: [1] })), /Paleta/);
+  assert.throws(() => parseSchematic(withChanges({ blocks: [1, 0, 1, 5] })), /fuera de rango/);
+  assert.throws(() => parseSchematic(withChanges({ blocks: [1, 0, 0, 1] })), /Tramo/);
+  assert.throws(() => parseSchematic(withChanges({ blocks: [1, 0] })), /tiene 1 bloques/);
+  assert.throws(
+    () => createSchematic([MAX_SCHEMATIC_VOLUME + 1, 1, 1], () => "air"),
+    /demasiado grande/
+  );
+  assert.deepEqual(parseSchematic(serializeSchematic(valid)), valid);
+});
@@ -0,0 +1,176 @@
+import * as THREE from "three";
+import type { IWorldService, LookingAtInfo } from "../types";
+import { BlockRegistry } from "../BlockRegistry";
+
+export const BREAK_STAGES = 10;
+
+const HIGHLIGHT_MESH_NAME = "Block_Wireframe_Highlight_Mesh";
+const CRACK_TEXTURE_SIZE = 16;
+const CRACK_SEGMENTS = 40;
+
+/**
+ * Genera las 10 texturas de grietas. Cada fase dibuja más segmentos de los
+ * mismos caminos aleatorios, así las grietas crecen en lugar de cambiar.
+ */
+const createCrackTextures = (): THREE.Texture[] => {
+  // Caminos fijos para que todas las partidas muestren las mismas grietas
+  let seed = 1337;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+  };
+
+  const pixels: Array<[number, number]> = [];
+  const center = CRACK_TEXTURE_SIZE / 2;
+  for (let path = 0; path < 4; path++) {
+    let x = center;
+    let y = center;
+    for (let i = 0; i < CRACK_SEGMENTS / 4; i++) {
+      x = Math.min(CRACK_TEXTURE_SIZE - 1, Math.max(0, x + Math.round(random() * 2 - 1)));
+      y = Math.min(CRACK_TEXTURE_SIZE - 1, Math.max(0, y + Math.round(random() * 2 - 1)));
+      pixels.push([x, y]);
+    }
+  }
+  // Intercalar los caminos para que todos avancen a la vez
+  const ordered: Array<[number, number]> = [];
+  const pathLength = CRACK_SEGMENTS / 4;
+  for (let i = 0; i < pathLength; i++) {
+    for (let path = 0; path < 4; path++) {
+      ordered.push(pixels[path * pathLength + i]);
+    }
+  }
+
+  const textures: THREE.Texture[] = [];
+  for (let stage = 0; stage < BREAK_STAGES; stage++) {
+    const canvas = document.createElement("canvas");
+    canvas.width = CRACK_TEXTURE_SIZE;
+    canvas.height = CRACK_TEXTURE_SIZE;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.fillStyle = "rgba(0, 0, 0, 0.75)";
+      const visible = Math.ceil((ordered.length * (stage + 1)) / BREAK_STAGES);
+      for (let i = 0; i < visible; i++) {
+        const [x, y] = ordered[i];
+        context.fillRect(x, y, 1, 1);
+      }
+    }
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.magFilter = THREE.NearestFilter;
+    texture.minFilter = THREE.NearestFilter;
+    textures.push(texture);
+  }
+  return textures;
+};
+
+/**
+ * Progreso de rotura del bloque que mira el jugador en los modos sin rotura
+ * instantánea. El bloque tarda tantos segundos como su dureza y la grieta se
+ * dibuja sobre la posición del resaltado de bloque.
+ */
+export class BlockBreakingService {
+  private scene: THREE.Scene;
+  private worldService: IWorldService;
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
+  private overlay: THREE.Mesh;
+  private overlayMaterial: THREE.MeshBasicMaterial;
+  private crackTextures: THREE.Texture[];
+
+  private targetKey: string | null = null;
+  private targetBlockType: string | null = null;
+  private elapsed: number = 0;
+  private stage: number = -1;
+
+  constructor(scene: THREE.Scene, worldService: IWorldService) {
+    this.scene = scene;
+    this.worldService = worldService;
+    this.crackTextures = createCrackTextures();
+    this.overlayMaterial = new THREE.MeshBasicMaterial({
+      map: this.crackTextures[0],
+      transparent: true,
+      depthWrite: false,
+      polygonOffset: true,
+      polygonOffsetFactor: -1,
+      polygonOffsetUnits: -1,
+    });
+    this.overlay = new THREE.Mesh(
+      new THREE.BoxGeometry(1.002, 1.002, 1.002),
+      this.overlayMaterial
+    );
+    this.overlay.name = "Block_Break_Overlay_Mesh";
+    this.overlay.renderOrder = 998;
+    this.overlay.visible = false;
+    this.scene.add(this.overlay);
+  }
+
+  /**
+   * Avanza la rotura del bloque mirado. Si el objetivo cambia, el progreso
+   * vuelve a empezar. Devuelve true cuando el bloque debe romperse.
+   */
+  public update(deltaTime: number, lookingAt: LookingAtInfo | null): boolean {
+    if (!lookingAt) {
+      this.reset();
+      return false;
+    }
+
+    const { x, y, z } = lookingAt.blockWorldCoords;
+    const key = `${x},${y},${z}`;
+    const blockType = this.worldService.getBlock(x, y, z);
+    if (blockType === null || !this.blockRegistry.isBreakable(blockType)) {
+      this.reset();
+      return false;
+    }
+    if (key !== this.targetKey || blockType !== this.targetBlockType) {
+      this.reset();
+      this.targetKey = key;
+      this.targetBlockType = blockType;
+    }
+
+    this.elapsed += deltaTime;
+    const hardness = this.blockRegistry.getHardness(blockType);
+    const progress = hardness > 0 ? this.elapsed / hardness : 1;
+    if (progress >= 1) {
+      this.reset();
+      return true;
+    }
+
+    this.setStage(Math.min(BREAK_STAGES - 1, Math.floor(progress * BREAK_STAGES)));
+    return false;
+  }
+
+  /** Progreso del bloque actual entre 0 y 1 */
+  public getProgress(): number {
+    if (!this.targetBlockType) return 0;
+    const hardness = this.blockRegistry.getHardness(this.targetBlockType);
+    return hardness > 0 ? Math.min(1, this.elapsed / hardness) : 0;
+  }
+
+  public reset(): void {
+    this.targetKey = null;
+    this.targetBlockType = null;
+    this.elapsed = 0;
+    this.stage = -1;
+    this.overlay.visible = false;
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.overlay);
+    this.overlay.geometry.dispose();
+    this.overlayMaterial.dispose();
+    this.crackTextures.forEach((texture) => texture.dispose());
+  }
+
+  private setStage(stage: number): void {
+    const highlight = this.scene.getObjectByName(HIGHLIGHT_MESH_NAME);
+    if (!highlight || !highlight.visible) {
+      this.overlay.visible = false;
+      return;
+    }
+    this.overlay.position.copy(highlight.position);
+    this.overlay.visible = true;
+
+    if (stage === this.stage) return;
+    this.stage = stage;
+    this.overlayMaterial.map = this.crackTextures[stage];
+    this.overlayMaterial.needsUpdate = true;
+  }
+}
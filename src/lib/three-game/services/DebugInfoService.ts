@@ -1,5 +1,8 @@
 import type { GameRefs, DebugInfoState } from "../types";
 import { CHUNK_SIZE } from "../utils";
+import { GameConfig } from "../config/GameConfig";
+import { getBlockLight, getSkyLight } from "../lighting/VoxelLightEngine";
+import { BlockRegistry } from "../BlockRegistry";
 
 export class DebugInfoService {
   private refs: GameRefs;
@@ -29,12 +32,20 @@ export class DebugInfoService {
         fps: 0,
         triangles: this.getTriangleCount(),
         chunks: this.getLoadedChunksCount(),
+        biome: 'Bioma: N/A',
+        light: '',
+        blockInfo: '',
       }));
       return;
     }
 
     const { player, clock } = this.refs;
     const fps = clock ? Math.round(1 / clock.getDelta()) : 0;
+    const biome = this.refs.world
+      ? `Bioma: ${this.refs.world.getBiomeAt(player.x, player.z).displayName}`
+      : 'Bioma: N/A';
+    const light = this.getLightInfo();
+    const blockInfo = this.getBlockInfo();
     
     // Handle case where player position is not available
     if (!player?.position) {
@@ -47,6 +58,9 @@ export class DebugInfoService {
         fps,
         triangles: this.getTriangleCount(),
         chunks: this.getLoadedChunksCount(),
+        biome,
+        light,
+        blockInfo,
       }));
       return;
     }
@@ -67,9 +81,43 @@ export class DebugInfoService {
       fps: currentFps,
       triangles: this.getTriangleCount(),
       chunks: this.getLoadedChunksCount(),
+      biome,
+      light,
+      blockInfo,
     }));
   }
 
+  private getLightInfo(): string {
+    const debugConfig = GameConfig.getInstance().get<{ showLightLevels: boolean }>("debug");
+    const { player, world } = this.refs;
+    if (!debugConfig?.showLightLevels || !player || !world) return '';
+
+    // Luz del bloque en el que están los ojos del jugador
+    const packed = world.lighting.getLightAt(
+      Math.floor(player.x),
+      Math.floor(player.y + player.height * 0.9),
+      Math.floor(player.z)
+    );
+    return `Luz: cielo ${getSkyLight(packed)} / bloque ${getBlockLight(packed)}`;
+  }
+
+  private getBlockInfo(): string {
+    const debugConfig = GameConfig.getInstance().get<{ showBlockInfo: boolean }>("debug");
+    const { player, world } = this.refs;
+    const lookingAt = player?.getLookingAt();
+    if (!debugConfig?.showBlockInfo || !lookingAt || !world) return '';
+
+    const { x, y, z } = lookingAt.blockWorldCoords;
+    const name = world.getBlock(x, y, z) ?? 'air';
+    const definition = BlockRegistry.getInstance().getDefinition(name);
+    // La luz que ilumina la cara mirada es la del bloque de delante
+    const face = lookingAt.placeBlockWorldCoords;
+    const packed = world.lighting.getLightAt(face.x, face.y, face.z);
+    const hardness = definition.hardness < 0 ? 'irrompible' : `dureza ${definition.hardness}`;
+    return `Bloque: ${definition.displayName} (${name}) en ${x}, ${y}, ${z} · ${hardness} · ` +
+      `luz cielo ${getSkyLight(packed)} / bloque ${getBlockLight(packed)}`;
+  }
+
   private getTriangleCount(): number {
     if (!this.refs.scene) return 0;
     
@@ -0,0 +1,146 @@
+import * as THREE from "three";
+import type { GameRefs } from "../types";
+import type { Chunk } from "../Chunk";
+import { CHUNK_SIZE } from "../utils";
+import { GameConfig } from "../config/GameConfig";
+import { GameEvents } from "../events/EventBus";
+
+// Opciones de la sección "debug" de GameConfig que se activan con F3 + tecla
+export type DebugOption =
+  | "showChunkBorders"
+  | "showCollisionBoxes"
+  | "showLightLevels"
+  | "showBlockInfo";
+
+export const DEBUG_OPTION_LABELS: Record<DebugOption, string> = {
+  showChunkBorders: "Bordes de chunk",
+  showCollisionBoxes: "Cajas de colisión",
+  showLightLevels: "Niveles de luz",
+  showBlockInfo: "Información del bloque",
+};
+
+const CHUNK_EDGE_COLOR = new THREE.Color(0xffff00);
+const SECTION_EDGE_COLOR = new THREE.Color(0x3f7fff);
+const COLLISION_BOX_COLOR = 0xffffff;
+
+/**
+ * Ayudas visuales de depuración dentro de la escena: los bordes del chunk en
+ * el que está el jugador (con una línea por sección) y su caja de colisión.
+ * Los niveles de luz cambian el modo de los materiales de chunk y la
+ * información del bloque la muestra DebugInfoService en el overlay.
+ */
+export class DebugVisualizerService {
+  private refs: GameRefs;
+  private config: GameConfig;
+  private chunkBorders: THREE.LineSegments;
+  // Chunk cuyos bordes están dibujados; null = hay que reconstruirlos
+  private chunkBordersKey: string | null = null;
+  private collisionBox: THREE.Box3Helper;
+
+  constructor(refs: GameRefs) {
+    this.refs = refs;
+    this.config = GameConfig.getInstance();
+
+    this.chunkBorders = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ vertexColors: true })
+    );
+    this.chunkBorders.name = "Debug_ChunkBorders";
+    this.chunkBorders.visible = false;
+
+    this.collisionBox = new THREE.Box3Helper(new THREE.Box3(), COLLISION_BOX_COLOR);
+    this.collisionBox.name = "Debug_CollisionBox";
+    this.collisionBox.visible = false;
+
+    refs.scene?.add(this.chunkBorders, this.collisionBox);
+    // Al volver a crear el mundo la luz debe seguir el ajuste guardado
+    refs.world?.setDebugMaterialMode(this.isEnabled("showLightLevels") ? "light" : "none");
+  }
+
+  public isEnabled(option: DebugOption): boolean {
+    return this.config.get<Record<DebugOption, boolean>>("debug")?.[option] ?? false;
+  }
+
+  /**
+   * Activa o desactiva una opción, la guarda en GameConfig y avisa al jugador.
+   */
+  public toggle(option: DebugOption): void {
+    const enabled = !this.isEnabled(option);
+    this.config.update("debug", { [option]: enabled });
+    if (option === "showLightLevels") {
+      this.refs.world?.setDebugMaterialMode(enabled ? "light" : "none");
+    }
+    this.refs.eventBus.emit(GameEvents.DEBUG_OPTION_CHANGE, { option, enabled });
+    this.refs.eventBus.emit(GameEvents.ACTION_BAR_MESSAGE, {
+      message: `${DEBUG_OPTION_LABELS[option]}: ${enabled ? "activado" : "desactivado"}`,
+    });
+  }
+
+  /** Sigue al jugador; se llama una vez por frame */
+  public update(): void {
+    const { player, world } = this.refs;
+
+    this.chunkBorders.visible = this.isEnabled("showChunkBorders") && !!player && !!world;
+    if (this.chunkBorders.visible && player && world) {
+      const chunkX = Math.floor(player.x / CHUNK_SIZE);
+      const chunkZ = Math.floor(player.z / CHUNK_SIZE);
+      const key = `${chunkX},${chunkZ}`;
+      const chunk = world.activeChunks.get(key);
+      if (chunk && key !== this.chunkBordersKey) {
+        this.buildChunkBorders(chunk);
+        this.chunkBordersKey = key;
+      }
+    }
+
+    this.collisionBox.visible = this.isEnabled("showCollisionBoxes") && !!player;
+    if (this.collisionBox.visible && player) {
+      this.collisionBox.box.copy(player.getCollisionBox());
+    }
+  }
+
+  /**
+   * Aristas verticales de Chunk.boundingBox y un contorno en la base de cada
+   * ChunkSection.boundingBox, más el techo del chunk.
+   */
+  private buildChunkBorders(chunk: Chunk): void {
+    const { min, max } = chunk.boundingBox;
+    const corners = [
+      [min.x, min.z],
+      [max.x, min.z],
+      [max.x, max.z],
+      [min.x, max.z],
+    ];
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const addLine = (from: number[], to: number[], color: THREE.Color) => {
+      positions.push(...from, ...to);
+      colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+    };
+
+    for (const [x, z] of corners) {
+      addLine([x, min.y, z], [x, max.y, z], CHUNK_EDGE_COLOR);
+    }
+    const levels = [...chunk.sections.map((section) => section.boundingBox.min.y), max.y];
+    for (const y of levels) {
+      const color = y === min.y || y === max.y ? CHUNK_EDGE_COLOR : SECTION_EDGE_COLOR;
+      corners.forEach(([x, z], index) => {
+        const [nextX, nextZ] = corners[(index + 1) % corners.length];
+        addLine([x, y, z], [nextX, y, nextZ], color);
+      });
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+    this.chunkBorders.geometry.dispose();
+    this.chunkBorders.geometry = geometry;
+  }
+
+  public dispose(): void {
+    this.refs.scene?.remove(this.chunkBorders, this.collisionBox);
+    this.chunkBorders.geometry.dispose();
+    (this.chunkBorders.material as THREE.Material).dispose();
+    this.collisionBox.geometry.dispose();
+    (this.collisionBox.material as THREE.Material).dispose();
+  }
+}
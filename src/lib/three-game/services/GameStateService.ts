@@ -1,3 +1,71 @@
+export const INVENTORY_SIZE = 36; // 9 casillas de la barra rápida + 27 del inventario
+export const HOTBAR_SLOT_COUNT = 9; // las primeras casillas del inventario son la barra rápida
+export const MAX_STACK_SIZE = 64;
+
+export type GameMode = "creative" | "survival" | "spectator";
+
+/**
+ * Qué permite cada modo de juego. El resto del juego consulta estas reglas
+ * en lugar de comparar el nombre del modo.
+ */
+export interface GameModeRules {
+  canFly: boolean; // doble salto para volar
+  alwaysFlying: boolean; // no se puede dejar de volar
+  instantBreak: boolean; // false = romper requiere mantener pulsado según la dureza
+  takesDamage: boolean;
+  consumesItems: boolean; // false = bloques infinitos, no se recogen ni se gastan
+  noclip: boolean; // atraviesa los bloques
+  canInteract: boolean; // romper, colocar y usar el inventario
+}
+
+export const GAME_MODE_RULES: Record<GameMode, GameModeRules> = {
+  creative: {
+    canFly: true,
+    alwaysFlying: false,
+    instantBreak: true,
+    takesDamage: false,
+    consumesItems: false,
+    noclip: false,
+    canInteract: true,
+  },
+  survival: {
+    canFly: false,
+    alwaysFlying: false,
+    instantBreak: false,
+    takesDamage: true,
+    consumesItems: true,
+    noclip: false,
+    canInteract: true,
+  },
+  spectator: {
+    canFly: true,
+    alwaysFlying: true,
+    instantBreak: false,
+    takesDamage: false,
+    consumesItems: false,
+    noclip: true,
+    canInteract: false,
+  },
+};
+
+export const GAME_MODES: GameMode[] = ["creative", "survival", "spectator"];
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  creative: "Creativo",
+  survival: "Supervivencia",
+  spectator: "Espectador",
+};
+
+export interface ItemStack {
+  itemId: string; // nombre del bloque en BlockRegistry
+  count: number;
+}
+
+export type InventorySlot = ItemStack | null;
+
+const createEmptyInventory = (): InventorySlot[] =>
+  Array.from({ length: INVENTORY_SIZE }, () => null);
+
 export interface GameState {
   isPaused: boolean;
   isGameOver: boolean;
@@ -5,7 +73,8 @@ export interface GameState {
   level: number;
   playerHealth: number;
   playerMaxHealth: number;
-  inventory: string[];
+  gameMode: GameMode;
+  inventory: InventorySlot[];
 }
 
 export class GameStateService {
@@ -21,7 +90,8 @@ export class GameStateService {
       level: 1,
       playerHealth: 100,
       playerMaxHealth: 100,
-      inventory: [],
+      gameMode: "creative",
+      inventory: createEmptyInventory(),
     };
   }
 
@@ -67,17 +137,156 @@ export class GameStateService {
     }
   }
 
-  public addToInventory(item: string): void {
-    this.state.inventory.push(item);
-    this.eventBus?.emit('inventory:updated', { inventory: [...this.state.inventory] });
+  /**
+   * Vida completa al entrar en un mundo o al reaparecer tras morir.
+   */
+  public resetHealth(): void {
+    this.state.isGameOver = false;
+    this.updateHealth(this.state.playerMaxHealth);
+  }
+
+  /**
+   * Aplica daño al jugador salvo que el modo de juego lo impida.
+   */
+  public applyDamage(amount: number): void {
+    if (amount <= 0 || !this.getGameModeRules().takesDamage) return;
+    this.updateHealth(this.state.playerHealth - amount);
+  }
+
+  public getGameMode(): GameMode {
+    return this.state.gameMode;
+  }
+
+  public getGameModeRules(): GameModeRules {
+    return GAME_MODE_RULES[this.state.gameMode];
+  }
+
+  public setGameMode(gameMode: GameMode): void {
+    if (this.state.gameMode === gameMode) return;
+    const previousGameMode = this.state.gameMode;
+    this.state.gameMode = gameMode;
+    this.eventBus?.emit('gamemode:changed', { gameMode, previousGameMode });
+  }
+
+  public getInventory(): InventorySlot[] {
+    return this.state.inventory.map(slot => (slot ? { ...slot } : null));
+  }
+
+  public getInventorySlot(index: number): InventorySlot {
+    const slot = this.state.inventory[index];
+    return slot ? { ...slot } : null;
   }
 
-  public removeFromInventory(item: string): void {
-    const index = this.state.inventory.indexOf(item);
-    if (index > -1) {
-      this.state.inventory.splice(index, 1);
-      this.eventBus?.emit('inventory:updated', { inventory: [...this.state.inventory] });
+  /**
+   * Añade objetos completando primero las pilas existentes y después las
+   * casillas vacías (la barra rápida antes que el resto).
+   * Devuelve cuántos no cupieron.
+   */
+  public addToInventory(itemId: string, count: number = 1): number {
+    let remaining = count;
+    for (const slot of this.state.inventory) {
+      if (remaining === 0) break;
+      if (slot && slot.itemId === itemId && slot.count < MAX_STACK_SIZE) {
+        const added = Math.min(remaining, MAX_STACK_SIZE - slot.count);
+        slot.count += added;
+        remaining -= added;
+      }
     }
+    for (let i = 0; i < this.state.inventory.length && remaining > 0; i++) {
+      if (!this.state.inventory[i]) {
+        const added = Math.min(remaining, MAX_STACK_SIZE);
+        this.state.inventory[i] = { itemId, count: added };
+        remaining -= added;
+      }
+    }
+    if (remaining !== count) this.emitInventoryUpdate();
+    return remaining;
+  }
+
+  /**
+   * Quita objetos de cualquier pila. Si no hay suficientes no quita nada.
+   */
+  public removeFromInventory(itemId: string, count: number = 1): boolean {
+    if (this.countItem(itemId) < count) return false;
+
+    let remaining = count;
+    for (let i = this.state.inventory.length - 1; i >= 0 && remaining > 0; i--) {
+      const slot = this.state.inventory[i];
+      if (slot && slot.itemId === itemId) {
+        const removed = Math.min(remaining, slot.count);
+        slot.count -= removed;
+        remaining -= removed;
+        if (slot.count === 0) this.state.inventory[i] = null;
+      }
+    }
+    this.emitInventoryUpdate();
+    return true;
+  }
+
+  public removeFromSlot(index: number, count: number = 1): boolean {
+    const slot = this.state.inventory[index];
+    if (!slot || slot.count < count) return false;
+    slot.count -= count;
+    if (slot.count === 0) this.state.inventory[index] = null;
+    this.emitInventoryUpdate();
+    return true;
+  }
+
+  public setInventorySlot(index: number, stack: InventorySlot): void {
+    if (index < 0 || index >= INVENTORY_SIZE) return;
+    this.state.inventory[index] =
+      stack && stack.count > 0
+        ? { itemId: stack.itemId, count: Math.min(stack.count, MAX_STACK_SIZE) }
+        : null;
+    this.emitInventoryUpdate();
+  }
+
+  /**
+   * Mueve una pila a otra casilla: la junta si es del mismo objeto o la intercambia.
+   */
+  public moveInventorySlot(from: number, to: number): void {
+    const inventory = this.state.inventory;
+    const source = inventory[from];
+    if (from === to || !source || to < 0 || to >= INVENTORY_SIZE) return;
+
+    const target = inventory[to];
+    if (target && target.itemId === source.itemId) {
+      const moved = Math.min(source.count, MAX_STACK_SIZE - target.count);
+      target.count += moved;
+      source.count -= moved;
+      if (source.count === 0) inventory[from] = null;
+    } else {
+      inventory[to] = source;
+      inventory[from] = target;
+    }
+    this.emitInventoryUpdate();
+  }
+
+  public countItem(itemId: string): number {
+    return this.state.inventory.reduce(
+      (total, slot) => (slot && slot.itemId === itemId ? total + slot.count : total),
+      0
+    );
+  }
+
+  /** Sustituye todo el inventario, p. ej. por el de un mundo guardado */
+  public setInventory(slots: InventorySlot[]): void {
+    this.state.inventory = createEmptyInventory().map((_, index) => {
+      const stack = slots[index];
+      return stack && stack.count > 0
+        ? { itemId: stack.itemId, count: Math.min(stack.count, MAX_STACK_SIZE) }
+        : null;
+    });
+    this.emitInventoryUpdate();
+  }
+
+  public clearInventory(): void {
+    this.state.inventory = createEmptyInventory();
+    this.emitInventoryUpdate();
+  }
+
+  private emitInventoryUpdate(): void {
+    this.eventBus?.emit('inventory:updated', { inventory: this.getInventory() });
   }
 
   public nextLevel(): void {
@@ -93,7 +302,8 @@ export class GameStateService {
       level: 1,
       playerHealth: 100,
       playerMaxHealth: 100,
-      inventory: [],
+      gameMode: this.state.gameMode,
+      inventory: createEmptyInventory(),
     };
     this.eventBus?.emit('game:reset');
   }
@@ -0,0 +1,162 @@
+import { EventBus, GameEvents, type HotbarChangeEvent } from "../events/EventBus";
+import { BlockRegistry } from "../BlockRegistry";
+import {
+  GameStateService,
+  HOTBAR_SLOT_COUNT,
+  MAX_STACK_SIZE,
+  type InventorySlot,
+} from "./GameStateService";
+
+export const HOTBAR_SIZE = HOTBAR_SLOT_COUNT;
+
+/**
+ * Barra de acceso rápido de 9 casillas. Las casillas son las primeras del
+ * inventario de GameStateService; aquí solo se guarda cuál está seleccionada.
+ * La colocación de bloques usa la casilla activa.
+ */
+export class HotbarService {
+  private static instance: HotbarService;
+  private eventBus: EventBus;
+  private blockRegistry: BlockRegistry;
+  private gameState: GameStateService;
+  private selectedIndex: number = 0;
+  // Inventario de supervivencia guardado mientras se juega en un modo sin consumo
+  private survivalInventory: InventorySlot[] = [];
+  // Si el inventario de GameStateService es el de supervivencia o el creativo
+  private holdsSurvivalInventory: boolean = false;
+
+  private constructor() {
+    this.eventBus = EventBus.getInstance();
+    this.blockRegistry = BlockRegistry.getInstance();
+    this.gameState = GameStateService.getInstance();
+    this.gameState.setEventBus(this.eventBus);
+    this.eventBus.on(GameEvents.INVENTORY_UPDATE, () => this.emitChange());
+    this.eventBus.on(GameEvents.GAME_MODE_CHANGE, () => this.applyGameModeInventory());
+  }
+
+  public static getInstance(): HotbarService {
+    if (!HotbarService.instance) {
+      HotbarService.instance = new HotbarService();
+    }
+    return HotbarService.instance;
+  }
+
+  public getSlots(): InventorySlot[] {
+    return this.gameState.getInventory().slice(0, HOTBAR_SIZE);
+  }
+
+  public getSelectedIndex(): number {
+    return this.selectedIndex;
+  }
+
+  public getSelectedBlock(): string | null {
+    return this.gameState.getInventorySlot(this.selectedIndex)?.itemId ?? null;
+  }
+
+  public selectSlot(index: number): void {
+    if (index < 0 || index >= HOTBAR_SIZE || index === this.selectedIndex) return;
+    this.selectedIndex = index;
+    this.emitChange();
+  }
+
+  /**
+   * Rueda del ratón: positivo avanza a la casilla siguiente, negativo a la anterior.
+   */
+  public scroll(direction: number): void {
+    if (direction === 0) return;
+    const step = direction > 0 ? 1 : -1;
+    this.selectSlot((this.selectedIndex + step + HOTBAR_SIZE) % HOTBAR_SIZE);
+  }
+
+  /**
+   * "Pick block" (clic central): selecciona la casilla que ya tiene el bloque.
+   * En creativo lo crea en la casilla activa; en supervivencia solo lo trae
+   * desde el resto del inventario.
+   */
+  public pickBlock(blockType: string): void {
+    const definition = this.blockRegistry.getDefinition(blockType);
+    if (!definition.textures || definition.liquid) return;
+
+    const inventory = this.gameState.getInventory();
+    const existingIndex = inventory.findIndex(
+      (slot) => slot?.itemId === definition.name
+    );
+    if (existingIndex !== -1 && existingIndex < HOTBAR_SIZE) {
+      this.selectSlot(existingIndex);
+    } else if (existingIndex !== -1) {
+      this.gameState.moveInventorySlot(existingIndex, this.selectedIndex);
+    } else if (!this.gameState.getGameModeRules().consumesItems) {
+      this.gameState.setInventorySlot(this.selectedIndex, {
+        itemId: definition.name,
+        count: MAX_STACK_SIZE,
+      });
+    }
+  }
+
+  /**
+   * Inventario de supervivencia del mundo que se va a cargar. Se aplica en
+   * reset(); los objetos de bloques que ya no existen se descartan.
+   */
+  public loadSurvivalInventory(slots: InventorySlot[]): void {
+    this.survivalInventory = slots.map((slot) =>
+      slot && this.blockRegistry.has(slot.itemId) ? { ...slot } : null
+    );
+    this.holdsSurvivalInventory = false;
+  }
+
+  /** Inventario de supervivencia actual, aunque se esté jugando en creativo */
+  public getSurvivalInventory(): InventorySlot[] {
+    return this.holdsSurvivalInventory
+      ? this.gameState.getInventory()
+      : this.survivalInventory.map((slot) => (slot ? { ...slot } : null));
+  }
+
+  /**
+   * Inventario inicial de un mundo: en creativo la barra se llena con los
+   * bloques colocables del registro; en supervivencia se recupera el guardado.
+   */
+  public reset(): void {
+    this.fillInventory();
+    this.selectedIndex = 0;
+    this.emitChange();
+  }
+
+  /**
+   * Cambia entre el inventario de supervivencia y el creativo según el modo,
+   * para que las pilas creativas no pasen a supervivencia.
+   */
+  private applyGameModeInventory(): void {
+    const survival = this.gameState.getGameModeRules().consumesItems;
+    if (survival === this.holdsSurvivalInventory) return;
+    if (this.holdsSurvivalInventory) this.survivalInventory = this.gameState.getInventory();
+    this.fillInventory();
+  }
+
+  private fillInventory(): void {
+    const survival = this.gameState.getGameModeRules().consumesItems;
+    if (survival) {
+      this.gameState.setInventory(this.survivalInventory);
+    } else {
+      this.gameState.clearInventory();
+      this.blockRegistry
+        .getRenderableDefinitions()
+        .filter((definition) => !definition.liquid)
+        .slice(0, HOTBAR_SIZE)
+        .forEach((definition, index) =>
+          this.gameState.setInventorySlot(index, {
+            itemId: definition.name,
+            count: MAX_STACK_SIZE,
+          })
+        );
+    }
+    this.holdsSurvivalInventory = survival;
+  }
+
+  private emitChange(): void {
+    const event: HotbarChangeEvent = {
+      slots: this.getSlots(),
+      selectedIndex: this.selectedIndex,
+    };
+    this.eventBus.emit(GameEvents.HOTBAR_CHANGE, event);
+  }
+}
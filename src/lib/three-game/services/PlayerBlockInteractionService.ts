@@ -15,6 +15,9 @@ import {
 import { GameConfig } from "../config/GameConfig";
 import { Container } from "../di/Container";
 import { gameLogger } from './LoggingService';
+import { BlockRegistry } from "../BlockRegistry";
+import { HotbarService } from "./HotbarService";
+import { GameStateService } from "./GameStateService";
 
 export class PlayerBlockInteractionService implements IBlockInteraction {
   private readonly worldService: IWorldService;
@@ -23,6 +26,9 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
   private readonly cameraService: ICameraService;
   private readonly eventBus: EventBus;
   private readonly config: GameConfig;
+  private readonly blockRegistry: BlockRegistry;
+  private readonly hotbarService: HotbarService;
+  private readonly gameState: GameStateService;
   private readonly player: any; // TODO: Crear interfaz IPlayer
 
   private blockFaceHL: { mesh: THREE.LineSegments; dir: string } = {
@@ -41,6 +47,9 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
     // Obtener instancias de servicios singleton
     this.eventBus = EventBus.getInstance();
     this.config = GameConfig.getInstance();
+    this.blockRegistry = BlockRegistry.getInstance();
+    this.hotbarService = HotbarService.getInstance();
+    this.gameState = GameStateService.getInstance();
 
     // Inyectar dependencias
     this.worldService = worldService;
@@ -107,8 +116,8 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
 
     const chunkMeshesToTest: THREE.Object3D[] = [];
     this.worldService.activeChunks.forEach((chunk) => {
-      if (chunk && chunk.chunkRoot && chunk.chunkRoot.children) {
-        chunkMeshesToTest.push(...chunk.chunkRoot.children);
+      if (chunk && chunk.chunkRoot) {
+        chunkMeshesToTest.push(...chunk.getMeshes());
       }
     });
 
@@ -160,7 +169,7 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
         blockCoords.z
       );
       
-      if (blockType === "waterBlock") {
+      if (this.blockRegistry.isLiquid(blockType)) {
         // Verificar si es agua profunda (3+ bloques)
         const isDeepWater = this.isDeepWater(blockCoords);
         
@@ -229,107 +238,36 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
 
   public interactWithBlock(destroy: boolean): void {
     if (!this.lookingAt) return;
+    const rules = this.gameState.getGameModeRules();
+    if (!rules.canInteract) return;
 
     const { blockWorldCoords, placeBlockWorldCoords } = this.lookingAt;
 
-    // Si queremos romper un bloque
+    // Si queremos romper un bloque. Sin rotura instantánea el bloque se rompe
+    // manteniendo pulsado (GameLogic llama a breakBlock cuando corresponde)
     if (destroy) {
-      if (this.canBreakBlock(blockWorldCoords)) {
-        const blockType = this.worldService.getBlock(
-          blockWorldCoords.x,
-          blockWorldCoords.y,
-          blockWorldCoords.z
-        ) || "air";
-
-        this.worldService.setBlock(
-          blockWorldCoords.x,
-          blockWorldCoords.y,
-          blockWorldCoords.z,
-          "air"
-        );
-
-        this.eventBus.emit(GameEvents.BLOCK_BREAK, {
-          position: blockWorldCoords,
-          blockType,
-          playerPosition: {
-            x: this.player.x,
-            y: this.player.y,
-            z: this.player.z,
-          },
-        });
+      if (rules.instantBreak) {
+        this.breakBlock();
       }
       return;
     }
 
     // --- COLOCACIÓN DE BLOQUES ---
-    // Verificar el tipo de bloque que estamos mirando
-    const targetBlockType = this.worldService.getBlock(
-      blockWorldCoords.x,
-      blockWorldCoords.y,
-      blockWorldCoords.z
-    );
+    const newBlockType = this.hotbarService.getSelectedBlock();
+    if (!newBlockType) return;
 
     // Si estamos mirando agua, intentar colocar en esa posición
-    if (targetBlockType === "waterBlock") {
+    if (this.isLiquidBlock(blockWorldCoords.x, blockWorldCoords.y, blockWorldCoords.z)) {
       if (this.canPlaceBlockInWater(blockWorldCoords)) {
-        const newBlockType = "stoneBlock";
-        
-        // gameLogger.logGameEvent('Colocando bloque en agua', {
-        //   position: blockWorldCoords.toArray()
-        // }); // Eliminado para evitar spam
-        
-        this.worldService.setBlock(
-          blockWorldCoords.x,
-          blockWorldCoords.y,
-          blockWorldCoords.z,
-          newBlockType
-        );
-
-        this.eventBus.emit(GameEvents.BLOCK_PLACE, {
-          position: blockWorldCoords,
-          blockType: newBlockType,
-          playerPosition: {
-            x: this.player.x,
-            y: this.player.y,
-            z: this.player.z,
-          },
-        });
+        this.placeBlock(blockWorldCoords, newBlockType);
       }
       return;
     }
 
-    // Si no estamos mirando agua, intentar colocar en la posición adyacente
-    const placeBlockType = this.worldService.getBlock(
-      placeBlockWorldCoords.x,
-      placeBlockWorldCoords.y,
-      placeBlockWorldCoords.z
-    );
-
     // Si el bloque adyacente es agua, permitir colocar ahí también
-    if (placeBlockType === "waterBlock") {
+    if (this.isLiquidBlock(placeBlockWorldCoords.x, placeBlockWorldCoords.y, placeBlockWorldCoords.z)) {
       if (this.canPlaceBlockInWater(placeBlockWorldCoords)) {
-        const newBlockType = "stoneBlock";
-        
-        // gameLogger.logGameEvent('Colocando bloque en agua adyacente', {
-        //   position: placeBlockWorldCoords.toArray()
-        // }); // Eliminado para evitar spam
-        
-        this.worldService.setBlock(
-          placeBlockWorldCoords.x,
-          placeBlockWorldCoords.y,
-          placeBlockWorldCoords.z,
-          newBlockType
-        );
-
-        this.eventBus.emit(GameEvents.BLOCK_PLACE, {
-          position: placeBlockWorldCoords,
-          blockType: newBlockType,
-          playerPosition: {
-            x: this.player.x,
-            y: this.player.y,
-            z: this.player.z,
-          },
-        });
+        this.placeBlock(placeBlockWorldCoords, newBlockType);
       }
       return;
     }
@@ -337,35 +275,87 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
     // Si no estamos mirando agua ni la posición adyacente es agua,
     // usar la lógica normal de colocación
     if (this.canPlaceBlock(placeBlockWorldCoords)) {
-      const newBlockType = "stoneBlock";
-      
-      // gameLogger.logGameEvent('Colocando bloque en posición normal', {
-      //   position: placeBlockWorldCoords.toArray()
-      // }); // Eliminado para evitar spam
-      
-      this.worldService.setBlock(
-        placeBlockWorldCoords.x,
-        placeBlockWorldCoords.y,
-        placeBlockWorldCoords.z,
-        newBlockType
-      );
+      this.placeBlock(placeBlockWorldCoords, newBlockType);
+    }
+  }
+
+  /**
+   * Rompe el bloque que se está mirando, sin tener en cuenta el modo de rotura.
+   */
+  public breakBlock(): void {
+    if (!this.lookingAt || !this.gameState.getGameModeRules().canInteract) return;
+
+    const { blockWorldCoords } = this.lookingAt;
+    if (!this.canBreakBlock(blockWorldCoords)) return;
+
+    const blockType = this.worldService.getBlock(
+      blockWorldCoords.x,
+      blockWorldCoords.y,
+      blockWorldCoords.z
+    ) || "air";
 
-      this.eventBus.emit(GameEvents.BLOCK_PLACE, {
-        position: placeBlockWorldCoords,
-        blockType: newBlockType,
-        playerPosition: {
-          x: this.player.x,
-          y: this.player.y,
-          z: this.player.z,
-        },
+    // Sin cambio no hay objeto que soltar
+    const broken = this.worldService.setBlock(
+      blockWorldCoords.x,
+      blockWorldCoords.y,
+      blockWorldCoords.z,
+      "air"
+    );
+    if (!broken) return;
+
+    this.eventBus.emit(GameEvents.BLOCK_BREAK, {
+      position: blockWorldCoords,
+      blockType,
+      playerPosition: {
+        x: this.player.x,
+        y: this.player.y,
+        z: this.player.z,
+      },
+    });
+  }
+
+  /**
+   * Clic central: pone en la barra rápida el bloque que se está mirando.
+   */
+  public pickBlock(): void {
+    if (!this.lookingAt || !this.gameState.getGameModeRules().canInteract) return;
+    const { blockWorldCoords } = this.lookingAt;
+    const blockType = this.worldService.getBlock(
+      blockWorldCoords.x,
+      blockWorldCoords.y,
+      blockWorldCoords.z
+    );
+    if (blockType && blockType !== "air") {
+      this.hotbarService.pickBlock(blockType);
+    }
+  }
+
+  private placeBlock(coords: THREE.Vector3, blockType: string): void {
+    if (coords.y < 0) return;
+    if (coords.y >= this.worldService.layers) {
+      this.eventBus.emit(GameEvents.ACTION_BAR_MESSAGE, {
+        message: `El límite de altura para construir es ${this.worldService.layers}`,
       });
+      return;
     }
+    // Si el mundo lo rechaza no se gasta el objeto
+    if (!this.worldService.setBlock(coords.x, coords.y, coords.z, blockType)) return;
+
+    this.eventBus.emit(GameEvents.BLOCK_PLACE, {
+      position: coords,
+      blockType,
+      playerPosition: {
+        x: this.player.x,
+        y: this.player.y,
+        z: this.player.z,
+      },
+    });
   }
 
   private canBreakBlock(coords: THREE.Vector3): boolean {
     const blockType = this.worldService.getBlock(coords.x, coords.y, coords.z);
     // No permitir romper aire ni agua, igual que en Minecraft original
-    return blockType !== null && blockType !== "air" && blockType !== "waterBlock";
+    return this.blockRegistry.isBreakable(blockType);
   }
 
   private canPlaceBlock(coords: THREE.Vector3): boolean {
@@ -376,7 +366,7 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
 
     // Verificar si el bloque actual es aire o agua
     const currentBlock = this.worldService.getBlock(coords.x, coords.y, coords.z);
-    if (currentBlock !== "air" && currentBlock !== "waterBlock") {
+    if (!this.blockRegistry.isReplaceable(currentBlock)) {
       return false;
     }
 
@@ -390,25 +380,28 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
 
     // Verificar si hay agua arriba o al lado
     const hasWaterNeighbor = 
-      this.worldService.getBlock(coords.x, coords.y + 1, coords.z) === "waterBlock" ||
-      this.worldService.getBlock(coords.x + 1, coords.y, coords.z) === "waterBlock" ||
-      this.worldService.getBlock(coords.x - 1, coords.y, coords.z) === "waterBlock" ||
-      this.worldService.getBlock(coords.x, coords.y, coords.z + 1) === "waterBlock" ||
-      this.worldService.getBlock(coords.x, coords.y, coords.z - 1) === "waterBlock";
+      this.isLiquidBlock(coords.x, coords.y + 1, coords.z) ||
+      this.isLiquidBlock(coords.x + 1, coords.y, coords.z) ||
+      this.isLiquidBlock(coords.x - 1, coords.y, coords.z) ||
+      this.isLiquidBlock(coords.x, coords.y, coords.z + 1) ||
+      this.isLiquidBlock(coords.x, coords.y, coords.z - 1);
 
     // Permitir colocación si hay un bloque sólido adyacente O si hay agua adyacente
-    return hasSolidNeighbor || hasWaterNeighbor || currentBlock === "waterBlock";
+    return hasSolidNeighbor || hasWaterNeighbor || this.blockRegistry.isLiquid(currentBlock);
   }
 
   private isSolidBlock(x: number, y: number, z: number): boolean {
-    const blockType = this.worldService.getBlock(x, y, z);
-    return blockType !== null && blockType !== "air" && blockType !== "waterBlock";
+    return this.blockRegistry.isSolid(this.worldService.getBlock(x, y, z));
+  }
+
+  private isLiquidBlock(x: number, y: number, z: number): boolean {
+    return this.blockRegistry.isLiquid(this.worldService.getBlock(x, y, z));
   }
 
   private canPlaceBlockInWater(coords: THREE.Vector3): boolean {
     const blockType = this.worldService.getBlock(coords.x, coords.y, coords.z);
     // Verificar que el bloque es agua
-    if (blockType !== "waterBlock") {
+    if (!this.blockRegistry.isLiquid(blockType)) {
       // Eliminado log para evitar consumo de recursos
       return false;
     }
@@ -419,17 +412,15 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
     }
     // *** VERIFICACIÓN CLAVE: Comprobar si es agua superficial ***
     // Obtener el bloque debajo del agua
-    const blockBelow = this.worldService.getBlock(coords.x, coords.y - 1, coords.z);
     // Si el bloque debajo no es agua, entonces esta agua es superficial
-    if (blockBelow !== "waterBlock") {
+    if (!this.isLiquidBlock(coords.x, coords.y - 1, coords.z)) {
       // Eliminado log para evitar consumo de recursos
       return true;
     }
     // Si el bloque debajo es agua, verificar si es agua profunda
     if (coords.y > 1) {
-      const blockTwoBelow = this.worldService.getBlock(coords.x, coords.y - 2, coords.z);
       // Si el bloque dos niveles abajo no es agua, todavía es superficial (2 bloques)
-      if (blockTwoBelow !== "waterBlock") {
+      if (!this.isLiquidBlock(coords.x, coords.y - 2, coords.z)) {
         // Eliminado log para evitar consumo de recursos
         return true;
       }
@@ -502,7 +493,7 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
     // Si estamos mirando agua, usamos esas coordenadas directamente para colocar
     let calculatedPlaceBlockWorldCoords;
     
-    if (targetBlockType === "waterBlock") {
+    if (this.blockRegistry.isLiquid(targetBlockType)) {
       // Si miramos agua, queremos:
       // 1. Para romper: buscar bloques sólidos cercanos
       // 2. Para colocar: usar las coordenadas del agua directamente
@@ -568,12 +559,8 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
           waterPos.z + dir.z * distance
         );
         
-        const blockType = this.worldService.getBlock(
-          checkPos.x, checkPos.y, checkPos.z
-        );
-        
         // Si encontramos un bloque sólido (ni aire ni agua)
-        if (blockType && blockType !== "air" && blockType !== "waterBlock") {
+        if (this.isSolidBlock(checkPos.x, checkPos.y, checkPos.z)) {
           return checkPos; // Devolver la posición del bloque sólido
         }
       }
@@ -631,13 +618,13 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
   // Método para determinar si un bloque de agua es agua profunda (3+)
   private isDeepWater(coords: THREE.Vector3): boolean {
     // Si no es agua, no es agua profunda
-    if (this.worldService.getBlock(coords.x, coords.y, coords.z) !== "waterBlock") {
+    if (!this.isLiquidBlock(coords.x, coords.y, coords.z)) {
       return false;
     }
     
     // Verificar si hay agua debajo (primer nivel)
     const hasWaterBelow = coords.y > 0 && 
-      this.worldService.getBlock(coords.x, coords.y - 1, coords.z) === "waterBlock";
+      this.isLiquidBlock(coords.x, coords.y - 1, coords.z);
       
     if (!hasWaterBelow) {
       return false; // Solo 1 bloque de agua, no es profunda
@@ -645,7 +632,7 @@ export class PlayerBlockInteractionService implements IBlockInteraction {
     
     // Verificar si hay agua dos niveles abajo (segundo nivel)
     const hasWaterTwoBelow = coords.y > 1 && 
-      this.worldService.getBlock(coords.x, coords.y - 2, coords.z) === "waterBlock";
+      this.isLiquidBlock(coords.x, coords.y - 2, coords.z);
       
     // Es agua profunda si hay al menos 3 bloques de agua en total
     return hasWaterTwoBelow;
@@ -0,0 +1,149 @@
+import { EventBus, GameEvents } from "../events/EventBus";
+import type { AirUpdateEvent, PlayerLandEvent } from "../events/EventBus";
+import { GameConfig } from "../config/GameConfig";
+import { GameStateService } from "./GameStateService";
+import type { Player } from "../Player";
+
+// La vida va de 0 a 100: cada corazón del HUD son 10 puntos
+const FALL_DAMAGE_PER_BLOCK = 5;
+const MAX_AIR = 15; // segundos bajo el agua antes de empezar a ahogarse
+const AIR_REFILL_RATE = 10; // segundos de aire recuperados por segundo fuera del agua
+const DROWNING_DAMAGE = 10; // daño por cada segundo sin aire
+const REGEN_DELAY = 4; // segundos sin recibir daño antes de regenerar
+const REGEN_INTERVAL = 2; // segundos entre cada curación
+const REGEN_AMOUNT = 5; // medio corazón
+const CONTACT_DAMAGE_INTERVAL = 0.5; // segundos entre cada golpe de un bloque que quema
+export const AIR_BUBBLES = 10;
+
+/**
+ * Daño por caída, aire bajo el agua, daño por contacto (lava) y regeneración del jugador.
+ * La vida vive en GameStateService; al llegar a cero se llama a Player.die
+ * y GameLogic se encarga de la pantalla de muerte y del respawn.
+ */
+export class PlayerHealthService {
+  private eventBus: EventBus;
+  private gameState: GameStateService;
+  private maxFallDistance: number;
+  private player: Player;
+
+  private air: number = MAX_AIR;
+  private drowningTimer: number = 0;
+  private contactTimer: number = 0;
+  private timeSinceDamage: number = 0;
+  private regenTimer: number = 0;
+  private lastAirBubbles: number = AIR_BUBBLES;
+
+  constructor(player: Player) {
+    this.eventBus = EventBus.getInstance();
+    this.gameState = GameStateService.getInstance();
+    this.player = player;
+    const playerConfig = GameConfig.getInstance().get<{ maxFallDistance: number }>("player");
+    this.maxFallDistance = playerConfig?.maxFallDistance ?? 4;
+
+    this.handlePlayerLand = this.handlePlayerLand.bind(this);
+    this.eventBus.on(GameEvents.PLAYER_LAND, this.handlePlayerLand);
+  }
+
+  public dispose(): void {
+    this.eventBus.off(GameEvents.PLAYER_LAND, this.handlePlayerLand);
+  }
+
+  /**
+   * Avanza el aire, el daño por contacto y la regeneración. `submerged` es si
+   * la cámara está dentro del agua y `contactDamage` la vida por segundo que
+   * quitan los bloques que toca el jugador, tal como los calcula GameLogic.
+   */
+  public update(deltaTime: number, submerged: boolean, contactDamage: number = 0): void {
+    if (this.player.dead) return;
+    this.timeSinceDamage += deltaTime;
+
+    // El primer golpe llega al entrar en contacto y luego a intervalos fijos
+    if (contactDamage > 0) {
+      this.contactTimer -= deltaTime;
+      if (this.contactTimer <= 0) {
+        this.contactTimer = CONTACT_DAMAGE_INTERVAL;
+        this.damage(Math.ceil(contactDamage * CONTACT_DAMAGE_INTERVAL));
+        if (this.player.dead) return;
+      }
+    } else {
+      this.contactTimer = 0;
+    }
+
+    const rules = this.gameState.getGameModeRules();
+    if (submerged && rules.takesDamage) {
+      this.air = Math.max(0, this.air - deltaTime);
+      if (this.air === 0) {
+        this.drowningTimer += deltaTime;
+        if (this.drowningTimer >= 1) {
+          this.drowningTimer -= 1;
+          this.damage(DROWNING_DAMAGE);
+        }
+      }
+    } else {
+      this.air = Math.min(MAX_AIR, this.air + AIR_REFILL_RATE * deltaTime);
+      this.drowningTimer = 0;
+    }
+    this.emitAirIfChanged();
+
+    const { playerHealth, playerMaxHealth } = this.gameState.getState();
+    if (
+      this.player.dead ||
+      this.timeSinceDamage < REGEN_DELAY ||
+      playerHealth >= playerMaxHealth
+    ) {
+      this.regenTimer = 0;
+      return;
+    }
+    this.regenTimer += deltaTime;
+    if (this.regenTimer >= REGEN_INTERVAL) {
+      this.regenTimer -= REGEN_INTERVAL;
+      this.gameState.updateHealth(playerHealth + REGEN_AMOUNT);
+    }
+  }
+
+  /**
+   * Vida y aire completos, al entrar en el mundo o al reaparecer.
+   */
+  public reset(): void {
+    this.air = MAX_AIR;
+    this.drowningTimer = 0;
+    this.contactTimer = 0;
+    this.timeSinceDamage = 0;
+    this.regenTimer = 0;
+    this.gameState.resetHealth();
+    this.emitAirIfChanged(true);
+  }
+
+  public getAir(): number {
+    return this.air;
+  }
+
+  private handlePlayerLand(event: PlayerLandEvent): void {
+    const excess = event.fallDistance - this.maxFallDistance;
+    if (excess > 0) {
+      this.damage(Math.ceil(excess) * FALL_DAMAGE_PER_BLOCK);
+    }
+  }
+
+  private damage(amount: number): void {
+    if (this.player.dead || !this.gameState.getGameModeRules().takesDamage) return;
+    this.timeSinceDamage = 0;
+    this.gameState.applyDamage(amount);
+
+    if (this.gameState.getState().playerHealth <= 0) {
+      this.player.die();
+      this.eventBus.emit(GameEvents.PLAYER_DEATH, {
+        position: { x: this.player.x, y: this.player.y, z: this.player.z },
+      });
+    }
+  }
+
+  // El HUD solo necesita saber cuándo cambia el número de burbujas
+  private emitAirIfChanged(force: boolean = false): void {
+    const bubbles = Math.ceil((this.air / MAX_AIR) * AIR_BUBBLES);
+    if (!force && bubbles === this.lastAirBubbles) return;
+    this.lastAirBubbles = bubbles;
+    const event: AirUpdateEvent = { air: this.air, maxAir: MAX_AIR };
+    this.eventBus.emit(GameEvents.AIR_UPDATE, event);
+  }
+}
@@ -2,11 +2,17 @@ import * as THREE from "three";
 import { CONTROL_CONFIG } from "../CONTROL_CONFIG";
 import type { PlayerWorldService } from "../types";
 import { CollisionService } from "../physics/CollisionService";
+import { GameStateService } from "./GameStateService";
+import { BlockRegistry } from "../BlockRegistry";
+import { EventBus, GameEvents, type PlayerLandEvent } from "../events/EventBus";
 
 export class PlayerMovementService {
   private worldService: PlayerWorldService;
   private player: any; // Referencia al jugador para actualizar su posición
   private collisionService: CollisionService;
+  private blockRegistry: BlockRegistry = BlockRegistry.getInstance();
+  // Altura más alta alcanzada desde que el jugador dejó el suelo (null = no está cayendo)
+  private fallStartY: number | null = null;
 
   constructor(worldService: PlayerWorldService, player: any) {
     this.worldService = worldService;
@@ -34,16 +40,21 @@ export class PlayerMovementService {
     let dy = dY;
 
     // Usar CollisionService para resolver colisiones y step-up
+    this.collisionService.setNoclip(
+      GameStateService.getInstance().getGameModeRules().noclip
+    );
     const result = this.collisionService.resolveCollisions(
       new THREE.Vector3(this.player.x, this.player.y, this.player.z),
       new THREE.Vector3(dx, dy, dz),
       { width: this.player.width, height: this.player.height, depth: this.player.depth }
     );
 
+    const wasOnGround = this.player.onGround;
     this.player.x = result.newPosition.x;
     this.player.y = result.newPosition.y;
     this.player.z = result.newPosition.z;
     this.player.onGround = result.isOnGround;
+    this.trackFall(wasOnGround, result.isOnGround);
     this.player.mesh.position.set(result.newPosition.x, result.newPosition.y, result.newPosition.z);
     this.player.cameraService.position.set(
       result.newPosition.x,
@@ -52,6 +63,43 @@ export class PlayerMovementService {
     );
   }
 
+  /** Olvida la caída en curso: al reaparecer o tras un teletransporte */
+  public resetFall(): void {
+    this.fallStartY = null;
+  }
+
+  /**
+   * Mide la caída desde el punto más alto y emite PLAYER_LAND al tocar suelo.
+   * Volar o entrar en el agua anula la caída.
+   */
+  private trackFall(wasOnGround: boolean, isOnGround: boolean): void {
+    const feetBlock = this.worldService.getBlock(
+      Math.floor(this.player.x),
+      Math.floor(this.player.y),
+      Math.floor(this.player.z)
+    );
+    if (this.player.flying || this.blockRegistry.isSwimmable(feetBlock)) {
+      this.fallStartY = null;
+      return;
+    }
+
+    if (!isOnGround) {
+      if (this.fallStartY === null || this.player.y > this.fallStartY) {
+        this.fallStartY = this.player.y;
+      }
+      return;
+    }
+
+    if (!wasOnGround && this.fallStartY !== null) {
+      const event: PlayerLandEvent = {
+        fallDistance: Math.max(0, this.fallStartY - this.player.y),
+        position: { x: this.player.x, y: this.player.y, z: this.player.z },
+      };
+      EventBus.getInstance().emit(GameEvents.PLAYER_LAND, event);
+    }
+    this.fallStartY = null;
+  }
+
   private calculateVerticalMovement(deltaTime: number): number {
     let dY = 0;
 
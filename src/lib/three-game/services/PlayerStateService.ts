@@ -1,4 +1,5 @@
 import { CONTROL_CONFIG } from "../CONTROL_CONFIG";
+import { GameStateService } from "./GameStateService";
 
 export class PlayerStateService {
   private player: any; // Referencia al jugador
@@ -24,6 +25,7 @@ export class PlayerStateService {
 
   constructor(player: any) {
     this.player = player;
+    this._flying = GameStateService.getInstance().getGameModeRules().alwaysFlying;
   }
 
   // Getters y setters
@@ -88,7 +90,10 @@ export class PlayerStateService {
       flying: this._flying,
     });
 
+    const rules = GameStateService.getInstance().getGameModeRules();
     if (
+      rules.canFly &&
+      !rules.alwaysFlying &&
       now - this._lastSpacePressTime < this.flyToggleDelay &&
       this._lastSpacePressTime !== 0
     ) {
@@ -123,6 +128,27 @@ export class PlayerStateService {
     }
   }
 
+  /**
+   * Ajusta el vuelo al modo de juego actual: en espectador siempre se vuela
+   * y en los modos sin vuelo se cae al suelo.
+   */
+  public applyGameMode(): void {
+    const rules = GameStateService.getInstance().getGameModeRules();
+    if (rules.alwaysFlying && !this._flying) {
+      this._flying = true;
+      this._jumping = false;
+      this._isRunning = false;
+      this.player.jumpVelocity = 0;
+      this._onGround = false;
+    } else if (!rules.canFly && this._flying) {
+      this._flying = false;
+      this._isBoosting = false;
+      this._isFlyingAscending = false;
+      this._isFlyingDescending = false;
+      this._onGround = false;
+    }
+  }
+
   public startFlyingDown(): void {
     if (this._flying) {
       this._isFlyingDescending = true;
@@ -166,7 +192,7 @@ export class PlayerStateService {
 
   public respawn(): void {
     this._dead = false;
-    this._flying = false;
+    this._flying = GameStateService.getInstance().getGameModeRules().alwaysFlying;
     this._isBoosting = false;
     this._isRunning = false;
     this._isFlyingAscending = false;
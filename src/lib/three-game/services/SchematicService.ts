@@ -0,0 +1,351 @@
+import * as THREE from "three";
+import type { BlockChange, BlockPosition, GameRefs } from "../types";
+import { BlockRegistry } from "../BlockRegistry";
+import { GameEvents } from "../events/EventBus";
+import { GameStateService } from "./GameStateService";
+import {
+  IDENTITY_TRANSFORM,
+  MAX_SCHEMATIC_VOLUME,
+  createSchematic,
+  forEachSchematicBlock,
+  getTransformedSize,
+  mirrorTransform,
+  parseSchematic,
+  rotateTransform,
+  serializeSchematic,
+  type Schematic,
+  type SchematicTransform,
+} from "../schematics/Schematic";
+
+const SELECTION_COLOR = 0xffaa00;
+const PREVIEW_OUTLINE_COLOR = 0x3fbfff;
+const PREVIEW_BLOCK_COLOR = 0x7fdfff;
+// Un poco más grande que el bloque para que no parpadee contra sus caras
+const PREVIEW_BLOCK_SCALE = 1.01;
+
+/**
+ * Estructuras para compartir construcciones entre mundos. Con la selección
+ * activa el clic izquierdo marca la primera esquina y el derecho la segunda
+ * (el bloque que se mira); el prisma se exporta como archivo (ver
+ * Schematic). Una estructura importada se ve como vista previa translúcida
+ * delante del jugador, se puede girar y reflejar y se coloca con el clic
+ * derecho en una sola edición de World (un remallado por chunk y un paso
+ * de deshacer).
+ */
+export class SchematicService {
+  private refs: GameRefs;
+  private _isSelecting: boolean = false;
+  private corners: [BlockPosition | null, BlockPosition | null] = [null, null];
+  private selectionBox: THREE.Box3Helper;
+  private schematic: Schematic | null = null;
+  private transform: SchematicTransform = IDENTITY_TRANSFORM;
+  private previewRoot: THREE.Group;
+  private previewBlocks: THREE.InstancedMesh | null = null;
+  private previewOutline: THREE.Box3Helper;
+  // Esquina mínima donde se colocaría la vista previa
+  private previewOrigin: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(refs: GameRefs) {
+    this.refs = refs;
+
+    this.selectionBox = new THREE.Box3Helper(new THREE.Box3(), SELECTION_COLOR);
+    this.selectionBox.name = "Schematic_Selection";
+    this.selectionBox.visible = false;
+
+    this.previewRoot = new THREE.Group();
+    this.previewRoot.name = "Schematic_Preview";
+    this.previewRoot.visible = false;
+    this.previewOutline = new THREE.Box3Helper(new THREE.Box3(), PREVIEW_OUTLINE_COLOR);
+    this.previewRoot.add(this.previewOutline);
+
+    refs.scene?.add(this.selectionBox, this.previewRoot);
+  }
+
+  public get isSelecting(): boolean {
+    return this._isSelecting;
+  }
+
+  public get hasPreview(): boolean {
+    return this.schematic !== null;
+  }
+
+  /** Activa o desactiva el marcado de esquinas con los clics */
+  public setSelecting(selecting: boolean): void {
+    this._isSelecting = selecting;
+    if (selecting) this.cancelPreview();
+    this.showMessage(
+      selecting
+        ? "Selección: clic izquierdo = esquina 1, clic derecho = esquina 2"
+        : "Selección terminada"
+    );
+  }
+
+  /**
+   * Clics del jugador: en modo selección marcan esquinas y con vista previa
+   * el derecho la coloca. Devuelve true si el clic se ha usado.
+   */
+  public handleClick(button: number): boolean {
+    if (this._isSelecting && (button === 0 || button === 2)) {
+      this.setCornerFromLookingAt(button === 0 ? 0 : 1);
+      return true;
+    }
+    if (this.schematic && button === 2) {
+      this.placePreview();
+      return true;
+    }
+    return false;
+  }
+
+  /** Esquinas mínima y máxima de la selección, o null si falta alguna */
+  public getSelection(): { min: BlockPosition; max: BlockPosition } | null {
+    const [first, second] = this.corners;
+    if (!first || !second) return null;
+    return {
+      min: {
+        x: Math.min(first.x, second.x),
+        y: Math.min(first.y, second.y),
+        z: Math.min(first.z, second.z),
+      },
+      max: {
+        x: Math.max(first.x, second.x),
+        y: Math.max(first.y, second.y),
+        z: Math.max(first.z, second.z),
+      },
+    };
+  }
+
+  /** Codifica los bloques de la selección; lanza un Error si no se puede */
+  public exportSelection(): Schematic {
+    const world = this.refs.world;
+    if (!world) throw new Error("El mundo no está cargado");
+    const selection = this.getSelection();
+    if (!selection) throw new Error("Marca las dos esquinas con /schem select");
+    const { min, max } = selection;
+    return createSchematic(
+      [max.x - min.x + 1, max.y - min.y + 1, max.z - min.z + 1],
+      (x, y, z) => world.getBlock(min.x + x, min.y + y, min.z + z) ?? "air"
+    );
+  }
+
+  /** Descarga la selección como "<nombre>.schematic.json" */
+  public downloadSelection(name: string): Schematic {
+    const schematic = this.exportSelection();
+    const url = URL.createObjectURL(
+      new Blob([serializeSchematic(schematic)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${name}.schematic.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return schematic;
+  }
+
+  /**
+   * Pide un archivo de estructura al jugador y, si es válido, empieza su
+   * vista previa. Tiene que llamarse desde una pulsación o un clic del
+   * jugador para que el navegador abra el selector.
+   */
+  public importFromFile(): void {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        this.startPreview(parseSchematic(await file.text()));
+        this.printMessage(`Estructura ${file.name} cargada: clic derecho para colocarla`);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error("Error al importar la estructura:", error);
+        this.printMessage(`Error: no se pudo importar ${file.name}: ${reason}`);
+      }
+    };
+    input.click();
+  }
+
+  /** Muestra la estructura como vista previa para orientarla y colocarla */
+  public startPreview(schematic: Schematic): void {
+    const blockRegistry = BlockRegistry.getInstance();
+    const unknown = schematic.palette.filter((name) => name !== "air" && !blockRegistry.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Bloques desconocidos: ${unknown.join(", ")}`);
+    }
+
+    this.cancelPreview();
+    this._isSelecting = false;
+    this.schematic = schematic;
+    this.transform = IDENTITY_TRANSFORM;
+    this.buildPreview();
+  }
+
+  public cancelPreview(): void {
+    this.schematic = null;
+    this.previewRoot.visible = false;
+    this.disposePreviewBlocks();
+  }
+
+  public rotatePreview(): void {
+    if (!this.schematic) return;
+    this.transform = rotateTransform(this.transform, 1);
+    this.buildPreview();
+    this.showMessage(`Estructura girada ${this.transform.rotation * 90}°`);
+  }
+
+  public mirrorPreview(axis: "x" | "z"): void {
+    if (!this.schematic) return;
+    this.transform = mirrorTransform(this.transform, axis);
+    this.buildPreview();
+    this.showMessage(`Estructura reflejada en el eje ${axis.toUpperCase()}`);
+  }
+
+  /**
+   * Coloca la vista previa donde está, aire incluido, y la termina. Solo en
+   * los modos sin consumo de objetos, como deshacer y rehacer.
+   */
+  public placePreview(): BlockChange[] {
+    const world = this.refs.world;
+    const schematic = this.schematic;
+    if (!world || !schematic) return [];
+    if (GameStateService.getInstance().getGameModeRules().consumesItems) {
+      this.showMessage("Las estructuras solo se pueden colocar en creativo");
+      return [];
+    }
+    // Sin un bloque a la vista la vista previa está oculta y su origen no es válido
+    if (!this.previewRoot.visible) {
+      this.showMessage("Mira un bloque para colocar la estructura");
+      return [];
+    }
+
+    const origin = this.previewOrigin;
+    const blocks: (BlockPosition & { blockType: string })[] = [];
+    forEachSchematicBlock(schematic, this.transform, (x, y, z, blockType) => {
+      blocks.push({ x: origin.x + x, y: origin.y + y, z: origin.z + z, blockType });
+    });
+    world.history.closeStep();
+    const changes = world.setBlocks(blocks);
+    this.cancelPreview();
+    this.showMessage(`Estructura colocada: ${changes.length} bloques cambiados`);
+    return changes;
+  }
+
+  /** Sigue la mirada del jugador; se llama una vez por frame */
+  public update(): void {
+    const selection = this.getSelection() ?? this.getPartialSelection();
+    this.selectionBox.visible = this._isSelecting && selection !== null;
+    if (this.selectionBox.visible && selection) {
+      this.selectionBox.box.set(
+        new THREE.Vector3(selection.min.x, selection.min.y, selection.min.z),
+        new THREE.Vector3(selection.max.x + 1, selection.max.y + 1, selection.max.z + 1)
+      );
+    }
+
+    // La vista previa se apoya sobre el bloque que se mira, centrada en él
+    const lookingAt = this.refs.player?.getLookingAt();
+    this.previewRoot.visible = this.schematic !== null && !!lookingAt;
+    if (this.schematic && lookingAt) {
+      const [sizeX, , sizeZ] = getTransformedSize(this.schematic, this.transform);
+      const target = lookingAt.placeBlockWorldCoords;
+      this.previewOrigin.set(
+        Math.floor(target.x) - Math.floor(sizeX / 2),
+        Math.floor(target.y),
+        Math.floor(target.z) - Math.floor(sizeZ / 2)
+      );
+      this.previewRoot.position.copy(this.previewOrigin);
+    }
+  }
+
+  private setCornerFromLookingAt(index: 0 | 1): void {
+    const coords = this.refs.player?.getLookingAt()?.blockWorldCoords;
+    if (!coords) {
+      this.showMessage("Mira un bloque para marcar la esquina");
+      return;
+    }
+    this.corners[index] = {
+      x: Math.floor(coords.x),
+      y: Math.floor(coords.y),
+      z: Math.floor(coords.z),
+    };
+
+    const { x, y, z } = this.corners[index]!;
+    const selection = this.getSelection();
+    let message = `Esquina ${index + 1}: ${x}, ${y}, ${z}`;
+    if (selection) {
+      const { min, max } = selection;
+      const size = [max.x - min.x + 1, max.y - min.y + 1, max.z - min.z + 1];
+      const volume = size[0] * size[1] * size[2];
+      message += ` (${size.join("×")} = ${volume} bloques)`;
+      if (volume > MAX_SCHEMATIC_VOLUME) message += `: demasiado grande, máximo ${MAX_SCHEMATIC_VOLUME}`;
+    }
+    this.showMessage(message);
+  }
+
+  /** Con una sola esquina se dibuja ese bloque */
+  private getPartialSelection(): { min: BlockPosition; max: BlockPosition } | null {
+    const corner = this.corners[0] ?? this.corners[1];
+    return corner ? { min: corner, max: corner } : null;
+  }
+
+  /** Cubos translúcidos en los bloques que no son aire y el contorno del prisma */
+  private buildPreview(): void {
+    const schematic = this.schematic;
+    if (!schematic) return;
+    this.disposePreviewBlocks();
+
+    const positions: THREE.Vector3[] = [];
+    forEachSchematicBlock(schematic, this.transform, (x, y, z, block) => {
+      if (block !== "air") positions.push(new THREE.Vector3(x + 0.5, y + 0.5, z + 0.5));
+    });
+
+    const geometry = new THREE.BoxGeometry(
+      PREVIEW_BLOCK_SCALE,
+      PREVIEW_BLOCK_SCALE,
+      PREVIEW_BLOCK_SCALE
+    );
+    const material = new THREE.MeshBasicMaterial({
+      color: PREVIEW_BLOCK_COLOR,
+      transparent: true,
+      opacity: 0.35,
+      depthWrite: false,
+    });
+    const blocks = new THREE.InstancedMesh(geometry, material, Math.max(1, positions.length));
+    blocks.count = positions.length;
+    const matrix = new THREE.Matrix4();
+    positions.forEach((position, index) =>
+      blocks.setMatrixAt(index, matrix.makeTranslation(position.x, position.y, position.z))
+    );
+    blocks.instanceMatrix.needsUpdate = true;
+    this.previewBlocks = blocks;
+    this.previewRoot.add(blocks);
+
+    const [sizeX, sizeY, sizeZ] = getTransformedSize(schematic, this.transform);
+    this.previewOutline.box.set(new THREE.Vector3(0, 0, 0), new THREE.Vector3(sizeX, sizeY, sizeZ));
+  }
+
+  private disposePreviewBlocks(): void {
+    if (!this.previewBlocks) return;
+    this.previewRoot.remove(this.previewBlocks);
+    this.previewBlocks.geometry.dispose();
+    (this.previewBlocks.material as THREE.Material).dispose();
+    this.previewBlocks.dispose();
+    this.previewBlocks = null;
+  }
+
+  private showMessage(message: string): void {
+    this.refs.eventBus.emit(GameEvents.ACTION_BAR_MESSAGE, { message });
+  }
+
+  private printMessage(text: string): void {
+    this.refs.eventBus.emit(GameEvents.CHAT_MESSAGE, { text });
+  }
+
+  public dispose(): void {
+    this.cancelPreview();
+    this.refs.scene?.remove(this.selectionBox, this.previewRoot);
+    this.selectionBox.geometry.dispose();
+    (this.selectionBox.material as THREE.Material).dispose();
+    this.previewOutline.geometry.dispose();
+    (this.previewOutline.material as THREE.Material).dispose();
+  }
+}
@@ -11,6 +11,7 @@ export interface GameSettings {
     shadows: boolean;
     antiAliasing: boolean;
     renderDistance: number;
+    ambientOcclusion: boolean; // sombreado de esquinas y bordes en las mallas de chunks
   };
   controls: {
     sensitivity: number;
@@ -49,6 +50,7 @@ export class SettingsService {
         shadows: true,
         antiAliasing: true,
         renderDistance: 8,
+        ambientOcclusion: true,
       },
       controls: {
         sensitivity: 0.5,
@@ -119,6 +121,16 @@ export class SettingsService {
     this.saveSettings();
   }
 
+  public setAmbientOcclusion(enabled: boolean): void {
+    this.settings.graphics.ambientOcclusion = enabled;
+    this.saveSettings();
+  }
+
+  // Los ajustes guardados antes de existir la opción no la tienen: activada por defecto
+  public isAmbientOcclusionEnabled(): boolean {
+    return this.settings.graphics.ambientOcclusion !== false;
+  }
+
   // Controls helpers
   public setKeyBinding(action: string, key: string): void {
     if (this.settings.controls.keybindings[action] !== undefined) {
@@ -0,0 +1,437 @@
+import type { World } from "../World";
+import type { ChunkDiff } from "../types";
+import { EventBus, GameEvents } from "../events/EventBus";
+import type { ChunkEvent, GameStateEvent } from "../events/EventBus";
+import { gameLogger } from "./LoggingService";
+import { GameStateService, type GameMode, type InventorySlot } from "./GameStateService";
+import { HotbarService } from "./HotbarService";
+import { DEFAULT_WORLD_HEIGHT } from "../utils";
+
+const DB_NAME = "blockify_worlds";
+const DB_VERSION = 1;
+const WORLDS_STORE = "worlds";
+const CHUNKS_STORE = "chunks";
+
+export interface SavedWorldMeta {
+  id: string;
+  name: string;
+  seed: string;
+  createdAt: number;
+  lastPlayed: number;
+  playTimeMs: number;
+  thumbnail: string | null;
+  gameMode: GameMode; // los guardados anteriores a los modos de juego no lo tienen
+  worldHeight: number; // capas del mundo; los guardados anteriores no la tienen
+  inventory: InventorySlot[]; // inventario de supervivencia; los guardados anteriores no lo tienen
+}
+
+interface SavedChunkRecord {
+  worldId: string;
+  chunkKey: string;
+  changes: ChunkDiff;
+}
+
+export interface LoadedWorldSave {
+  meta: SavedWorldMeta;
+  chunkDiffs: Map<string, ChunkDiff>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const generateWorldId = (): string =>
+  `world_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Convierte la semilla introducida por el jugador en la semilla numérica que usa
+ * la generación de terreno. Un texto vacío genera una semilla aleatoria y un
+ * texto no numérico se convierte con un hash estable.
+ */
+export const resolveWorldSeed = (input?: string): string => {
+  const trimmed = input?.trim() ?? "";
+  if (trimmed === "") {
+    return Math.floor(Math.random() * Number.MAX_SAFE_INTEGER).toString();
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) <= Number.MAX_SAFE_INTEGER ? trimmed : trimmed.slice(0, 15);
+  }
+  let hash = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = (hash << 5) - hash + trimmed.charCodeAt(i);
+    hash |= 0;
+  }
+  return Math.abs(hash).toString();
+};
+
+/**
+ * Persiste la semilla del mundo y los chunks modificados por el jugador en IndexedDB.
+ * Solo se guardan las diferencias respecto al terreno generado por la semilla.
+ */
+export class WorldSaveService {
+  private static instance: WorldSaveService;
+  private eventBus: EventBus;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private world: World | null = null;
+  private worldId: string | null = null;
+  private captureThumbnail: (() => string | null) | null = null;
+  // Inicio del tramo de juego todavía no contabilizado (null mientras está en pausa)
+  private playTimeMark: number | null = null;
+  // Cola de escrituras para que los guardados no se solapen
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    this.eventBus = EventBus.getInstance();
+    this.handleChunkUnload = this.handleChunkUnload.bind(this);
+    this.handleGameStateChange = this.handleGameStateChange.bind(this);
+    this.handleGameModeChange = this.handleGameModeChange.bind(this);
+    this.handlePageHide = this.handlePageHide.bind(this);
+  }
+
+  public static getInstance(): WorldSaveService {
+    if (!WorldSaveService.instance) {
+      WorldSaveService.instance = new WorldSaveService();
+    }
+    return WorldSaveService.instance;
+  }
+
+  public isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(WORLDS_STORE)) {
+            db.createObjectStore(WORLDS_STORE, { keyPath: "id" });
+          }
+          if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+            const chunks = db.createObjectStore(CHUNKS_STORE, {
+              keyPath: ["worldId", "chunkKey"],
+            });
+            chunks.createIndex("worldId", "worldId");
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Lista los mundos guardados, del jugado más recientemente al más antiguo.
+   */
+  public async listWorlds(): Promise<SavedWorldMeta[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(WORLDS_STORE, "readonly");
+    const worlds = await requestToPromise<SavedWorldMeta[]>(
+      transaction.objectStore(WORLDS_STORE).getAll()
+    );
+    return worlds.sort((a, b) => b.lastPlayed - a.lastPlayed);
+  }
+
+  /**
+   * Carga la semilla y los chunks modificados de un mundo guardado.
+   * Devuelve null si el mundo no existe.
+   */
+  public async loadWorld(worldId: string): Promise<LoadedWorldSave | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([WORLDS_STORE, CHUNKS_STORE], "readonly");
+    const meta = await requestToPromise<SavedWorldMeta | undefined>(
+      transaction.objectStore(WORLDS_STORE).get(worldId)
+    );
+    if (!meta) return null;
+    meta.gameMode = meta.gameMode ?? "creative";
+    meta.worldHeight = meta.worldHeight ?? DEFAULT_WORLD_HEIGHT;
+    meta.inventory = meta.inventory ?? [];
+
+    const records = await requestToPromise<SavedChunkRecord[]>(
+      transaction.objectStore(CHUNKS_STORE).index("worldId").getAll(worldId)
+    );
+    const chunkDiffs = new Map<string, ChunkDiff>();
+    records.forEach((record) => chunkDiffs.set(record.chunkKey, record.changes));
+
+    gameLogger.logGameState("Mundo guardado cargado", {
+      worldId,
+      seed: meta.seed,
+      modifiedChunks: chunkDiffs.size,
+    });
+    return { meta, chunkDiffs };
+  }
+
+  public async createWorld(
+    name: string,
+    seed: string,
+    gameMode: GameMode = "creative",
+    worldHeight: number = DEFAULT_WORLD_HEIGHT
+  ): Promise<SavedWorldMeta> {
+    const now = Date.now();
+    const meta: SavedWorldMeta = {
+      id: generateWorldId(),
+      name,
+      seed,
+      createdAt: now,
+      lastPlayed: now,
+      playTimeMs: 0,
+      thumbnail: null,
+      gameMode,
+      worldHeight,
+      inventory: [],
+    };
+    const db = await this.openDatabase();
+    const transaction = db.transaction(WORLDS_STORE, "readwrite");
+    transaction.objectStore(WORLDS_STORE).put(meta);
+    await transactionDone(transaction);
+    gameLogger.logGameState("Mundo nuevo guardado", {
+      worldId: meta.id,
+      name,
+      seed,
+      gameMode,
+      worldHeight,
+    });
+    return meta;
+  }
+
+  /**
+   * Copia un mundo con todos sus chunks modificados bajo un nombre nuevo.
+   */
+  public async duplicateWorld(worldId: string, name: string): Promise<SavedWorldMeta> {
+    // Asegurar que los cambios pendientes del mundo en juego entran en la copia
+    if (this.worldId === worldId) {
+      await this.saveModifiedChunks();
+    }
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([WORLDS_STORE, CHUNKS_STORE], "readwrite");
+    const worlds = transaction.objectStore(WORLDS_STORE);
+    const chunks = transaction.objectStore(CHUNKS_STORE);
+
+    const source = await requestToPromise<SavedWorldMeta | undefined>(worlds.get(worldId));
+    if (!source) {
+      transaction.abort();
+      throw new Error(`No existe el mundo ${worldId}`);
+    }
+    const copy: SavedWorldMeta = {
+      ...source,
+      id: generateWorldId(),
+      name,
+      createdAt: Date.now(),
+    };
+    worlds.put(copy);
+
+    const records = await requestToPromise<SavedChunkRecord[]>(
+      chunks.index("worldId").getAll(worldId)
+    );
+    records.forEach((record) => chunks.put({ ...record, worldId: copy.id }));
+    await transactionDone(transaction);
+
+    gameLogger.logGameState("Mundo duplicado", { from: worldId, to: copy.id });
+    return copy;
+  }
+
+  public async renameWorld(worldId: string, name: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(WORLDS_STORE, "readwrite");
+    const worlds = transaction.objectStore(WORLDS_STORE);
+    const meta = await requestToPromise<SavedWorldMeta | undefined>(worlds.get(worldId));
+    if (meta) {
+      worlds.put({ ...meta, name });
+    }
+    await transactionDone(transaction);
+  }
+
+  public async deleteWorld(worldId: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([WORLDS_STORE, CHUNKS_STORE], "readwrite");
+    transaction.objectStore(WORLDS_STORE).delete(worldId);
+    const chunkKeys = await requestToPromise<IDBValidKey[]>(
+      transaction.objectStore(CHUNKS_STORE).index("worldId").getAllKeys(worldId)
+    );
+    chunkKeys.forEach((key) => transaction.objectStore(CHUNKS_STORE).delete(key));
+    await transactionDone(transaction);
+    gameLogger.logGameState("Mundo eliminado", { worldId });
+  }
+
+  /**
+   * Empieza a guardar automáticamente los cambios del mundo: al descargar
+   * un chunk modificado, al pausar y al ocultar la página.
+   */
+  public attachWorld(
+    world: World,
+    worldId: string,
+    captureThumbnail?: () => string | null
+  ): void {
+    this.detachWorld();
+    this.world = world;
+    this.worldId = worldId;
+    this.captureThumbnail = captureThumbnail ?? null;
+    this.playTimeMark = Date.now();
+    this.eventBus.on(GameEvents.CHUNK_UNLOAD, this.handleChunkUnload);
+    this.eventBus.on(GameEvents.GAME_STATE_CHANGE, this.handleGameStateChange);
+    this.eventBus.on(GameEvents.GAME_MODE_CHANGE, this.handleGameModeChange);
+    if (typeof window !== "undefined") {
+      window.addEventListener("pagehide", this.handlePageHide);
+    }
+  }
+
+  /**
+   * Guarda los cambios pendientes y deja de escuchar eventos del mundo actual.
+   */
+  public detachWorld(): Promise<void> {
+    if (!this.world) return this.saveQueue;
+
+    const pendingSave = this.saveWorld();
+    this.eventBus.off(GameEvents.CHUNK_UNLOAD, this.handleChunkUnload);
+    this.eventBus.off(GameEvents.GAME_STATE_CHANGE, this.handleGameStateChange);
+    this.eventBus.off(GameEvents.GAME_MODE_CHANGE, this.handleGameModeChange);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", this.handlePageHide);
+    }
+    this.world = null;
+    this.worldId = null;
+    this.captureThumbnail = null;
+    this.playTimeMark = null;
+    return pendingSave;
+  }
+
+  /**
+   * Guarda los chunks modificados indicados (por defecto, todos los pendientes).
+   * Las diferencias se calculan de forma síncrona para capturar el estado actual.
+   */
+  public saveModifiedChunks(keys?: string[]): Promise<void> {
+    return this.save(keys, false);
+  }
+
+  /**
+   * Guarda todos los chunks pendientes junto con una miniatura actualizada.
+   */
+  public saveWorld(): Promise<void> {
+    return this.save(undefined, true);
+  }
+
+  private save(keys: string[] | undefined, withThumbnail: boolean): Promise<void> {
+    const world = this.world;
+    const worldId = this.worldId;
+    if (!world || !worldId) return this.saveQueue;
+
+    const chunkKeys = (keys ?? world.getModifiedChunkKeys()).filter((key) =>
+      world.isChunkModified(key)
+    );
+    const records: SavedChunkRecord[] = [];
+    for (const chunkKey of chunkKeys) {
+      const changes = world.computeChunkDiff(chunkKey);
+      if (!changes) continue;
+      world.markChunkSaved(chunkKey, changes);
+      records.push({ worldId, chunkKey, changes });
+    }
+
+    const metaUpdate: Partial<SavedWorldMeta> = {
+      lastPlayed: Date.now(),
+      playTimeMs: this.consumePlayTime(),
+      gameMode: GameStateService.getInstance().getGameMode(),
+      inventory: HotbarService.getInstance().getSurvivalInventory(),
+    };
+    if (withThumbnail && this.captureThumbnail) {
+      const thumbnail = this.captureThumbnail();
+      if (thumbnail) metaUpdate.thumbnail = thumbnail;
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.writeChunks(worldId, records, metaUpdate))
+      .catch((error) => {
+        // Los chunks no llegaron a guardarse: se reintentarán en el próximo guardado
+        for (const record of records) {
+          world.markChunkUnsaved(record.chunkKey);
+        }
+        gameLogger.logError(
+          error instanceof Error ? error : new Error(String(error)),
+          "World Save"
+        );
+      });
+    return this.saveQueue;
+  }
+
+  private consumePlayTime(): number {
+    if (this.playTimeMark === null) return 0;
+    const now = Date.now();
+    const elapsed = now - this.playTimeMark;
+    this.playTimeMark = now;
+    return elapsed;
+  }
+
+  private async writeChunks(
+    worldId: string,
+    records: SavedChunkRecord[],
+    metaUpdate: Partial<SavedWorldMeta>
+  ): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([WORLDS_STORE, CHUNKS_STORE], "readwrite");
+    const worlds = transaction.objectStore(WORLDS_STORE);
+    const chunks = transaction.objectStore(CHUNKS_STORE);
+
+    for (const record of records) {
+      if (record.changes.length > 0) {
+        chunks.put(record);
+      } else {
+        // El jugador ha dejado el chunk igual que el terreno generado
+        chunks.delete([worldId, record.chunkKey]);
+      }
+    }
+
+    const meta = await requestToPromise<SavedWorldMeta | undefined>(worlds.get(worldId));
+    if (meta) {
+      worlds.put({
+        ...meta,
+        ...metaUpdate,
+        // playTimeMs en metaUpdate es el tiempo transcurrido desde el último guardado
+        playTimeMs: (meta.playTimeMs ?? 0) + (metaUpdate.playTimeMs ?? 0),
+      });
+    }
+    await transactionDone(transaction);
+
+    if (records.length > 0) {
+      gameLogger.logGameEvent(`Guardados ${records.length} chunks modificados`);
+    }
+  }
+
+  private handleChunkUnload(event: ChunkEvent): void {
+    if (this.world?.isChunkModified(event.chunkKey)) {
+      this.saveModifiedChunks([event.chunkKey]);
+    }
+  }
+
+  private handleGameStateChange(event: GameStateEvent): void {
+    if (event.state === "paused") {
+      this.saveWorld();
+      // El tiempo en pausa no cuenta como tiempo de juego
+      this.playTimeMark = null;
+    } else if (event.state === "playing" && this.playTimeMark === null) {
+      this.playTimeMark = Date.now();
+    }
+  }
+
+  // El modo se guarda en los metadatos del mundo en cuanto cambia
+  private handleGameModeChange(): void {
+    this.saveModifiedChunks([]);
+  }
+
+  private handlePageHide(): void {
+    this.saveWorld();
+  }
+}
@@ -8,6 +8,7 @@ import { Starfield } from "./Starfield";
 import { SkyRenderer } from "./SkyRenderer";
 import type { ITimeProvider } from "./ITimeProvider";
 import type { ISkyColorProvider } from "./ISkyColorProvider";
+import { voxelLightUniforms } from "../lighting/VoxelLightMaterial";
 
 export interface AdvancedSkyOptions {
   /**
@@ -60,6 +61,10 @@ export class AdvancedSky {
   public sun: Sun;
   private moon: Moon;
 
+  // Tinte de la niebla según el bioma del jugador; cambia de forma gradual
+  private fogTint: THREE.Color = new THREE.Color(1, 1, 1);
+  private targetFogTint: THREE.Color = new THREE.Color(1, 1, 1);
+
   constructor(
     scene: THREE.Scene,
     textureLoader: THREE.TextureLoader,
@@ -153,12 +158,23 @@ export class AdvancedSky {
       );
     }
     // === Fin integración ===
+    // La luz del cielo horneada en los chunks sigue al ciclo día/noche
+    voxelLightUniforms.skyLight.value = this.skyColorController.getAmbientLightIntensity();
 
     if (this.scene.fog instanceof THREE.Fog && !isCameraSubmerged) {
-      this.scene.fog.color.copy(this.skyColorController.getFogColor());
+      this.scene.fog.color
+        .copy(this.skyColorController.getFogColor())
+        .multiply(this.fogTint);
     }
   }
 
+  /**
+   * Color que multiplica el de la niebla (el fogTint del bioma actual).
+   */
+  public setBiomeFogTint(color: number): void {
+    this.targetFogTint.setHex(color);
+  }
+
   // Nuevo método: updateFixedStep para avanzar el tiempo del cielo en pasos fijos
   public updateFixedStep(
     fixedStep: number,
@@ -167,6 +183,8 @@ export class AdvancedSky {
   ): void {
     this.timeManager.update(fixedStep);
     this.skyColorController.updateColors();
+    // Unos segundos de transición al cruzar la frontera entre biomas
+    this.fogTint.lerp(this.targetFogTint, Math.min(1, fixedStep * 0.5));
     this.celestialBodyController.update(camera.position);
     this.skyRenderer.update(camera);
     const ambientLight = this.scene.getObjectByName(
@@ -177,8 +195,11 @@ export class AdvancedSky {
       ambientLight.intensity =
         this.skyColorController.getAmbientLightIntensity();
     }
+    voxelLightUniforms.skyLight.value = this.skyColorController.getAmbientLightIntensity();
     if (this.scene.fog instanceof THREE.Fog && !isCameraSubmerged) {
-      this.scene.fog.color.copy(this.skyColorController.getFogColor());
+      this.scene.fog.color
+        .copy(this.skyColorController.getFogColor())
+        .multiply(this.fogTint);
     }
   }
 
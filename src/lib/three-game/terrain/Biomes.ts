@@ -0,0 +1,134 @@
+/**
+ * Tabla de biomas. TerrainGenerator elige el bioma de cada columna a partir de
+ * dos mapas de ruido (temperatura y humedad), la altura del terreno y el campo
+ * de montañas; cada bioma decide los bloques de su superficie, cómo deforma el
+ * relieve, su vegetación y los colores que usa el renderizado.
+ */
+
+export type BiomeId =
+  | "plains"
+  | "forest"
+  | "desert"
+  | "snowyTundra"
+  | "mountains"
+  | "beach"
+  | "ocean";
+
+export interface BiomeDefinition {
+  id: BiomeId;
+  displayName: string; // nombre visible en el panel de depuración
+  surfaceBlock: string;
+  fillerBlock: string; // bloques bajo la superficie, hasta la piedra
+  fillerDepth: number;
+  // Relieve: desplazamiento (en bloques) y escala del ruido de llanura
+  height: { offset: number; amplitude: number };
+  // Bloques por encima del nivel del agua a partir de los que la superficie es nieve
+  snowLine: number | null;
+  vegetation: {
+    trees: number; // multiplicador de world.generation.treeFrequency
+    tallGrass: number; // probabilidad por columna de hierba
+    flowers: number;
+  };
+  grassTint: number; // color que multiplica la textura de la hierba y las hojas
+  fogTint: number; // color que multiplica el de la niebla del cielo
+}
+
+export const BIOMES: Record<BiomeId, BiomeDefinition> = {
+  plains: {
+    id: "plains",
+    displayName: "Llanura",
+    surfaceBlock: "grassBlock",
+    fillerBlock: "dirtBlock",
+    fillerDepth: 3,
+    height: { offset: 2, amplitude: 1 },
+    snowLine: null,
+    vegetation: { trees: 0.3, tallGrass: 0.18, flowers: 0.03 },
+    grassTint: 0xffffff,
+    fogTint: 0xffffff,
+  },
+  forest: {
+    id: "forest",
+    displayName: "Bosque",
+    surfaceBlock: "grassBlock",
+    fillerBlock: "dirtBlock",
+    fillerDepth: 3,
+    height: { offset: 4, amplitude: 1.6 },
+    snowLine: null,
+    vegetation: { trees: 3, tallGrass: 0.1, flowers: 0.02 },
+    grassTint: 0xc4e3a8,
+    fogTint: 0xdcebd8,
+  },
+  desert: {
+    id: "desert",
+    displayName: "Desierto",
+    surfaceBlock: "sandBlock",
+    fillerBlock: "sandBlock",
+    fillerDepth: 4,
+    height: { offset: 3, amplitude: 0.6 },
+    snowLine: null,
+    vegetation: { trees: 0, tallGrass: 0, flowers: 0 },
+    grassTint: 0xe6d690,
+    fogTint: 0xffe6c0,
+  },
+  snowyTundra: {
+    id: "snowyTundra",
+    displayName: "Tundra nevada",
+    surfaceBlock: "snowBlock",
+    fillerBlock: "dirtBlock",
+    fillerDepth: 3,
+    height: { offset: 3, amplitude: 0.9 },
+    snowLine: null,
+    vegetation: { trees: 0.2, tallGrass: 0, flowers: 0 },
+    grassTint: 0xc8dcd4,
+    fogTint: 0xe4eef8,
+  },
+  mountains: {
+    id: "mountains",
+    displayName: "Montañas",
+    surfaceBlock: "grassBlock",
+    fillerBlock: "dirtBlock",
+    fillerDepth: 2,
+    height: { offset: 0, amplitude: 1 },
+    snowLine: 14,
+    vegetation: { trees: 0.5, tallGrass: 0.06, flowers: 0.01 },
+    grassTint: 0xd8e6c8,
+    fogTint: 0xe8eef4,
+  },
+  beach: {
+    id: "beach",
+    displayName: "Playa",
+    surfaceBlock: "sandBlock",
+    fillerBlock: "sandBlock",
+    fillerDepth: 3,
+    height: { offset: 0, amplitude: 0.5 },
+    snowLine: null,
+    vegetation: { trees: 0, tallGrass: 0, flowers: 0 },
+    grassTint: 0xffffff,
+    fogTint: 0xffffff,
+  },
+  ocean: {
+    id: "ocean",
+    displayName: "Océano",
+    surfaceBlock: "sandBlock",
+    fillerBlock: "sandBlock",
+    fillerDepth: 2,
+    height: { offset: -4, amplitude: 1 },
+    snowLine: null,
+    vegetation: { trees: 0, tallGrass: 0, flowers: 0 },
+    grassTint: 0xffffff,
+    fogTint: 0xe0ecf8,
+  },
+};
+
+/**
+ * Biomas de tierra firme que se eligen por clima, con su punto en el plano
+ * temperatura × humedad (los valores del ruido están aproximadamente en [-1, 1]).
+ * Cada columna pertenece al bioma con el punto más cercano y el relieve y los
+ * colores se mezclan con pesos suaves para que no haya saltos en las fronteras.
+ */
+export const CLIMATE_BIOMES: { biome: BiomeId; temperature: number; humidity: number }[] = [
+  { biome: "plains", temperature: 0.05, humidity: -0.1 },
+  { biome: "forest", temperature: 0.1, humidity: 0.3 },
+  { biome: "desert", temperature: 0.4, humidity: -0.35 },
+  { biome: "snowyTundra", temperature: -0.4, humidity: 0 },
+];
@@ -0,0 +1,205 @@
+/**
+ * Ruido simplex 2D/3D con semilla (algoritmo de Stefan Gustavson).
+ * A diferencia de sin·cos no se repite ni sigue la cuadrícula, y para una
+ * misma semilla devuelve siempre los mismos valores en cualquier máquina.
+ */
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+// Direcciones de gradiente: aristas de un cubo (en 2D se ignora z)
+const GRAD3 = new Float32Array([
+  1, 1, 0, -1, 1, 0, 1, -1, 0, -1, -1, 0,
+  1, 0, 1, -1, 0, 1, 1, 0, -1, -1, 0, -1,
+  0, 1, 1, 0, -1, 1, 0, 1, -1, 0, -1, -1,
+]);
+
+/**
+ * Reduce una semilla numérica (hasta Number.MAX_SAFE_INTEGER) y un nombre de
+ * capa a 32 bits, para que cada campo de ruido tenga su propia permutación.
+ */
+export const hashSeed = (seed: number, feature: string = ""): number => {
+  let hash = (seed >>> 0) ^ Math.floor(seed / 0x100000000);
+  for (let i = 0; i < feature.length; i++) {
+    hash = Math.imul(hash ^ feature.charCodeAt(i), 0x5bd1e995);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+};
+
+// PRNG mulberry32: suficiente para barajar la tabla de permutación
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export class SimplexNoise {
+  private perm: Uint8Array = new Uint8Array(512);
+  private permMod12: Uint8Array = new Uint8Array(512);
+
+  constructor(seed: number) {
+    const random = createRandom(seed);
+    const table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) table[i] = i;
+    // Fisher-Yates con el PRNG de la semilla
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const swap = table[i];
+      table[i] = table[j];
+      table[j] = swap;
+    }
+    for (let i = 0; i < 512; i++) {
+      this.perm[i] = table[i & 255];
+      this.permMod12[i] = this.perm[i] % 12;
+    }
+  }
+
+  /** Ruido 2D en [-1, 1] */
+  public noise2D(x: number, y: number): number {
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    // Triángulo del simplex en el que cae el punto
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const gi0 = this.permMod12[ii + this.perm[jj]] * 3;
+    const gi1 = this.permMod12[ii + i1 + this.perm[jj + j1]] * 3;
+    const gi2 = this.permMod12[ii + 1 + this.perm[jj + 1]] * 3;
+
+    let n0 = 0;
+    let n1 = 0;
+    let n2 = 0;
+    let t0 = 0.5 - x0 * x0 - y0 * y0;
+    if (t0 >= 0) {
+      t0 *= t0;
+      n0 = t0 * t0 * (GRAD3[gi0] * x0 + GRAD3[gi0 + 1] * y0);
+    }
+    let t1 = 0.5 - x1 * x1 - y1 * y1;
+    if (t1 >= 0) {
+      t1 *= t1;
+      n1 = t1 * t1 * (GRAD3[gi1] * x1 + GRAD3[gi1 + 1] * y1);
+    }
+    let t2 = 0.5 - x2 * x2 - y2 * y2;
+    if (t2 >= 0) {
+      t2 *= t2;
+      n2 = t2 * t2 * (GRAD3[gi2] * x2 + GRAD3[gi2 + 1] * y2);
+    }
+    return 70 * (n0 + n1 + n2);
+  }
+
+  /** Ruido 3D en [-1, 1] */
+  public noise3D(x: number, y: number, z: number): number {
+    const s = (x + y + z) * F3;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const t = (i + j + k) * G3;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+
+    // Tetraedro del simplex en el que cae el punto
+    let i1: number, j1: number, k1: number, i2: number, j2: number, k2: number;
+    if (x0 >= y0) {
+      if (y0 >= z0) {
+        i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0;
+      } else if (x0 >= z0) {
+        i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1;
+      } else {
+        i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1;
+      }
+    } else if (y0 < z0) {
+      i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1;
+    } else if (x0 < z0) {
+      i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1;
+    } else {
+      i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0;
+    }
+
+    const x1 = x0 - i1 + G3;
+    const y1 = y0 - j1 + G3;
+    const z1 = z0 - k1 + G3;
+    const x2 = x0 - i2 + 2 * G3;
+    const y2 = y0 - j2 + 2 * G3;
+    const z2 = z0 - k2 + 2 * G3;
+    const x3 = x0 - 1 + 3 * G3;
+    const y3 = y0 - 1 + 3 * G3;
+    const z3 = z0 - 1 + 3 * G3;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const perm = this.perm;
+    const gi0 = this.permMod12[ii + perm[jj + perm[kk]]] * 3;
+    const gi1 = this.permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]] * 3;
+    const gi2 = this.permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]] * 3;
+    const gi3 = this.permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]] * 3;
+
+    let n = 0;
+    let c = 0.6 - x0 * x0 - y0 * y0 - z0 * z0;
+    if (c > 0) {
+      c *= c;
+      n += c * c * (GRAD3[gi0] * x0 + GRAD3[gi0 + 1] * y0 + GRAD3[gi0 + 2] * z0);
+    }
+    c = 0.6 - x1 * x1 - y1 * y1 - z1 * z1;
+    if (c > 0) {
+      c *= c;
+      n += c * c * (GRAD3[gi1] * x1 + GRAD3[gi1 + 1] * y1 + GRAD3[gi1 + 2] * z1);
+    }
+    c = 0.6 - x2 * x2 - y2 * y2 - z2 * z2;
+    if (c > 0) {
+      c *= c;
+      n += c * c * (GRAD3[gi2] * x2 + GRAD3[gi2 + 1] * y2 + GRAD3[gi2 + 2] * z2);
+    }
+    c = 0.6 - x3 * x3 - y3 * y3 - z3 * z3;
+    if (c > 0) {
+      c *= c;
+      n += c * c * (GRAD3[gi3] * x3 + GRAD3[gi3 + 1] * y3 + GRAD3[gi3 + 2] * z3);
+    }
+    return 32 * n;
+  }
+
+  /**
+   * Ruido fractal (fBm) 2D: suma de octavas con frecuencia creciente y
+   * amplitud decreciente. Devuelve un valor aproximadamente en [-1, 1].
+   */
+  public fbm2D(
+    x: number,
+    y: number,
+    octaves: number,
+    persistence: number = 0.5,
+    lacunarity: number = 2
+  ): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxAmplitude = 0;
+    for (let i = 0; i < octaves; i++) {
+      total += this.noise2D(x * frequency, y * frequency) * amplitude;
+      maxAmplitude += amplitude;
+      amplitude *= persistence;
+      frequency *= lacunarity;
+    }
+    return total / maxAmplitude;
+  }
+}
@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TerrainGenerator } from "./TerrainGenerator";
+import { SimplexNoise, hashSeed } from "./SimplexNoise";
+import { BlockRegistry } from "../BlockRegistry";
+import { CHUNK_SIZE, getBlockIndex } from "../utils";
+
+// Mismos valores que World: 128 capas y semillas de hasta 15 dígitos
+const LAYERS = 128;
+const SEED = 987654321012345;
+
+const toBuffer = (blocks: Uint16Array): Buffer =>
+  Buffer.from(blocks.buffer, blocks.byteOffset, blocks.byteLength);
+
+test("el mismo chunk genera exactamente los mismos bytes en dos ejecuciones", () => {
+  for (const [chunkX, chunkZ] of [[0, 0], [-3, 7], [125, -48]]) {
+    const first = new TerrainGenerator(SEED, LAYERS).generateChunk(chunkX, chunkZ);
+    const second = new TerrainGenerator(SEED, LAYERS).generateChunk(chunkX, chunkZ);
+    assert.equal(toBuffer(first).compare(toBuffer(second)), 0);
+  }
+});
+
+test("el generador compartido coincide con uno nuevo", () => {
+  const shared = TerrainGenerator.forSeed(SEED, LAYERS);
+  assert.equal(shared, TerrainGenerator.forSeed(SEED, LAYERS));
+  assert.deepEqual(
+    toBuffer(shared.generateChunk(2, 2)),
+    toBuffer(new TerrainGenerator(SEED, LAYERS).generateChunk(2, 2))
+  );
+});
+
+test("semillas distintas generan terrenos distintos", () => {
+  const a = new TerrainGenerator(1, LAYERS).generateChunk(0, 0);
+  const b = new TerrainGenerator(2, LAYERS).generateChunk(0, 0);
+  assert.notEqual(toBuffer(a).compare(toBuffer(b)), 0);
+});
+
+test("el ruido simplex es determinista y está en [-1, 1]", () => {
+  const a = new SimplexNoise(hashSeed(SEED, "test"));
+  const b = new SimplexNoise(hashSeed(SEED, "test"));
+  for (let i = 0; i < 1000; i++) {
+    const x = i * 0.37 - 150;
+    const y = i * 0.11 + 20;
+    const z = i * -0.53;
+    const value2D = a.noise2D(x, y);
+    const value3D = a.noise3D(x, y, z);
+    assert.equal(value2D, b.noise2D(x, y));
+    assert.equal(value3D, b.noise3D(x, y, z));
+    assert.ok(value2D >= -1 && value2D <= 1);
+    assert.ok(value3D >= -1 && value3D <= 1);
+  }
+});
+
+test("los árboles del borde de un chunk continúan en el chunk vecino", () => {
+  const registry = BlockRegistry.getInstance();
+  const logId = registry.getId("woodLogBlock");
+  const leavesId = registry.getId("leavesBlock");
+  const generator = new TerrainGenerator(SEED, LAYERS);
+
+  let bordersChecked = 0;
+  for (let chunkX = -6; chunkX < 6; chunkX++) {
+    for (let chunkZ = -6; chunkZ < 6; chunkZ++) {
+      const blocks = generator.generateChunk(chunkX, chunkZ);
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        for (let y = 1; y < LAYERS - 1; y++) {
+          const x = CHUNK_SIZE - 1;
+          const isTrunkTop =
+            blocks[getBlockIndex(x, y, z)] === logId &&
+            blocks[getBlockIndex(x, y + 1, z)] !== logId;
+          if (!isTrunkTop) continue;
+
+          // Generar el vecino con otro generador: no comparten estado
+          const neighbor = new TerrainGenerator(SEED, LAYERS).generateChunk(chunkX + 1, chunkZ);
+          const canopyBlock = neighbor[getBlockIndex(0, y - 1, z)];
+          assert.ok(
+            canopyBlock === leavesId || canopyBlock === logId,
+            `copa cortada en el chunk ${chunkX + 1},${chunkZ} (z=${z}, y=${y - 1})`
+          );
+          bordersChecked++;
+        }
+      }
+    }
+  }
+  assert.ok(bordersChecked > 0, "ningún árbol cruza un borde en la zona probada");
+});
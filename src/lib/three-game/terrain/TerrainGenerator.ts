@@ -0,0 +1,826 @@
+import { CHUNK_SIZE, getBlockIndex } from "../utils";
+import { BlockRegistry } from "../BlockRegistry";
+import { GameConfig } from "../config/GameConfig";
+import { SimplexNoise, hashSeed } from "./SimplexNoise";
+import { BIOMES, CLIMATE_BIOMES, type BiomeDefinition } from "./Biomes";
+
+const OCTAVES = 5;
+const PERSISTENCE = 0.45;
+const LACUNARITY = 2.0;
+const NOISE_SCALE_ADJUSTMENT = 1.5;
+
+const MAX_HEIGHT_DIFF_THRESHOLD = 3;
+const SMOOTHING_PASSES = 2;
+
+// Cuevas: "queso" (cavernas grandes) y "gusanos" (túneles donde se cruzan
+// las superficies cero de dos campos de ruido 3D)
+const CHEESE_SCALE_XZ = 0.035;
+const CHEESE_SCALE_Y = 0.06;
+const CHEESE_ROOF = 5; // bloques mínimos de techo sobre las cavernas
+const WORM_SCALE_XZ = 0.025;
+const WORM_SCALE_Y = 0.04;
+const CAVE_FLOOR_Y = 1; // la capa y = 0 nunca se excava
+const LAVA_LEVEL = 8; // las cuevas se inundan de lava hasta esta altura
+// La capa y = 0 es siempre roca madre; por encima se mezcla con la piedra
+// hasta esta altura, cada capa con la mitad de probabilidad que la anterior
+const BEDROCK_MAX_Y = 3;
+
+/**
+ * Vetas de mineral. Las alturas son fracciones de la altura del mundo: el
+ * mineral es más frecuente en `peakY` y desaparece fuera de [minY, maxY].
+ */
+interface OreVein {
+  block: string;
+  minY: number;
+  peakY: number;
+  maxY: number;
+  scale: number; // frecuencia del ruido: más alta = vetas más pequeñas
+  threshold: number; // umbral del ruido en el pico; más alto = más raro
+}
+
+const ORE_VEINS: OreVein[] = [
+  { block: "coalOreBlock", minY: 0.04, peakY: 0.35, maxY: 0.6, scale: 0.16, threshold: 0.72 },
+  { block: "ironOreBlock", minY: 0.03, peakY: 0.2, maxY: 0.4, scale: 0.2, threshold: 0.76 },
+  { block: "goldOreBlock", minY: 0.02, peakY: 0.1, maxY: 0.25, scale: 0.24, threshold: 0.8 },
+  { block: "diamondOreBlock", minY: 0.01, peakY: 0.04, maxY: 0.125, scale: 0.28, threshold: 0.82 },
+];
+// Cuánto sube el umbral en los extremos del rango de altura de una veta
+const ORE_EDGE_PENALTY = 0.15;
+
+// Árboles: como mucho uno por celda de TREE_CELL_SIZE×TREE_CELL_SIZE columnas,
+// con el tronco lejos del borde de la celda para que no se junten
+const TREE_CELL_SIZE = 5;
+const TREE_CANOPY_RADIUS = 2;
+const TREE_MIN_TRUNK = 4;
+const TREE_MAX_TRUNK = 6;
+
+// Sales de columnRandom para que cada decisión use un valor independiente
+const SALT_TREE = 1;
+const SALT_TREE_X = 2;
+const SALT_TREE_Z = 3;
+const SALT_TREE_HEIGHT = 4;
+const SALT_PLANT = 5;
+const SALT_FLOWER = 6;
+const SALT_LEAF_CORNER = 7;
+const SALT_BEDROCK = 8; // + y, una tirada por capa
+
+/** Tronco de un árbol en coordenadas del mundo */
+interface TreePlacement {
+  x: number;
+  z: number;
+  baseY: number; // primer bloque del tronco, justo encima de la hierba
+  trunkHeight: number;
+}
+
+// Mapas de clima: escala del ruido y anchura de la mezcla entre biomas
+const CLIMATE_SCALE = 0.0025;
+const CLIMATE_OCTAVES = 3;
+const CLIMATE_BLEND_WIDTH = 0.2;
+// Valor del campo de montañas a partir del que la columna es montaña
+const MOUNTAIN_BIOME_THRESHOLD = 0.5;
+
+// Superficies sobre las que puede crecer un árbol
+const TREE_SOILS = ["grassBlock", "snowBlock"];
+
+/** Lo que se sabe de una columna antes de suavizar el terreno */
+interface ColumnSample {
+  height: number;
+  mountainBlend: number; // 0 = llanura, 1 = montaña
+  climateWeights: number[]; // pesos normalizados de CLIMATE_BIOMES
+}
+
+const lerp = (a: number, b: number, t: number): number => a * (1 - t) + b * t;
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Valor pseudoaleatorio estable en [0, 1] para una semilla y un nombre de
+ * parámetro. Se usa para variar ligeramente los parámetros de cada mundo.
+ */
+const seededRandom = (
+  vX: number,
+  vY: number,
+  vZ: number,
+  seed: number,
+  feature: string
+): number => {
+  let val = (vX * 381923 + vY * 271931 + vZ * 101393 + seed) & 0x7fffffff;
+  let featureHash = 0;
+  for (let i = 0; i < feature.length; i++) {
+    featureHash = (featureHash << 5) - featureHash + feature.charCodeAt(i);
+    featureHash |= 0;
+  }
+  val = (val + featureHash) & 0x7fffffff;
+  val = (val ^ (val >> 15)) * 1664525;
+  val = (val ^ (val >> 13)) * 1013904223;
+  val = val ^ (val >> 16);
+  return (val & 0x7fffffff) / 0x7fffffff;
+};
+
+// Parámetro base más una variación de ±spread/2 según la semilla
+const seededParam = (seed: number, feature: string, base: number, spread: number): number =>
+  base + seededRandom(0, 0, 0, seed, feature) * spread - spread / 2;
+
+/**
+ * Generación del terreno de un chunk a partir de la semilla del mundo.
+ * Solo depende de la semilla, la altura del mundo y las coordenadas del
+ * chunk, así que el mismo chunk genera siempre exactamente los mismos bloques
+ * (los guardados se calculan como diferencias contra este resultado).
+ */
+export class TerrainGenerator {
+  private static generators: Map<string, TerrainGenerator> = new Map();
+
+  private readonly layers: number;
+  private readonly baseHeight: number;
+  private readonly waterLevel: number;
+
+  private readonly biomeNoise: SimplexNoise; // campo que mezcla llanura y montaña
+  private readonly temperatureNoise: SimplexNoise;
+  private readonly humidityNoise: SimplexNoise;
+  private readonly mountainNoise: SimplexNoise;
+  private readonly plainsNoise: SimplexNoise;
+  private readonly basinNoise: SimplexNoise;
+  private readonly cheeseNoise: SimplexNoise;
+  private readonly wormNoiseA: SimplexNoise;
+  private readonly wormNoiseB: SimplexNoise;
+  private readonly oreNoises: SimplexNoise[];
+
+  private readonly cheeseThreshold: number;
+  private readonly wormRadius: number;
+  private readonly decorationSeed: number;
+  private readonly treeChance: number;
+  private readonly maxTreeChance: number;
+
+  private readonly mountainFreq: number;
+  private readonly mountainAmp: number;
+  private readonly plainsFreq: number;
+  private readonly plainsAmp: number;
+  private readonly mountainBasinFreq: number;
+  private readonly mountainBasinAmp: number;
+  private readonly mountainBasinThreshold: number;
+  private readonly plainsBasinFreq: number;
+  private readonly plainsBasinAmp: number;
+  private readonly plainsBasinThreshold: number;
+  private readonly biomeScale: number;
+  private readonly biomeBlendStart: number;
+  private readonly biomeBlendEnd: number;
+
+  constructor(seed: number, layers: number) {
+    this.layers = layers;
+    this.baseHeight = Math.floor(layers / 2.5);
+    this.waterLevel = this.baseHeight - 3;
+
+    this.biomeNoise = new SimplexNoise(hashSeed(seed, "biome"));
+    this.temperatureNoise = new SimplexNoise(hashSeed(seed, "temperature"));
+    this.humidityNoise = new SimplexNoise(hashSeed(seed, "humidity"));
+    this.mountainNoise = new SimplexNoise(hashSeed(seed, "mountain"));
+    this.plainsNoise = new SimplexNoise(hashSeed(seed, "plains"));
+    this.basinNoise = new SimplexNoise(hashSeed(seed, "basin"));
+    this.cheeseNoise = new SimplexNoise(hashSeed(seed, "caveCheese"));
+    this.wormNoiseA = new SimplexNoise(hashSeed(seed, "caveWormA"));
+    this.wormNoiseB = new SimplexNoise(hashSeed(seed, "caveWormB"));
+    this.oreNoises = ORE_VEINS.map(
+      (vein) => new SimplexNoise(hashSeed(seed, `ore:${vein.block}`))
+    );
+
+    // Los workers de terreno tienen su propio GameConfig con los mismos valores
+    // por defecto, así que ambos hilos excavan exactamente las mismas cuevas
+    const generation = GameConfig.getInstance().get<{
+      generation?: { caveFrequency?: number; treeFrequency?: number };
+    }>("world")?.generation;
+    const caveFrequency = Math.max(0, Math.min(0.2, generation?.caveFrequency ?? 0.05));
+    this.cheeseThreshold = 0.75 - caveFrequency * 2;
+    this.wormRadius = caveFrequency * 1.6;
+
+    // treeFrequency es la probabilidad de árbol por columna (antes de aplicar
+    // el multiplicador de cada bioma)
+    this.decorationSeed = hashSeed(seed, "decoration");
+    const treeFrequency = Math.max(0, generation?.treeFrequency ?? 0.02);
+    this.treeChance = treeFrequency * TREE_CELL_SIZE * TREE_CELL_SIZE;
+    this.maxTreeChance = Math.min(
+      1,
+      this.treeChance * Math.max(...Object.values(BIOMES).map((biome) => biome.vegetation.trees))
+    );
+
+    this.mountainFreq = seededParam(seed, "mtMainFreq", 0.05, 0.01) / NOISE_SCALE_ADJUSTMENT;
+    this.mountainAmp = seededParam(seed, "mtMainAmp", 12, 5);
+    this.plainsFreq = seededParam(seed, "plMainFreq", 0.04, 0.01) / NOISE_SCALE_ADJUSTMENT;
+    this.plainsAmp = seededParam(seed, "plMainAmp", 2.5, 1);
+
+    this.mountainBasinFreq = seededParam(seed, "mtBasinFreq", 0.04, 0.01);
+    this.mountainBasinAmp = seededParam(seed, "mtBasinAmp", 15, 5);
+    this.mountainBasinThreshold = seededParam(seed, "mtBasinThresh", 0.28, 0.1);
+    this.plainsBasinFreq = seededParam(seed, "plBasinFreq", 0.05, 0.01);
+    this.plainsBasinAmp = seededParam(seed, "plBasinAmp", 2.0, 1);
+    this.plainsBasinThreshold = seededParam(seed, "plBasinThresh", 0.62, 0.1);
+
+    this.biomeScale = seededParam(seed, "biomeScale", 0.008, 0.002);
+    this.biomeBlendStart = seededParam(seed, "biomeBlendStart", -0.1, 0.05);
+    this.biomeBlendEnd = seededParam(seed, "biomeBlendEnd", 0.2, 0.05);
+  }
+
+  /**
+   * Generador compartido para una semilla y altura de mundo: las tablas de
+   * ruido se construyen una sola vez y todos los chunks las reutilizan.
+   */
+  public static forSeed(seed: number, layers: number): TerrainGenerator {
+    const key = `${seed}:${layers}`;
+    let generator = TerrainGenerator.generators.get(key);
+    if (!generator) {
+      generator = new TerrainGenerator(seed, layers);
+      TerrainGenerator.generators.set(key, generator);
+    }
+    return generator;
+  }
+
+  /** Suma de octavas de ruido con la amplitud en bloques */
+  private fbmHeight(
+    noise: SimplexNoise,
+    worldX: number,
+    worldZ: number,
+    initialFrequency: number,
+    initialAmplitude: number
+  ): number {
+    let total = 0;
+    let frequency = initialFrequency;
+    let amplitude = initialAmplitude;
+    for (let i = 0; i < OCTAVES; i++) {
+      total += noise.noise2D(worldX * frequency, worldZ * frequency) * amplitude;
+      amplitude *= PERSISTENCE;
+      frequency *= LACUNARITY;
+    }
+    return total;
+  }
+
+  /**
+   * Pesos de los biomas de CLIMATE_BIOMES según la temperatura y la humedad de
+   * la columna. Suman 1 y varían de forma continua.
+   */
+  private getClimateWeights(worldX: number, worldZ: number): number[] {
+    const temperature = this.temperatureNoise.fbm2D(
+      worldX * CLIMATE_SCALE,
+      worldZ * CLIMATE_SCALE,
+      CLIMATE_OCTAVES
+    );
+    const humidity = this.humidityNoise.fbm2D(
+      worldX * CLIMATE_SCALE,
+      worldZ * CLIMATE_SCALE,
+      CLIMATE_OCTAVES
+    );
+    const weights = CLIMATE_BIOMES.map((climate) => {
+      const dt = temperature - climate.temperature;
+      const dh = humidity - climate.humidity;
+      return Math.exp(-(dt * dt + dh * dh) / (2 * CLIMATE_BLEND_WIDTH * CLIMATE_BLEND_WIDTH));
+    });
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return total > 0
+      ? weights.map((weight) => weight / total)
+      : weights.map((_, index) => (index === 0 ? 1 : 0));
+  }
+
+  private sampleColumn(worldX: number, worldZ: number): ColumnSample {
+    const biomeNoiseVal = this.biomeNoise.fbm2D(
+      worldX * this.biomeScale,
+      worldZ * this.biomeScale,
+      2
+    );
+    const mountainBlend = clamp01(
+      (biomeNoiseVal - this.biomeBlendStart) / (this.biomeBlendEnd - this.biomeBlendStart)
+    );
+    const climateWeights = this.getClimateWeights(worldX, worldZ);
+
+    // Relieve de tierra firme: mezcla de los perfiles de los biomas del clima
+    let landOffset = 0;
+    let landAmplitude = 0;
+    CLIMATE_BIOMES.forEach((climate, index) => {
+      const profile = BIOMES[climate.biome].height;
+      landOffset += climateWeights[index] * profile.offset;
+      landAmplitude += climateWeights[index] * profile.amplitude;
+    });
+    const mountainProfile = BIOMES.mountains.height;
+
+    const mountainHeight =
+      this.fbmHeight(
+        this.mountainNoise,
+        worldX,
+        worldZ,
+        this.mountainFreq,
+        this.mountainAmp * mountainProfile.amplitude
+      ) + mountainProfile.offset;
+    const plainsHeight =
+      this.fbmHeight(
+        this.plainsNoise,
+        worldX,
+        worldZ,
+        this.plainsFreq,
+        this.plainsAmp * landAmplitude
+      ) + landOffset;
+    let height = this.baseHeight + lerp(plainsHeight, mountainHeight, mountainBlend);
+
+    // Cuencas: hundimientos donde el campo de ruido se acerca a cero
+    const basinAmp = lerp(this.plainsBasinAmp, this.mountainBasinAmp, mountainBlend);
+    const basinThreshold = lerp(
+      this.plainsBasinThreshold,
+      this.mountainBasinThreshold,
+      mountainBlend
+    );
+    const basinFreq = lerp(this.plainsBasinFreq, this.mountainBasinFreq, mountainBlend);
+    if (basinAmp > 0) {
+      const basinField = this.basinNoise.noise2D(worldX * basinFreq, worldZ * basinFreq);
+      const normalizedBasinField = basinField * basinField;
+      if (normalizedBasinField < basinThreshold) {
+        const depressionStrength =
+          (basinThreshold - normalizedBasinField) / basinThreshold;
+        height -= depressionStrength * basinAmp;
+      }
+    }
+
+    // Costa: el fondo del océano se hunde y la playa se aplana, sin saltos
+    const shoreY = this.waterLevel + 1;
+    const oceanDepth = clamp01((this.waterLevel - 1 - height) / 4);
+    height += oceanDepth * BIOMES.ocean.height.offset;
+    const beachCloseness = clamp01(1 - Math.abs(height - shoreY) / 2);
+    height = shoreY + (height - shoreY) * lerp(1, BIOMES.beach.height.amplitude, beachCloseness);
+
+    return {
+      height: Math.max(1, Math.min(this.layers - 2, Math.floor(height))),
+      mountainBlend,
+      climateWeights,
+    };
+  }
+
+  /**
+   * Altura de la superficie (antes del suavizado) en una columna del mundo.
+   */
+  public getColumnHeight(worldX: number, worldZ: number): number {
+    return this.sampleColumn(worldX, worldZ).height;
+  }
+
+  /**
+   * Bioma de una columna: la costa y el océano dependen de la altura final, las
+   * montañas del campo de montañas y el resto del clima.
+   */
+  private classifyBiome(sample: ColumnSample, surfaceY: number): BiomeDefinition {
+    if (surfaceY < this.waterLevel - 1) return BIOMES.ocean;
+    if (surfaceY <= this.waterLevel + 1) return BIOMES.beach;
+    if (sample.mountainBlend > MOUNTAIN_BIOME_THRESHOLD) return BIOMES.mountains;
+
+    let best = 0;
+    sample.climateWeights.forEach((weight, index) => {
+      if (weight > sample.climateWeights[best]) best = index;
+    });
+    return BIOMES[CLIMATE_BIOMES[best].biome];
+  }
+
+  public getBiome(worldX: number, worldZ: number): BiomeDefinition {
+    return this.classifyBiome(
+      this.sampleColumn(worldX, worldZ),
+      this.getSurfaceHeight(worldX, worldZ)
+    );
+  }
+
+  /**
+   * Color (r, g, b en [0, 1]) que tiñe la hierba y las hojas de una columna,
+   * mezclado entre biomas para que no cambie de golpe en las fronteras.
+   */
+  public getGrassTint(worldX: number, worldZ: number): [number, number, number] {
+    const sample = this.sampleColumn(worldX, worldZ);
+    const tint: [number, number, number] = [0, 0, 0];
+    const addColor = (color: number, weight: number) => {
+      tint[0] += (((color >> 16) & 0xff) / 255) * weight;
+      tint[1] += (((color >> 8) & 0xff) / 255) * weight;
+      tint[2] += ((color & 0xff) / 255) * weight;
+    };
+    CLIMATE_BIOMES.forEach((climate, index) => {
+      addColor(
+        BIOMES[climate.biome].grassTint,
+        sample.climateWeights[index] * (1 - sample.mountainBlend)
+      );
+    });
+    addColor(BIOMES.mountains.grassTint, sample.mountainBlend);
+    return tint;
+  }
+
+  private surfaceBlockFor(biome: BiomeDefinition, surfaceY: number): string {
+    if (biome.snowLine !== null && surfaceY >= this.waterLevel + biome.snowLine) {
+      return "snowBlock";
+    }
+    return biome.surfaceBlock;
+  }
+
+  /**
+   * Genera los bloques de un chunk (ids de BlockRegistry indexados con getBlockIndex).
+   */
+  public generateChunk(chunkX: number, chunkZ: number): Uint16Array {
+    const blockRegistry = BlockRegistry.getInstance();
+    const stoneBlockId = blockRegistry.getId("stoneBlock");
+    const waterBlockId = blockRegistry.getId("waterBlock");
+
+    const samples: ColumnSample[][] = [];
+    const surfaceHeights: number[][] = [];
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      samples.push([]);
+      surfaceHeights.push([]);
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const sample = this.sampleColumn(chunkX * CHUNK_SIZE + x, chunkZ * CHUNK_SIZE + z);
+        samples[x].push(sample);
+        surfaceHeights[x].push(sample.height);
+      }
+    }
+
+    const smoothedHeights = this.reducePillars(surfaceHeights);
+    const biomes = samples.map((column, x) =>
+      column.map((sample, z) => this.classifyBiome(sample, smoothedHeights[x][z]))
+    );
+
+    // Un Uint16Array nuevo ya está relleno de ceros (aire)
+    const blocks = new Uint16Array(CHUNK_SIZE * this.layers * CHUNK_SIZE);
+    const waterLevel = this.waterLevel;
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const surfaceY = smoothedHeights[x][z];
+        const biome = biomes[x][z];
+        const surfaceBlockId = blockRegistry.getId(this.surfaceBlockFor(biome, surfaceY));
+        const fillerBlockId = blockRegistry.getId(biome.fillerBlock);
+        for (let y = 0; y < this.layers; y++) {
+          const index = getBlockIndex(x, y, z);
+          if (y > surfaceY) {
+            if (y <= waterLevel) blocks[index] = waterBlockId;
+          } else if (y === surfaceY) {
+            blocks[index] = surfaceBlockId;
+          } else if (y >= surfaceY - biome.fillerDepth) {
+            blocks[index] = fillerBlockId;
+          } else {
+            blocks[index] = stoneBlockId;
+          }
+        }
+      }
+    }
+
+    this.carveCaves(blocks, chunkX, chunkZ, smoothedHeights);
+    this.placeOres(blocks, chunkX, chunkZ, smoothedHeights, stoneBlockId);
+    this.placeBedrock(blocks, chunkX, chunkZ);
+    this.decorate(blocks, chunkX, chunkZ, smoothedHeights, biomes);
+    return blocks;
+  }
+
+  /**
+   * Altura final (tras el suavizado) de cualquier columna del mundo, igual a la
+   * que usa generateChunk para el chunk que la contiene. Solo necesita las
+   * alturas sin suavizar de las columnas cercanas del mismo chunk.
+   */
+  public getSurfaceHeight(worldX: number, worldZ: number): number {
+    const chunkX = Math.floor(worldX / CHUNK_SIZE);
+    const chunkZ = Math.floor(worldZ / CHUNK_SIZE);
+    const localX = worldX - chunkX * CHUNK_SIZE;
+    const localZ = worldZ - chunkZ * CHUNK_SIZE;
+
+    const rawHeights = new Map<number, number>();
+    const raw = (x: number, z: number): number => {
+      const key = x * CHUNK_SIZE + z;
+      let height = rawHeights.get(key);
+      if (height === undefined) {
+        height = this.getColumnHeight(chunkX * CHUNK_SIZE + x, chunkZ * CHUNK_SIZE + z);
+        rawHeights.set(key, height);
+      }
+      return height;
+    };
+    // Misma regla que reducePillars, evaluada solo donde hace falta
+    const smoothed = (pass: number, x: number, z: number): number => {
+      const current = pass === 0 ? raw(x, z) : smoothed(pass - 1, x, z);
+      if (pass === 0 || x === 0 || z === 0 || x === CHUNK_SIZE - 1 || z === CHUNK_SIZE - 1) {
+        return current;
+      }
+      let neighborHeightsSum = 0;
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          if (dx === 0 && dz === 0) continue;
+          neighborHeightsSum += smoothed(pass - 1, x + dx, z + dz);
+        }
+      }
+      const averageNeighborHeight = neighborHeightsSum / 8;
+      if (current > averageNeighborHeight + MAX_HEIGHT_DIFF_THRESHOLD) {
+        return Math.max(
+          0,
+          Math.min(
+            Math.floor(averageNeighborHeight + MAX_HEIGHT_DIFF_THRESHOLD),
+            this.layers - 1
+          )
+        );
+      }
+      return current;
+    };
+    return smoothed(SMOOTHING_PASSES, localX, localZ);
+  }
+
+  /**
+   * Valor pseudoaleatorio en [0, 1) para una columna del mundo, estable para
+   * la semilla: cualquier chunk que lo calcule obtiene el mismo resultado.
+   */
+  private columnRandom(worldX: number, worldZ: number, salt: number): number {
+    let hash =
+      this.decorationSeed ^
+      Math.imul(worldX, 0x27d4eb2d) ^
+      Math.imul(worldZ, 0x165667b1) ^
+      Math.imul(salt, 0x2c1b3c6d);
+    hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return (hash >>> 0) / 4294967296;
+  }
+
+  /**
+   * Árbol de una celda, si la tiene. Solo depende de la semilla y de las alturas
+   * del terreno, así que todos los chunks que toca su copa lo ven igual sin
+   * importar el orden en que se generen.
+   */
+  private getTreeInCell(cellX: number, cellZ: number): TreePlacement | null {
+    // Con la misma tirada para el descarte rápido y para la densidad del bioma
+    const roll = this.columnRandom(cellX, cellZ, SALT_TREE);
+    if (roll >= this.maxTreeChance) return null;
+
+    const margin = TREE_CANOPY_RADIUS - 1;
+    const span = TREE_CELL_SIZE - 2 * margin;
+    const x =
+      cellX * TREE_CELL_SIZE + margin + Math.floor(this.columnRandom(cellX, cellZ, SALT_TREE_X) * span);
+    const z =
+      cellZ * TREE_CELL_SIZE + margin + Math.floor(this.columnRandom(cellX, cellZ, SALT_TREE_Z) * span);
+
+    // Solo sobre hierba o nieve, sin un túnel que abra la superficie, y con la
+    // densidad de árboles del bioma
+    const surfaceY = this.getSurfaceHeight(x, z);
+    const biome = this.classifyBiome(this.sampleColumn(x, z), surfaceY);
+    if (!TREE_SOILS.includes(this.surfaceBlockFor(biome, surfaceY))) return null;
+    if (this.isWormTunnel(x, surfaceY, z)) return null;
+    if (roll >= Math.min(1, this.treeChance * biome.vegetation.trees)) return null;
+
+    const trunkHeight =
+      TREE_MIN_TRUNK +
+      Math.floor(
+        this.columnRandom(cellX, cellZ, SALT_TREE_HEIGHT) * (TREE_MAX_TRUNK - TREE_MIN_TRUNK + 1)
+      );
+    const baseY = surfaceY + 1;
+    if (baseY + trunkHeight + 1 >= this.layers) return null;
+    return { x, z, baseY, trunkHeight };
+  }
+
+  /**
+   * Árboles, hierba alta y flores según la vegetación del bioma. Se recorren también los árboles de las
+   * celdas vecinas cuya copa entra en este chunk y se escribe solo la parte
+   * que cae dentro. Las hojas solo ocupan aire y los troncos aire u hojas, de
+   * modo que el resultado no depende del orden en que se colocan los árboles.
+   */
+  private decorate(
+    blocks: Uint16Array,
+    chunkX: number,
+    chunkZ: number,
+    heights: number[][],
+    biomes: BiomeDefinition[][]
+  ): void {
+    const blockRegistry = BlockRegistry.getInstance();
+    const grassBlockId = blockRegistry.getId("grassBlock");
+    const snowBlockId = blockRegistry.getId("snowBlock");
+    const dirtBlockId = blockRegistry.getId("dirtBlock");
+    const logBlockId = blockRegistry.getId("woodLogBlock");
+    const leavesBlockId = blockRegistry.getId("leavesBlock");
+    const tallGrassBlockId = blockRegistry.getId("tallGrassBlock");
+    const poppyBlockId = blockRegistry.getId("poppyBlock");
+    const dandelionBlockId = blockRegistry.getId("dandelionBlock");
+
+    const minX = chunkX * CHUNK_SIZE;
+    const minZ = chunkZ * CHUNK_SIZE;
+    const setBlock = (worldX: number, y: number, worldZ: number, id: number, replaces: number[]) => {
+      const localX = worldX - minX;
+      const localZ = worldZ - minZ;
+      if (localX < 0 || localX >= CHUNK_SIZE || localZ < 0 || localZ >= CHUNK_SIZE) return;
+      if (y < 0 || y >= this.layers) return;
+      const index = getBlockIndex(localX, y, localZ);
+      if (replaces.includes(blocks[index])) blocks[index] = id;
+    };
+
+    const firstCellX = Math.floor((minX - TREE_CANOPY_RADIUS) / TREE_CELL_SIZE);
+    const lastCellX = Math.floor((minX + CHUNK_SIZE - 1 + TREE_CANOPY_RADIUS) / TREE_CELL_SIZE);
+    const firstCellZ = Math.floor((minZ - TREE_CANOPY_RADIUS) / TREE_CELL_SIZE);
+    const lastCellZ = Math.floor((minZ + CHUNK_SIZE - 1 + TREE_CANOPY_RADIUS) / TREE_CELL_SIZE);
+    for (let cellX = firstCellX; cellX <= lastCellX; cellX++) {
+      for (let cellZ = firstCellZ; cellZ <= lastCellZ; cellZ++) {
+        const tree = this.getTreeInCell(cellX, cellZ);
+        if (!tree) continue;
+        const topY = tree.baseY + tree.trunkHeight - 1;
+
+        // Copa: dos capas anchas con esquinas al azar y dos estrechas encima
+        for (let y = topY - 2; y <= topY + 1; y++) {
+          const radius = y < topY ? TREE_CANOPY_RADIUS : 1;
+          for (let dx = -radius; dx <= radius; dx++) {
+            for (let dz = -radius; dz <= radius; dz++) {
+              const isCorner = Math.abs(dx) === radius && Math.abs(dz) === radius;
+              if (
+                isCorner &&
+                (y === topY + 1 ||
+                  (radius === TREE_CANOPY_RADIUS &&
+                    this.columnRandom(tree.x + dx, tree.z + dz, SALT_LEAF_CORNER + y) < 0.5))
+              ) {
+                continue;
+              }
+              setBlock(tree.x + dx, y, tree.z + dz, leavesBlockId, [0]);
+            }
+          }
+        }
+        for (let y = tree.baseY; y <= topY; y++) {
+          setBlock(tree.x, y, tree.z, logBlockId, [0, leavesBlockId]);
+        }
+        setBlock(tree.x, tree.baseY - 1, tree.z, dirtBlockId, [grassBlockId, snowBlockId]);
+      }
+    }
+
+    // Plantas sobre la hierba que ha quedado al aire
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const y = heights[x][z] + 1;
+        if (y >= this.layers) continue;
+        if (blocks[getBlockIndex(x, y - 1, z)] !== grassBlockId) continue;
+        if (blocks[getBlockIndex(x, y, z)] !== 0) continue;
+
+        const worldX = minX + x;
+        const worldZ = minZ + z;
+        const { vegetation } = biomes[x][z];
+        const roll = this.columnRandom(worldX, worldZ, SALT_PLANT);
+        if (roll < vegetation.tallGrass) {
+          blocks[getBlockIndex(x, y, z)] = tallGrassBlockId;
+        } else if (roll < vegetation.tallGrass + vegetation.flowers) {
+          blocks[getBlockIndex(x, y, z)] =
+            this.columnRandom(worldX, worldZ, SALT_FLOWER) < 0.5 ? poppyBlockId : dandelionBlockId;
+        }
+      }
+    }
+  }
+
+  /**
+   * Suelo irrompible del mundo. Se coloca después de las cuevas, así que
+   * también tapa las que llegan al fondo.
+   */
+  private placeBedrock(blocks: Uint16Array, chunkX: number, chunkZ: number): void {
+    const bedrockBlockId = BlockRegistry.getInstance().getId("bedrockBlock");
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const worldX = chunkX * CHUNK_SIZE + x;
+        const worldZ = chunkZ * CHUNK_SIZE + z;
+        blocks[getBlockIndex(x, 0, z)] = bedrockBlockId;
+        for (let y = 1; y <= BEDROCK_MAX_Y; y++) {
+          if (this.columnRandom(worldX, worldZ, SALT_BEDROCK + y) < 0.5 ** y) {
+            blocks[getBlockIndex(x, y, z)] = bedrockBlockId;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Excava cavernas y túneles. Bajo el nivel del agua solo se excava por debajo
+   * de la superficie de las columnas vecinas, para que ninguna cueva quede
+   * pegada a un bloque de agua; por encima, los túneles pueden abrirse al
+   * exterior y servir de entrada. Lo excavado hasta LAVA_LEVEL se llena de lava.
+   */
+  private carveCaves(
+    blocks: Uint16Array,
+    chunkX: number,
+    chunkZ: number,
+    heights: number[][]
+  ): void {
+    const waterLevel = this.waterLevel;
+    const lavaBlockId = BlockRegistry.getInstance().getId("lavaBlock");
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const worldX = chunkX * CHUNK_SIZE + x;
+        const worldZ = chunkZ * CHUNK_SIZE + z;
+        const surfaceY = heights[x][z];
+        const lowestNeighbor = Math.min(
+          surfaceY,
+          this.surfaceAt(heights, chunkX, chunkZ, x - 1, z),
+          this.surfaceAt(heights, chunkX, chunkZ, x + 1, z),
+          this.surfaceAt(heights, chunkX, chunkZ, x, z - 1),
+          this.surfaceAt(heights, chunkX, chunkZ, x, z + 1)
+        );
+
+        for (let y = CAVE_FLOOR_Y; y <= surfaceY; y++) {
+          if (y <= waterLevel && y >= lowestNeighbor) continue;
+
+          const cheese =
+            y < surfaceY - CHEESE_ROOF &&
+            this.cheeseNoise.noise3D(
+              worldX * CHEESE_SCALE_XZ,
+              y * CHEESE_SCALE_Y,
+              worldZ * CHEESE_SCALE_XZ
+            ) > this.cheeseThreshold;
+          if (cheese || this.isWormTunnel(worldX, y, worldZ)) {
+            blocks[getBlockIndex(x, y, z)] = y <= LAVA_LEVEL ? lavaBlockId : 0;
+          }
+        }
+      }
+    }
+  }
+
+  private isWormTunnel(worldX: number, y: number, worldZ: number): boolean {
+    const a = this.wormNoiseA.noise3D(
+      worldX * WORM_SCALE_XZ,
+      y * WORM_SCALE_Y,
+      worldZ * WORM_SCALE_XZ
+    );
+    if (Math.abs(a) > this.wormRadius) return false;
+    const b = this.wormNoiseB.noise3D(
+      worldX * WORM_SCALE_XZ,
+      y * WORM_SCALE_Y,
+      worldZ * WORM_SCALE_XZ
+    );
+    return Math.abs(b) <= this.wormRadius;
+  }
+
+  /**
+   * Altura de una columna que puede caer en un chunk vecino.
+   */
+  private surfaceAt(
+    heights: number[][],
+    chunkX: number,
+    chunkZ: number,
+    x: number,
+    z: number
+  ): number {
+    if (x >= 0 && x < CHUNK_SIZE && z >= 0 && z < CHUNK_SIZE) return heights[x][z];
+    return this.getSurfaceHeight(chunkX * CHUNK_SIZE + x, chunkZ * CHUNK_SIZE + z);
+  }
+
+  /**
+   * Sustituye piedra por vetas de mineral, más abundantes cerca de la altura
+   * típica de cada mineral.
+   */
+  private placeOres(
+    blocks: Uint16Array,
+    chunkX: number,
+    chunkZ: number,
+    heights: number[][],
+    stoneBlockId: number
+  ): void {
+    const blockRegistry = BlockRegistry.getInstance();
+    ORE_VEINS.forEach((vein, veinIndex) => {
+      const oreBlockId = blockRegistry.getId(vein.block);
+      const noise = this.oreNoises[veinIndex];
+      const minY = Math.floor(vein.minY * this.layers);
+      const peakY = vein.peakY * this.layers;
+      const maxY = Math.ceil(vein.maxY * this.layers);
+
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+          const worldX = chunkX * CHUNK_SIZE + x;
+          const worldZ = chunkZ * CHUNK_SIZE + z;
+          const topY = Math.min(maxY, heights[x][z]);
+          for (let y = minY; y <= topY; y++) {
+            const index = getBlockIndex(x, y, z);
+            if (blocks[index] !== stoneBlockId) continue;
+
+            const edgeDistance =
+              y < peakY
+                ? (peakY - y) / Math.max(1, peakY - minY)
+                : (y - peakY) / Math.max(1, maxY - peakY);
+            const threshold = vein.threshold + Math.min(1, edgeDistance) * ORE_EDGE_PENALTY;
+            if (noise.noise3D(worldX * vein.scale, y * vein.scale, worldZ * vein.scale) > threshold) {
+              blocks[index] = oreBlockId;
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Rebaja las columnas que sobresalen demasiado respecto a sus vecinas
+   * (los bordes del chunk no se tocan para no crear costuras).
+   */
+  private reducePillars(heights: number[][]): number[][] {
+    let current = heights;
+    for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+      const next = current.map((column) => column.slice());
+      for (let x = 1; x < CHUNK_SIZE - 1; x++) {
+        for (let z = 1; z < CHUNK_SIZE - 1; z++) {
+          let neighborHeightsSum = 0;
+          for (let dx = -1; dx <= 1; dx++) {
+            for (let dz = -1; dz <= 1; dz++) {
+              if (dx === 0 && dz === 0) continue;
+              neighborHeightsSum += current[x + dx][z + dz];
+            }
+          }
+          const averageNeighborHeight = neighborHeightsSum / 8;
+          if (current[x][z] > averageNeighborHeight + MAX_HEIGHT_DIFF_THRESHOLD) {
+            next[x][z] = Math.max(
+              0,
+              Math.min(
+                Math.floor(averageNeighborHeight + MAX_HEIGHT_DIFF_THRESHOLD),
+                this.layers - 1
+              )
+            );
+          }
+        }
+      }
+      current = next;
+    }
+    return current;
+  }
+}
@@ -57,6 +57,9 @@ export interface DebugInfoState {
   isRunning: string;
   isBoosting: string;
   lookDirection: string; // Dirección de la mirada (yaw/pitch)
+  biome: string; // Bioma de la columna en la que está el jugador
+  light: string; // Luz en la posición del jugador; vacío si debug.showLightLevels está desactivado
+  blockInfo: string; // Bloque que mira el jugador; vacío si debug.showBlockInfo está desactivado
 }
 
 export interface ErrorInfo {
@@ -82,6 +85,7 @@ export interface GameRefs {
   cursor: typeof CURSOR_STATE;
   gameLoopId: number | null;
   canvasRef: HTMLDivElement | null;
+  worldId: string | null;
   worldSeed: string | null;
   sky: AdvancedSky | null;
   eventBus: EventBus;
@@ -90,12 +94,28 @@ export interface GameRefs {
   lightingService: ILightingService | null;
 }
 
-export type BlockDefinition = { side: string } | string[];
+// Cambio de un bloque respecto al terreno generado: [x, y, z locales, tipo]
+export type ChunkBlockChange = [number, number, number, string];
+export type ChunkDiff = ChunkBlockChange[];
+
+// Posición de un bloque en coordenadas del mundo (THREE.Vector3 también sirve)
+export interface BlockPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Bloque cambiado por una edición masiva de World (fill, replace, clone...)
+export interface BlockChange extends BlockPosition {
+  before: string;
+  after: string;
+}
 
 // Interfaces base para servicios
 export interface IWorldService {
   getBlock(x: number, y: number, z: number): string | null;
-  setBlock(x: number, y: number, z: number, blockType: string): void;
+  // false si el mundo no ha aceptado el cambio (chunk generándose, cooldown...)
+  setBlock(x: number, y: number, z: number, blockType: string): boolean;
   activeChunks: Map<string, any>;
   updateChunks(position: THREE.Vector3): void;
   getSpawnHeight(x: number, z: number): number;
@@ -160,6 +180,8 @@ export interface IPlayerMovement {
 export interface IBlockInteraction {
   highlightBlock(): void;
   interactWithBlock(destroy: boolean): void;
+  breakBlock(): void;
+  pickBlock(): void;
   clearHighlight(): void;
   getLookingAt(): LookingAtInfo | null;
 }
@@ -2,6 +2,8 @@
 // Pool de Web Workers para generación de mallas de chunks
 
 import createMeshWorker from "./meshWorkerWrapper";
+import type { MeshWorkerRequest, MeshWorkerResponse } from "./meshWorker";
+import type { ChunkMeshData, ChunkMeshInput } from "../meshing/ChunkMesher";
 
 const WORKER_COUNT = Math.max(
   2,
@@ -9,12 +11,11 @@ const WORKER_COUNT = Math.max(
 );
 
 export type MeshTask = {
-  chunkData: string[][][];
+  // Bloques y luz con borde del chunk; sus buffers se transfieren al worker (quedan inutilizables aquí)
+  input: ChunkMeshInput;
   chunkX: number;
   chunkZ: number;
-  worldSeed: number;
-  blockPrototypes?: any;
-  onComplete: (meshData: any) => void;
+  onComplete: (meshData: ChunkMeshData) => void;
 };
 
 export class MeshWorkerPool {
@@ -25,7 +26,6 @@ export class MeshWorkerPool {
   constructor(poolSize: number = WORKER_COUNT) {
     for (let i = 0; i < poolSize; i++) {
       const worker = createMeshWorker();
-      worker.onmessage = (e) => this.handleWorkerMessage(i, e);
       this.workers.push(worker);
       this.busy.push(false);
     }
@@ -43,25 +43,25 @@ export class MeshWorkerPool {
 
   private runTaskOnWorker(idx: number, task: MeshTask) {
     this.busy[idx] = true;
-    (this.workers[idx] as Worker).onmessage = (e) =>
+    this.workers[idx].onmessage = (e: MessageEvent<MeshWorkerResponse>) =>
       this.handleWorkerMessage(idx, e, task.onComplete);
-    this.workers[idx].postMessage({
-      chunkData: task.chunkData,
+    const request: MeshWorkerRequest = {
       chunkX: task.chunkX,
       chunkZ: task.chunkZ,
-      worldSeed: task.worldSeed,
-      blockPrototypes: task.blockPrototypes,
-    });
+      input: task.input,
+    };
+    const transfer: ArrayBuffer[] = [task.input.blocks.buffer as ArrayBuffer];
+    if (task.input.light) transfer.push(task.input.light.buffer as ArrayBuffer);
+    this.workers[idx].postMessage(request, transfer);
   }
 
   private handleWorkerMessage(
     idx: number,
-    e: MessageEvent,
-    onComplete?: (meshData: any) => void
+    e: MessageEvent<MeshWorkerResponse>,
+    onComplete: (meshData: ChunkMeshData) => void
   ) {
     this.busy[idx] = false;
-    const meshData = e.data.meshData;
-    if (onComplete) onComplete(meshData);
+    onComplete(e.data.meshData);
     // Atiende la siguiente tarea en la cola si existe
     if (this.queue.length > 0) {
       const nextTask = this.queue.shift()!;
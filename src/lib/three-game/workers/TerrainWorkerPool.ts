@@ -0,0 +1,108 @@
+// src/lib/three-game/workers/TerrainWorkerPool.ts
+// Pool de Web Workers para la generación del terreno de los chunks
+
+import createTerrainWorker from "./terrainWorkerWrapper";
+import type { TerrainWorkerResponse } from "./terrainWorker";
+
+const WORKER_COUNT = Math.max(
+  1,
+  Math.floor(navigator.hardwareConcurrency / 4) || 1
+);
+
+export type TerrainTask = {
+  chunkX: number;
+  chunkZ: number;
+  worldSeed: number;
+  layers: number;
+  // Si devuelve true al llegar el turno de la tarea (p. ej. el chunk ya se
+  // descargó), se descarta sin generar nada
+  isStale?: () => boolean;
+  onComplete: (blocks: Uint16Array) => void;
+  // El worker falló al generar el chunk; quien pidió la tarea decide cómo seguir
+  onError: (error: unknown) => void;
+};
+
+export class TerrainWorkerPool {
+  private workers: Worker[] = [];
+  private busy: boolean[] = [];
+  private queue: TerrainTask[] = [];
+
+  constructor(poolSize: number = WORKER_COUNT) {
+    for (let i = 0; i < poolSize; i++) {
+      const worker = createTerrainWorker();
+      this.workers.push(worker);
+      this.busy.push(false);
+    }
+  }
+
+  enqueueTask(task: TerrainTask) {
+    // Busca un worker libre
+    const freeIdx = this.busy.findIndex((b) => !b);
+    if (freeIdx !== -1) {
+      this.runTaskOnWorker(freeIdx, task);
+    } else {
+      this.queue.push(task);
+    }
+  }
+
+  getPendingCount(): number {
+    return this.queue.length + this.busy.filter((b) => b).length;
+  }
+
+  private runTaskOnWorker(idx: number, task: TerrainTask) {
+    this.busy[idx] = true;
+    const worker = this.workers[idx];
+    worker.onmessage = (e: MessageEvent<TerrainWorkerResponse>) =>
+      this.handleWorkerMessage(idx, e, task.onComplete);
+    // Sin esto el worker quedaría ocupado para siempre y el chunk sin generar
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      this.handleWorkerError(idx, task, e.error ?? new Error(e.message));
+    };
+    worker.onmessageerror = () =>
+      this.handleWorkerError(idx, task, new Error("Respuesta del worker ilegible"));
+    worker.postMessage({
+      chunkX: task.chunkX,
+      chunkZ: task.chunkZ,
+      seed: task.worldSeed,
+      layers: task.layers,
+    });
+  }
+
+  private handleWorkerMessage(
+    idx: number,
+    e: MessageEvent<TerrainWorkerResponse>,
+    onComplete: (blocks: Uint16Array) => void
+  ) {
+    this.busy[idx] = false;
+    onComplete(e.data.blocks);
+    this.runNextTask(idx);
+  }
+
+  private handleWorkerError(idx: number, task: TerrainTask, error: unknown) {
+    console.error(
+      `TerrainWorkerPool: error al generar el chunk ${task.chunkX},${task.chunkZ}`,
+      error
+    );
+    this.busy[idx] = false;
+    task.onError(error);
+    this.runNextTask(idx);
+  }
+
+  // Atiende la siguiente tarea vigente de la cola si existe
+  private runNextTask(idx: number) {
+    while (this.queue.length > 0) {
+      const nextTask = this.queue.shift()!;
+      if (nextTask.isStale && nextTask.isStale()) continue;
+      this.runTaskOnWorker(idx, nextTask);
+      break;
+    }
+  }
+
+  dispose() {
+    this.workers.forEach((w) => w.terminate());
+    this.workers = [];
+    this.busy = [];
+    this.queue = [];
+  }
+}
@@ -0,0 +1,212 @@
+// Pruebas unitarias y benchmark del mallado de chunks (meshing/ChunkMesher.ts,
+// el mismo código que ejecuta meshWorker.ts)
+// Ejecutar con: npm run bench:meshworker
+import fs from "fs";
+import { performance } from "perf_hooks";
+import { BlockRegistry } from "../BlockRegistry";
+import {
+  UNLOADED_BLOCK,
+  buildChunkMesh,
+  isMeshEmpty,
+  type ChunkMeshInput,
+  type ChunkMeshPart,
+} from "../meshing/ChunkMesher";
+
+type FillType = "solid" | "empty" | "half" | "checker";
+
+const blockRegistry = BlockRegistry.getInstance();
+const palette = blockRegistry.getPalette();
+
+// Chunk de la prueba con el borde de un bloque que espera el mallado
+// (Chunk.getPaddedBlocks); el borde lateral queda sin cargar y encima y
+// debajo hay aire, como en la base y la cima del mundo
+function createMeshInput(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  fillType: FillType,
+  blockType: string,
+  ambientOcclusion: boolean
+): ChunkMeshInput {
+  const paddedX = sizeX + 2;
+  const paddedZ = sizeZ + 2;
+  const blocks = new Uint16Array(paddedX * (sizeY + 2) * paddedZ).fill(UNLOADED_BLOCK);
+  blocks.fill(0, 0, paddedX * paddedZ);
+  blocks.fill(0, paddedX * (sizeY + 1) * paddedZ);
+  const blockId = blockRegistry.getId(blockType);
+  for (let x = 0; x < sizeX; x++) {
+    for (let y = 0; y < sizeY; y++) {
+      for (let z = 0; z < sizeZ; z++) {
+        let filled = false;
+        if (fillType === "solid") {
+          filled = true;
+        } else if (fillType === "half") {
+          filled = y < sizeY / 2;
+        } else if (fillType === "checker") {
+          filled = (x + y + z) % 2 === 0;
+        }
+        blocks[((y + 1) * paddedZ + (z + 1)) * paddedX + (x + 1)] = filled ? blockId : 0;
+      }
+    }
+  }
+  return {
+    blocks,
+    light: null,
+    columnTints: null,
+    palette,
+    sizeX,
+    sizeY,
+    sizeZ,
+    originY: 0,
+    ambientOcclusion,
+  };
+}
+
+type BenchResult = {
+  label: string;
+  ambientOcclusion: boolean;
+  vertices: number;
+  faces: number;
+  elapsed: number;
+};
+
+const results: BenchResult[] = [];
+
+function checkPart(part: ChunkMeshPart, ambientOcclusion: boolean): void {
+  const vertexCount = part.positions.length / 3;
+  // Test: ¿los índices son válidos y todos los vértices se usan?
+  if (part.indices.length % 6 !== 0) throw new Error("Quads incompletos");
+  const used = new Uint8Array(vertexCount);
+  for (const idx of part.indices) {
+    if (idx >= vertexCount) throw new Error("Índice de vértice fuera de rango");
+    used[idx] = 1;
+  }
+  if (used.includes(0)) throw new Error("Vértices sin usar");
+  // Test: ¿todos los atributos tienen un valor por vértice?
+  if (
+    part.normals.length !== vertexCount * 3 ||
+    part.atlasUv.length !== vertexCount * 3 ||
+    part.colors.length !== vertexCount * 4 ||
+    part.voxelLight.length !== vertexCount * 2 ||
+    part.ambientOcclusion.length !== vertexCount
+  )
+    throw new Error("Atributos con un tamaño inesperado");
+  // Test: ¿la luz está en rango?
+  for (const light of part.voxelLight) {
+    if (light < 0 || light > 1) throw new Error("Valor de luz fuera de rango");
+  }
+  // Test: ¿la oclusión está en rango y solo aparece si se pidió?
+  for (const ao of part.ambientOcclusion) {
+    if (ao <= 0 || ao > 1) throw new Error("Valor de oclusión fuera de rango");
+    if (!ambientOcclusion && ao !== 1)
+      throw new Error("Oclusión calculada con la opción desactivada");
+  }
+}
+
+function runMeshTest(input: ChunkMeshInput, label: string): BenchResult {
+  const t0 = performance.now();
+  const meshData = buildChunkMesh(input);
+  const elapsed = Math.round((performance.now() - t0) * 10) / 10;
+  const parts = [meshData.opaque, meshData.transparent];
+  parts.forEach((part) => checkPart(part, input.ambientOcclusion));
+  const result: BenchResult = {
+    label,
+    ambientOcclusion: input.ambientOcclusion,
+    vertices: parts.reduce((total, part) => total + part.positions.length / 3, 0),
+    faces: parts.reduce((total, part) => total + part.indices.length / 6, 0),
+    elapsed,
+  };
+  results.push(result);
+  console.log(
+    `${label}${input.ambientOcclusion ? " +AO" : ""}: ${result.vertices} vértices, ${result.faces} caras, tiempo: ${elapsed}ms`
+  );
+  return result;
+}
+
+function runBenchmarks(): void {
+  const tests: { size: [number, number, number]; fill: FillType; blockType?: string }[] = [
+    { size: [16, 16, 16], fill: "solid" },
+    { size: [16, 16, 16], fill: "empty" },
+    { size: [16, 16, 16], fill: "half" },
+    { size: [16, 16, 16], fill: "checker" },
+    { size: [32, 32, 32], fill: "solid" },
+    { size: [32, 32, 32], fill: "half" },
+    { size: [32, 32, 32], fill: "checker" },
+    { size: [16, 64, 16], fill: "solid" },
+    { size: [16, 64, 16], fill: "half" },
+    { size: [16, 64, 16], fill: "checker" },
+    // --- Pruebas de estrés/extremos ---
+    { size: [64, 64, 64], fill: "solid" }, // Chunk gigante sólido
+    { size: [64, 64, 64], fill: "empty" },
+    { size: [64, 64, 64], fill: "half" },
+    { size: [64, 64, 64], fill: "checker" },
+    { size: [32, 32, 32], fill: "solid", blockType: "waterBlock" }, // Chunk gigante solo agua
+    { size: [32, 32, 32], fill: "checker", blockType: "waterBlock" }, // Checker de agua
+    // Cambios masivos: alternar entre sólido y vacío
+    { size: [32, 32, 32], fill: "solid", blockType: "stoneBlock" },
+    { size: [32, 32, 32], fill: "solid", blockType: "dirtBlock" },
+    { size: [32, 32, 32], fill: "solid", blockType: "sandBlock" },
+    { size: [32, 32, 32], fill: "solid", blockType: "waterBlock" },
+  ];
+  // Cada prueba se ejecuta sin y con oclusión ambiental para medir su coste
+  for (const t of tests) {
+    for (const ambientOcclusion of [false, true]) {
+      const input = createMeshInput(
+        ...t.size,
+        t.fill,
+        t.blockType || "stoneBlock",
+        ambientOcclusion
+      );
+      const result = runMeshTest(
+        input,
+        `${t.size.join("x")} ${t.fill}${t.blockType ? " " + t.blockType : ""}`
+      );
+      // Test: un cubo sólido se fusiona en un quad por cara (la de abajo no se ve)
+      if (t.fill === "solid" && !t.blockType && result.faces !== 5)
+        throw new Error(`Un chunk sólido debería tener 5 caras, tiene ${result.faces}`);
+      // Test: ¿isMeshEmpty coincide con el mallado?
+      if (isMeshEmpty(input) && result.faces !== 0)
+        throw new Error("isMeshEmpty descarta un chunk con caras visibles");
+      if (t.fill === "empty" && !isMeshEmpty(input))
+        throw new Error("isMeshEmpty no detecta un chunk vacío");
+    }
+  }
+  // Resumen final
+  const byType: Record<string, number[]> = {};
+  for (const r of results) {
+    const key =
+      r.label.split(" ").slice(1).join(" ") + (r.ambientOcclusion ? " +AO" : "");
+    if (!byType[key]) byType[key] = [];
+    byType[key].push(r.elapsed);
+  }
+  console.log("\nResumen de tiempos promedio por tipo:");
+  for (const key in byType) {
+    const arr = byType[key];
+    const avg = arr.reduce((a, b) => a + b, 0) / arr.length;
+    console.log(`${key}: ${avg.toFixed(1)}ms promedio (${arr.length} tests)`);
+  }
+  const totalTime = (withAO: boolean) =>
+    results
+      .filter((r) => r.ambientOcclusion === withAO)
+      .reduce((total, r) => total + r.elapsed, 0);
+  const baseTime = totalTime(false);
+  const aoTime = totalTime(true);
+  console.log(
+    `Coste de la oclusión ambiental: ${(aoTime - baseTime).toFixed(1)}ms en total (${(
+      ((aoTime - baseTime) / Math.max(1, baseTime)) *
+      100
+    ).toFixed(1)}%)`
+  );
+  // Exportar a CSV
+  const csvHeader = "label,vertices,faces,elapsed_ms,ambient_occlusion\n";
+  const csvRows = results.map(
+    (r) =>
+      `${r.label},${r.vertices},${r.faces},${r.elapsed},${r.ambientOcclusion}`
+  );
+  const csvContent = csvHeader + csvRows.join("\n");
+  fs.writeFileSync("meshWorker-benchmarks.csv", csvContent);
+  console.log("Resultados exportados a meshWorker-benchmarks.csv");
+  console.log("Benchmarks finalizados.");
+}
+
+runBenchmarks();
@@ -0,0 +1,30 @@
+// src/lib/three-game/workers/meshWorker.ts
+// Worker para el mallado de los chunks
+
+import {
+  buildChunkMesh,
+  getChunkMeshTransferables,
+  type ChunkMeshData,
+  type ChunkMeshInput,
+} from "../meshing/ChunkMesher";
+
+export type MeshWorkerRequest = {
+  chunkX: number;
+  chunkZ: number;
+  input: ChunkMeshInput;
+};
+
+export type MeshWorkerResponse = {
+  chunkX: number;
+  chunkZ: number;
+  // Buffers de las dos mallas del chunk; se transfieren al hilo principal
+  meshData: ChunkMeshData;
+};
+
+// Es el mismo buildChunkMesh que usa Chunk.buildMesh en el hilo principal
+self.onmessage = (e: MessageEvent<MeshWorkerRequest>) => {
+  const { chunkX, chunkZ, input } = e.data;
+  const meshData = buildChunkMesh(input);
+  const response: MeshWorkerResponse = { chunkX, chunkZ, meshData };
+  self.postMessage(response, { transfer: getChunkMeshTransferables(meshData) });
+};
@@ -0,0 +1,27 @@
+// src/lib/three-game/workers/terrainWorker.ts
+// Worker para la generación del terreno de los chunks
+
+import { TerrainGenerator } from "../terrain/TerrainGenerator";
+
+export type TerrainWorkerRequest = {
+  chunkX: number;
+  chunkZ: number;
+  seed: number;
+  layers: number;
+};
+
+export type TerrainWorkerResponse = {
+  chunkX: number;
+  chunkZ: number;
+  // Ids de bloque del chunk; el buffer se transfiere al hilo principal
+  blocks: Uint16Array;
+};
+
+// Es el mismo TerrainGenerator que usa el hilo principal: con la misma semilla
+// genera exactamente los mismos bloques en cualquiera de los dos hilos.
+self.onmessage = (e: MessageEvent<TerrainWorkerRequest>) => {
+  const { chunkX, chunkZ, seed, layers } = e.data;
+  const blocks = TerrainGenerator.forSeed(seed, layers).generateChunk(chunkX, chunkZ);
+  const response: TerrainWorkerResponse = { chunkX, chunkZ, blocks };
+  self.postMessage(response, { transfer: [blocks.buffer] });
+};
@@ -0,0 +1,7 @@
+// src/lib/three-game/workers/terrainWorkerWrapper.ts
+// Wrapper para crear el worker de terreno compatible con Next.js/Turbopack
+export default function createTerrainWorker() {
+  return new Worker(new URL("./terrainWorker.ts", import.meta.url), {
+    type: "module",
+  });
+}